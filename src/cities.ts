@@ -0,0 +1,181 @@
+import { readFileSync, writeFileSync } from "node:fs";
+import type { CityConfig } from "./types.js";
+
+// City registry file (cities.json): one entry per market city.
+//
+// Entries are validated on load so a typo fails at startup with the path of
+// the bad field, rather than as a 404 from Open-Meteo or a market that never
+// parses. `enabled: false` keeps a city's history (settlements, calibration)
+// while dropping it from scans; ENABLED_CITIES / DISABLED_CITIES override
+// the file per environment.
+
+export interface CityEntry extends CityConfig {
+  enabled: boolean;
+}
+
+const UNITS = ["F", "C"];
+const SETTLEMENT_SOURCES = ["nws-cli", "metar"];
+
+function isValidTimezone(tz: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate parsed registry JSON. Throws on the first invalid field.
+ */
+export function validateCityRegistry(raw: unknown, source = "cities.json"): CityEntry[] {
+  if (!Array.isArray(raw)) {
+    throw new Error(`${source}: expected an array of cities`);
+  }
+
+  const slugs = new Set<string>();
+  const aliases = new Map<string, string>(); // alias -> slug
+
+  return raw.map((item, i) => {
+    const at = (field: string) => `${source}[${i}].${field}`;
+    if (typeof item !== "object" || item === null) {
+      throw new Error(`${source}[${i}]: expected an object`);
+    }
+    const c = item as Record<string, unknown>;
+
+    const str = (field: string): string => {
+      const v = c[field];
+      if (typeof v !== "string" || v.trim() === "") throw new Error(`${at(field)}: expected a non-empty string`);
+      return v;
+    };
+    const num = (field: string, min: number, max: number): number => {
+      const v = c[field];
+      if (typeof v !== "number" || !Number.isFinite(v) || v < min || v > max) {
+        throw new Error(`${at(field)}: expected a number in [${min}, ${max}]`);
+      }
+      return v;
+    };
+    const optional = <T>(field: string, read: (field: string) => T): T | undefined =>
+      c[field] === undefined ? undefined : read(field);
+    const oneOf = <T extends string>(field: string, allowed: string[]): T => {
+      const v = str(field);
+      if (!allowed.includes(v)) throw new Error(`${at(field)}: expected one of ${allowed.join(", ")}`);
+      return v as T;
+    };
+
+    const slug = str("slug");
+    if (!/^[a-z0-9-]+$/.test(slug)) throw new Error(`${at("slug")}: expected lowercase letters, digits and dashes`);
+    if (slugs.has(slug)) throw new Error(`${at("slug")}: duplicate slug "${slug}"`);
+    slugs.add(slug);
+
+    const timezone = str("timezone");
+    if (!isValidTimezone(timezone)) throw new Error(`${at("timezone")}: unknown IANA timezone "${timezone}"`);
+
+    const settlementSource = oneOf<CityConfig["settlementSource"]>("settlementSource", SETTLEMENT_SOURCES);
+
+    // NWS grid: all three fields or none
+    const nwsGridId = optional("nwsGridId", str);
+    const nwsGridX = optional("nwsGridX", (f) => num(f, 0, 1000));
+    const nwsGridY = optional("nwsGridY", (f) => num(f, 0, 1000));
+    const gridFields = [nwsGridId, nwsGridX, nwsGridY].filter((v) => v !== undefined).length;
+    if (gridFields !== 0 && gridFields !== 3) {
+      throw new Error(`${at("nwsGridId")}: nwsGridId, nwsGridX and nwsGridY must be set together`);
+    }
+
+    const rawAliases = c["aliases"] ?? [];
+    if (!Array.isArray(rawAliases) || rawAliases.some((a) => typeof a !== "string" || a.trim() === "")) {
+      throw new Error(`${at("aliases")}: expected an array of non-empty strings`);
+    }
+    const cityAliases = rawAliases.map((a: string) => a.trim().toLowerCase());
+    for (const alias of cityAliases) {
+      const owner = aliases.get(alias);
+      if (owner && owner !== slug) throw new Error(`${at("aliases")}: "${alias}" already belongs to ${owner}`);
+      aliases.set(alias, slug);
+    }
+
+    const enabled = c["enabled"] ?? true;
+    if (typeof enabled !== "boolean") throw new Error(`${at("enabled")}: expected a boolean`);
+
+    const station = str("iowaStation").toUpperCase();
+
+    return {
+      name: str("name"),
+      slug,
+      polymarketSlug: str("polymarketSlug"),
+      lat: num("lat", -90, 90),
+      lon: num("lon", -180, 180),
+      timezone,
+      unit: oneOf<CityConfig["unit"]>("unit", UNITS),
+      settlementSource,
+      ...(gridFields === 3 ? { nwsGridId, nwsGridX, nwsGridY } : {}),
+      iowaStation: station,
+      stationLat: num("stationLat", -90, 90),
+      stationLon: num("stationLon", -180, 180),
+      stationElevationM: num("stationElevationM", -500, 9000),
+      aliases: cityAliases,
+      enabled,
+    };
+  });
+}
+
+export function loadCityRegistry(path: string): CityEntry[] {
+  let text: string;
+  try {
+    text = readFileSync(path, "utf8");
+  } catch (err) {
+    throw new Error(`City registry not found at ${path}: ${(err as Error).message}`);
+  }
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (err) {
+    throw new Error(`${path}: invalid JSON: ${(err as Error).message}`);
+  }
+  return validateCityRegistry(raw, path);
+}
+
+export function saveCityRegistry(path: string, cities: CityEntry[]): void {
+  validateCityRegistry(cities, path); // never write a file we would refuse to load
+  writeFileSync(path, `${JSON.stringify(cities, null, 2)}\n`);
+}
+
+/**
+ * Apply per-environment overrides: ENABLED_CITIES (if set) is the exact set
+ * of cities to trade; DISABLED_CITIES is removed from whatever remains.
+ */
+export function selectEnabledCities(
+  cities: CityEntry[],
+  enabledList?: string,
+  disabledList?: string,
+): CityEntry[] {
+  const parse = (list: string | undefined) =>
+    (list ?? "").split(",").map((s) => s.trim().toLowerCase()).filter((s) => s.length > 0);
+  const known = new Set(cities.map((c) => c.slug));
+  const check = (slugs: string[], name: string) => {
+    for (const slug of slugs) {
+      if (!known.has(slug)) throw new Error(`${name}: unknown city "${slug}" (known: ${[...known].join(", ")})`);
+    }
+  };
+
+  const enabled = parse(enabledList);
+  const disabled = parse(disabledList);
+  check(enabled, "ENABLED_CITIES");
+  check(disabled, "DISABLED_CITIES");
+
+  return cities.filter((c) =>
+    (enabled.length > 0 ? enabled.includes(c.slug) : c.enabled) && !disabled.includes(c.slug),
+  );
+}
+
+/**
+ * Title alias → slug. Every city also matches its slug and lowercased name.
+ */
+export function buildAliasMap(cities: CityConfig[]): Record<string, string> {
+  const map: Record<string, string> = {};
+  for (const city of cities) {
+    map[city.slug] = city.slug;
+    map[city.name.toLowerCase()] = city.slug;
+    for (const alias of city.aliases) map[alias] = city.slug;
+  }
+  return map;
+}
@@ -1,6 +1,8 @@
 import type { Signal, Position, AppConfig } from "../types.js";
 import { getPnLSummary } from "../settlement/pnl.js";
 import { getOpenPositions, getAllPositions } from "../store/db.js";
+import { getCity, getForecastProviders, CITIES } from "../config.js";
+import { forecastHealth, summarizeHealth } from "../weather/health.js";
 
 const RESET = "\x1b[0m";
 const BOLD = "\x1b[1m";
@@ -46,8 +48,8 @@ export function printDashboard(config: AppConfig, signals: Signal[], cycle: numb
     console.log(`  ${DIM}${pad("City", 10)} ${pad("Date", 12)} ${pad("Bracket", 18)} ${pad("Side", 5)} ${rpad("Model", 7)} ${rpad("Mkt", 7)} ${rpad("Edge", 7)} ${rpad("Size", 8)} ${pad("Conf", 10)}${RESET}`);
     for (const s of signals) {
       const bracketStr = s.market.bracketType === "between"
-        ? `${s.market.bracketMin}-${s.market.bracketMax - 1}°F`
-        : `${s.market.bracketType} ${s.market.bracketType === "above" ? s.market.bracketMin : s.market.bracketMax}°F`;
+        ? `${s.market.bracketMin}-${s.market.bracketMax - 1}°${s.market.unit}`
+        : `${s.market.bracketType} ${s.market.bracketType === "above" ? s.market.bracketMin : s.market.bracketMax}°${s.market.unit}`;
       const edgeColor = s.edge >= 0.15 ? GREEN : s.edge >= 0.10 ? YELLOW : WHITE;
       const confColor = s.confidence === "LOCK" ? MAGENTA : s.confidence === "STRONG" ? GREEN : YELLOW;
 
@@ -78,6 +80,20 @@ export function printDashboard(config: AppConfig, signals: Signal[], cycle: numb
     }
   }
 
+  // Forecast Health
+  const health = summarizeHealth(forecastHealth(getForecastProviders(config), CITIES, config.forecastPoint));
+  console.log(`\n${BOLD}${WHITE}── Forecast Health ──${RESET}`);
+  console.log(`  ${DIM}${pad("Model", 8)} ${rpad("Fresh", 6)} ${rpad("Stale", 6)} ${rpad("Excl", 6)} ${rpad("Miss", 6)}  ${pad("Oldest run", 14)} Failing${RESET}`);
+  for (const h of health) {
+    const color = h.counts.excluded + h.counts.missing > 0 ? RED : h.counts.stale > 0 ? YELLOW : GREEN;
+    console.log(
+      `  ${color}${pad(h.provider, 8)}${RESET} ${rpad(String(h.counts.fresh), 6)} ${rpad(String(h.counts.stale), 6)} ` +
+      `${rpad(String(h.counts.excluded), 6)} ${rpad(String(h.counts.missing), 6)}  ` +
+      `${pad(h.oldestRun !== null ? new Date(h.oldestRun).toISOString().slice(0, 13) + "z" : "—", 14)} ` +
+      `${h.lastError ? `${RED}${h.lastError.city}: ${h.lastError.message.slice(0, 40)}${RESET}` : `${DIM}—${RESET}`}`,
+    );
+  }
+
   // Recent Settlements
   const recentSettled = settledPos.slice(0, 10);
   console.log(`\n${BOLD}${WHITE}── Recent Settlements ──${RESET}`);
@@ -87,7 +103,7 @@ export function printDashboard(config: AppConfig, signals: Signal[], cycle: numb
     for (const p of recentSettled) {
       const icon = p.status === "won" ? `${GREEN}✅` : `${RED}❌`;
       const pnlStr = (p.pnl ?? 0) >= 0 ? `${GREEN}+$${(p.pnl ?? 0).toFixed(2)}` : `${RED}-$${Math.abs(p.pnl ?? 0).toFixed(2)}`;
-      console.log(`  ${icon} ${pad(p.city, 10)} ${pad(p.date, 12)} actual=${p.actualTemp}°F ${pnlStr}${RESET}`);
+      console.log(`  ${icon} ${pad(p.city, 10)} ${pad(p.date, 12)} actual=${p.actualTemp}°${getCity(p.city)?.unit ?? "F"} ${pnlStr}${RESET}`);
     }
   }
 
@@ -1,6 +1,9 @@
-import { getDb } from "../store/db.js";
+import { getDb, getEventComparisons } from "../store/db.js";
 import { getPnLSummary } from "../settlement/pnl.js";
+import { getCity, getForecastProviders, CITIES } from "../config.js";
 import { logger } from "../logger.js";
+import { forecastHealth, summarizeHealth } from "../weather/health.js";
+import type { AppConfig } from "../types.js";
 
 const PORT = 3456;
 
@@ -8,14 +11,14 @@ const PORT = 3456;
  * Simple web dashboard served by Bun.
  * Reads from SQLite, renders equity curve + positions + stats.
  */
-export function startWebDashboard(): void {
+export function startWebDashboard(config: AppConfig): void {
   Bun.serve({
     port: PORT,
     fetch(req) {
       const url = new URL(req.url);
 
       if (url.pathname === "/api/data") {
-        return Response.json(getDashboardData());
+        return Response.json(getDashboardData(config));
       }
 
       return new Response(HTML, {
@@ -27,7 +30,7 @@ export function startWebDashboard(): void {
   logger.info({ port: PORT }, "Web dashboard started");
 }
 
-function getDashboardData() {
+function getDashboardData(config: AppConfig) {
   const db = getDb();
   const pnl = getPnLSummary();
 
@@ -61,12 +64,17 @@ function getDashboardData() {
     GROUP BY city
   `).all() as any[];
 
+  const health = forecastHealth(getForecastProviders(config), CITIES, config.forecastPoint);
+
   return {
     pnl,
     positions: positions.map(mapPos),
     signals,
     equityCurve,
     cityStats,
+    forecastHealth: summarizeHealth(health),
+    degradedForecasts: health.filter((h) => h.status !== "fresh"),
+    marketVsModel: getEventComparisons(new Date().toISOString().slice(0, 10)).slice(0, 30),
   };
 }
 
@@ -76,6 +84,7 @@ function mapPos(r: any) {
     city: r.city,
     date: r.date,
     metric: r.metric,
+    unit: getCity(r.city)?.unit ?? "F",
     bracketType: r.bracket_type,
     bracketMin: r.bracket_min,
     bracketMax: r.bracket_max,
@@ -166,6 +175,32 @@ const HTML = `<!DOCTYPE html>
   <div id="heatmap" class="heatmap"></div>
 </div>
 
+<div class="section">
+  <div class="section-title">Forecast Health</div>
+  <div class="card">
+    <table>
+      <thead><tr>
+        <th>Model</th><th>Fresh</th><th>Stale</th><th>Excluded</th><th>Missing</th>
+        <th>Oldest Run</th><th>Failing</th>
+      </tr></thead>
+      <tbody id="health"></tbody>
+    </table>
+  </div>
+</div>
+
+<div class="section">
+  <div class="section-title">Market vs Model</div>
+  <div class="card">
+    <table>
+      <thead><tr>
+        <th>City</th><th>Date</th><th>Metric</th><th>Market μ±σ</th><th>Model μ±σ</th>
+        <th>KL</th><th>Structure</th>
+      </tr></thead>
+      <tbody id="comparisons"></tbody>
+    </table>
+  </div>
+</div>
+
 <div class="section">
   <div class="section-title">Positions</div>
   <div class="card">
@@ -203,13 +238,40 @@ async function load() {
     '<td>' + (p.entryPrice * 100).toFixed(1) + '¢</td>' +
     '<td>$' + p.size.toFixed(2) + '</td>' +
     '<td>' + (p.edge * 100).toFixed(1) + '%</td>' +
-    '<td>' + (p.actualTemp != null ? p.actualTemp + '°F' : '—') + '</td>' +
+    '<td>' + (p.actualTemp != null ? p.actualTemp + '°' + p.unit : '—') + '</td>' +
     '<td class="' + (p.pnl >= 0 ? 'positive' : 'negative') + '">' +
       (p.pnl != null ? fmt(p.pnl) : '—') + '</td>' +
     '<td><span class="badge badge-' + p.status + '">' + p.status.toUpperCase() + '</span></td>' +
     '</tr>'
   ).join('');
 
+  // Forecast health, one row per model
+  document.getElementById('health').innerHTML = d.forecastHealth.map(h =>
+    '<tr>' +
+    '<td class="' + (h.counts.excluded + h.counts.missing > 0 ? 'negative' : h.counts.stale > 0 ? 'open' : 'positive') + '">' +
+      h.provider.toUpperCase() + '</td>' +
+    '<td>' + h.counts.fresh + '</td>' +
+    '<td>' + h.counts.stale + '</td>' +
+    '<td>' + h.counts.excluded + '</td>' +
+    '<td>' + h.counts.missing + '</td>' +
+    '<td>' + (h.oldestRun != null ? new Date(h.oldestRun).toISOString().slice(0, 13) + 'z' : '—') + '</td>' +
+    '<td class="negative">' + (h.lastError ? h.lastError.city + ': ' + h.lastError.message : '') + '</td>' +
+    '</tr>'
+  ).join('');
+
+  // Market-implied vs model distribution, most divergent events first
+  document.getElementById('comparisons').innerHTML = d.marketVsModel.map(c =>
+    '<tr>' +
+    '<td>' + c.city + '</td>' +
+    '<td>' + c.date + '</td>' +
+    '<td>' + c.metric + '</td>' +
+    '<td>' + c.market.mean.toFixed(1) + ' ± ' + c.market.sd.toFixed(1) + '°' + c.unit + '</td>' +
+    '<td>' + c.model.mean.toFixed(1) + ' ± ' + c.model.sd.toFixed(1) + '°' + c.unit + '</td>' +
+    '<td>' + c.klDivergence.toFixed(3) + '</td>' +
+    '<td class="' + (c.structure === 'aligned' ? '' : 'open') + '">' + c.structure + '</td>' +
+    '</tr>'
+  ).join('');
+
   // City heatmap
   document.getElementById('heatmap').innerHTML = d.cityStats.map(c =>
     '<div class="heat-cell">' +
@@ -0,0 +1,176 @@
+// add-city.ts — Register a market city in the city registry (cities.json).
+//
+// For US cities, resolves everything NWS knows from the settlement station:
+// its coordinates, elevation and timezone from api.weather.gov/stations, then
+// the forecast gridpoint from /points. International (METAR-settled) cities
+// have no NWS grid, so their station location and timezone are given
+// explicitly.
+//
+// Usage: bun run src/commands/add-city.ts --name Denver --station KDEN [--alias "mile high"]
+//        bun run src/commands/add-city.ts --name Paris --station LFPG --unit C --source metar \
+//          --station-lat 49.0097 --station-lon 2.5479 --elevation 119 --timezone Europe/Paris
+//
+// Options: --slug, --polymarket-slug (default: name, dashed), --lat/--lon (city
+// centroid; default: the station), --disabled, --replace (overwrite an existing slug)
+
+import { logger } from "../logger.js";
+import { fetchWithRetry } from "../utils/retry.js";
+import { CITIES_FILE } from "../config.js";
+import { loadCityRegistry, saveCityRegistry, type CityEntry } from "../cities.js";
+import type { CityConfig } from "../types.js";
+
+const NWS_API = "https://api.weather.gov";
+const NWS_HEADERS = { "User-Agent": "WeatherClaw/1.0 (weather-bot)" };
+
+interface StationInfo {
+  lat: number;
+  lon: number;
+  elevationM: number;
+  timezone: string;
+  name: string;
+}
+
+interface GridPoint {
+  gridId: string;
+  gridX: number;
+  gridY: number;
+}
+
+async function fetchNWSStation(station: string): Promise<StationInfo> {
+  const res = await fetchWithRetry(`${NWS_API}/stations/${station}`, { headers: NWS_HEADERS });
+  if (!res.ok) throw new Error(`NWS station lookup failed for ${station}: ${res.status} ${res.statusText}`);
+  const data = (await res.json()) as NWSStationResponse;
+  const [lon, lat] = data.geometry?.coordinates ?? [];
+  const elevationM = data.properties?.elevation?.value;
+  if (lat === undefined || lon === undefined || elevationM == null || !data.properties?.timeZone) {
+    throw new Error(`NWS station ${station} has no coordinates, elevation or timezone`);
+  }
+  return { lat, lon, elevationM, timezone: data.properties.timeZone, name: data.properties.name ?? station };
+}
+
+async function fetchGridPoint(lat: number, lon: number): Promise<GridPoint> {
+  const res = await fetchWithRetry(`${NWS_API}/points/${lat.toFixed(4)},${lon.toFixed(4)}`, { headers: NWS_HEADERS });
+  if (!res.ok) throw new Error(`NWS /points lookup failed for ${lat},${lon}: ${res.status} ${res.statusText}`);
+  const data = (await res.json()) as NWSPointsResponse;
+  const p = data.properties;
+  if (!p?.gridId || p.gridX === undefined || p.gridY === undefined) {
+    throw new Error(`NWS /points returned no gridpoint for ${lat},${lon}`);
+  }
+  return { gridId: p.gridId, gridX: p.gridX, gridY: p.gridY };
+}
+
+function slugify(name: string): string {
+  return name.trim().toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const opts: Record<string, string> = {};
+  const aliases: string[] = [];
+  let disabled = false;
+  let replace = false;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--disabled") disabled = true;
+    else if (arg === "--replace") replace = true;
+    else if (arg === "--alias" && args[i + 1]) aliases.push(args[++i]);
+    else if (arg.startsWith("--") && args[i + 1]) opts[arg.slice(2)] = args[++i];
+  }
+
+  const name = opts["name"];
+  const station = opts["station"]?.toUpperCase();
+  if (!name || !station) throw new Error("--name and --station are required");
+
+  const slug = opts["slug"] ?? slugify(name);
+  const unit = (opts["unit"] ?? "F").toUpperCase() as CityConfig["unit"];
+  const source = (opts["source"] ?? (unit === "C" ? "metar" : "nws-cli")) as CityConfig["settlementSource"];
+  const num = (key: string) => (opts[key] !== undefined ? Number(opts[key]) : undefined);
+  const lat = num("lat");
+  const lon = num("lon");
+
+  let entry: CityEntry;
+  if (source === "nws-cli") {
+    const info = await fetchNWSStation(station);
+    const pointLat = lat ?? info.lat;
+    const pointLon = lon ?? info.lon;
+    const grid = await fetchGridPoint(pointLat, pointLon);
+    logger.info({ station, stationName: info.name, ...grid }, "add-city: resolved NWS station and gridpoint");
+
+    entry = {
+      name,
+      slug,
+      polymarketSlug: opts["polymarket-slug"] ?? slug,
+      lat: pointLat,
+      lon: pointLon,
+      timezone: opts["timezone"] ?? info.timezone,
+      unit,
+      settlementSource: source,
+      nwsGridId: grid.gridId,
+      nwsGridX: grid.gridX,
+      nwsGridY: grid.gridY,
+      iowaStation: station,
+      stationLat: info.lat,
+      stationLon: info.lon,
+      stationElevationM: Math.round(info.elevationM),
+      aliases,
+      enabled: !disabled,
+    };
+  } else {
+    const stationLat = num("station-lat");
+    const stationLon = num("station-lon");
+    const elevation = num("elevation");
+    if (stationLat === undefined || stationLon === undefined || elevation === undefined || !opts["timezone"]) {
+      throw new Error(
+        "--station-lat, --station-lon, --elevation and --timezone are required for cities without an NWS station",
+      );
+    }
+    entry = {
+      name,
+      slug,
+      polymarketSlug: opts["polymarket-slug"] ?? slug,
+      lat: lat ?? stationLat,
+      lon: lon ?? stationLon,
+      timezone: opts["timezone"],
+      unit,
+      settlementSource: source,
+      iowaStation: station,
+      stationLat,
+      stationLon,
+      stationElevationM: elevation,
+      aliases,
+      enabled: !disabled,
+    };
+  }
+
+  const cities = loadCityRegistry(CITIES_FILE);
+  const existing = cities.findIndex((c) => c.slug === slug);
+  if (existing >= 0 && !replace) {
+    throw new Error(`City "${slug}" is already registered (use --replace to overwrite)`);
+  }
+  if (existing >= 0) cities[existing] = entry;
+  else cities.push(entry);
+
+  saveCityRegistry(CITIES_FILE, cities); // validates before writing
+  logger.info({ slug, station, file: CITIES_FILE }, "add-city: city registered");
+  console.log(`\n${existing >= 0 ? "Updated" : "Added"} ${name} (${slug}) → ${CITIES_FILE}\n`);
+  console.log(JSON.stringify(entry, null, 2));
+  console.log("");
+  process.exit(0);
+}
+
+main().catch((err) => {
+  logger.fatal({ err }, "add-city: fatal error");
+  process.exit(1);
+});
+
+// --- api.weather.gov types ---
+
+interface NWSStationResponse {
+  geometry?: { coordinates?: [number, number] };
+  properties?: { name?: string; timeZone?: string; elevation?: { value?: number | null } };
+}
+
+interface NWSPointsResponse {
+  properties?: { gridId?: string; gridX?: number; gridY?: number; timeZone?: string };
+}
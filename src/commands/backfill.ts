@@ -0,0 +1,93 @@
+// backfill.ts — Pull multi-year settlement history into the settlements table.
+//
+// CLI-settled (US) stations are fetched a year at a time from the Iowa State
+// CLI archive; METAR-settled stations a month at a time from the ASOS archive,
+// reduced to civil-day max/min. The history feeds bias/weight fitting and the
+// climatological prior (src/weather/climatology.ts). Re-running is safe: rows
+// are upserted.
+//
+// Usage: bun run src/commands/backfill.ts [--years 10] [--city nyc]
+
+import { logger } from "../logger.js";
+import { ALL_CITIES } from "../config.js";
+import { fetchCLIYear, fetchMetarHistory } from "../settlement/tracker.js";
+import { computeClimatology } from "../weather/climatology.js";
+import { climateDate, dayBasis } from "../weather/climate-day.js";
+import { getSettlements } from "../store/db.js";
+import type { CityConfig } from "../types.js";
+
+const DEFAULT_YEARS = 10;
+
+async function backfillCity(city: CityConfig, years: number, now: number): Promise<number> {
+  const thisYear = new Date(now).getUTCFullYear();
+  let days = 0;
+
+  if (city.settlementSource === "nws-cli") {
+    for (let year = thisYear - years + 1; year <= thisYear; year++) {
+      days += (await fetchCLIYear(city.iowaStation, year)).length;
+    }
+    return days;
+  }
+
+  // METAR archive requests are kept to a month each
+  const firstMonth = new Date(Date.UTC(thisYear - years + 1, 0, 1));
+  for (let month = firstMonth; month.getTime() < now; ) {
+    const next = new Date(Date.UTC(month.getUTCFullYear(), month.getUTCMonth() + 1, 1));
+    // pad a day either side so edge days in the station's zone are whole
+    const start = month.getTime() - 24 * 60 * 60 * 1000;
+    const end = Math.min(now, next.getTime() + 24 * 60 * 60 * 1000);
+    days += (await fetchMetarHistory(city.iowaStation, city.timezone, start, end)).length;
+    month = next;
+  }
+  return days;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  let years = DEFAULT_YEARS;
+  let slug: string | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "--years" && args[i + 1]) years = Number(args[i + 1]);
+    if (args[i] === "--city" && args[i + 1]) slug = args[i + 1];
+  }
+  if (!Number.isInteger(years) || years < 1) {
+    throw new Error(`--years must be a positive whole number`);
+  }
+
+  const cities = ALL_CITIES.filter((c) => !slug || c.slug === slug);
+  if (cities.length === 0) throw new Error(`Unknown city "${slug}"`);
+
+  const now = Date.now();
+  console.log(`\nBackfilling ${years} year(s) of settlements for ${cities.length} station(s)\n`);
+  console.log(
+    `  ${"City".padEnd(14)} ${"Station".padEnd(8)} ${"Fetched".padStart(7)} ${"Stored".padStart(7)} ${"Since".padEnd(10)}  ` +
+    `Today's normal high (p10-p90) / low (p10-p90)`,
+  );
+
+  for (const city of cities) {
+    const fetched = await backfillCity(city, years, now);
+    const history = getSettlements(city.iowaStation);
+    const today = climateDate(now, city.timezone, dayBasis(city));
+    const high = computeClimatology(history, today, "high");
+    const low = computeClimatology(history, today, "low");
+    const normal = high && low
+      ? `${high.mean.toFixed(1)} (${high.percentiles[10]}-${high.percentiles[90]}) / ` +
+        `${low.mean.toFixed(1)} (${low.percentiles[10]}-${low.percentiles[90]}) °${city.unit}, ${high.years}y`
+      : "(not enough history)";
+
+    logger.info({ city: city.slug, station: city.iowaStation, fetched, stored: history.length }, "backfill: station done");
+    console.log(
+      `  ${city.slug.padEnd(14)} ${city.iowaStation.padEnd(8)} ${String(fetched).padStart(7)} ${String(history.length).padStart(7)} ` +
+      `${(history[0]?.date ?? "—").padEnd(10)}  ${normal}`,
+    );
+  }
+
+  console.log("");
+  process.exit(0);
+}
+
+main().catch((err) => {
+  logger.fatal({ err }, "backfill: fatal error");
+  process.exit(1);
+});
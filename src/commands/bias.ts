@@ -0,0 +1,109 @@
+// bias.ts — Fit and inspect MOS bias-correction coefficients.
+//
+// Pairs stored forecast snapshots with settled CLI highs/lows, fits one
+// correction per station/model/metric/lead/season and stores them in the
+// bias_coefficients table, where scan.ts and index.ts pick them up. Only
+// snapshots taken at the configured FORECAST_POINT are fitted; `points`
+// compares raw station-point and centroid errors over whatever is stored.
+//
+// Usage: bun run src/commands/bias.ts fit [--mode auto|additive|linear]
+//        bun run src/commands/bias.ts show [--station KORD] [--model gfs]
+//        bun run src/commands/bias.ts points [--station KORD]
+
+import { logger } from "../logger.js";
+import { loadConfig, ALL_CITIES, FORECAST_PROVIDERS } from "../config.js";
+import {
+  collectForecastPairs,
+  fitBiasCoefficients,
+  summarizePointErrors,
+  type BiasFitMode,
+  type PointErrorSummary,
+} from "../weather/bias.js";
+import { getBiasCoefficients, replaceBiasCoefficients } from "../store/db.js";
+import type { BiasCoefficient } from "../types.js";
+
+function printCoefficients(coefs: BiasCoefficient[]): void {
+  if (coefs.length === 0) {
+    console.log("  (no coefficients)");
+    return;
+  }
+  console.log(
+    `  ${"Station".padEnd(8)} ${"Model".padEnd(6)} ${"Metric".padEnd(6)} ${"Season".padEnd(6)} ${"Lead".padStart(4)} ` +
+    `${"Intercept".padStart(9)} ${"Slope".padStart(6)} ${"N".padStart(5)} ${"RMSE".padStart(6)} → ${"RMSE".padStart(6)}`,
+  );
+  for (const c of coefs) {
+    console.log(
+      `  ${c.station.padEnd(8)} ${c.model.padEnd(6)} ${c.metric.padEnd(6)} ${c.season.padEnd(6)} ${`${c.leadDays}d`.padStart(4)} ` +
+      `${c.intercept.toFixed(2).padStart(9)} ${c.slope.toFixed(3).padStart(6)} ${String(c.samples).padStart(5)} ` +
+      `${c.rmseBefore.toFixed(2).padStart(6)} → ${c.rmseAfter.toFixed(2).padStart(6)}`,
+    );
+  }
+}
+
+function printPointErrors(rows: PointErrorSummary[]): void {
+  if (rows.length === 0) {
+    console.log("  (no settled forecast pairs)");
+    return;
+  }
+  console.log(
+    `  ${"Model".padEnd(6)} ${"Metric".padEnd(6)} ${"Point".padEnd(8)} ${"N".padStart(5)} ${"Mean err".padStart(8)} ${"RMSE".padStart(6)}`,
+  );
+  for (const r of rows) {
+    console.log(
+      `  ${r.model.padEnd(6)} ${r.metric.padEnd(6)} ${r.point.padEnd(8)} ${String(r.samples).padStart(5)} ` +
+      `${r.meanError.toFixed(2).padStart(8)} ${r.rmse.toFixed(2).padStart(6)}`,
+    );
+  }
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  const command = args[0] ?? "show";
+  let mode: BiasFitMode = "auto";
+  let station: string | undefined;
+  let model: string | undefined;
+
+  for (let i = 1; i < args.length; i++) {
+    if (args[i] === "--mode" && args[i + 1]) mode = args[i + 1] as BiasFitMode;
+    if (args[i] === "--station" && args[i + 1]) station = args[i + 1].toUpperCase();
+    if (args[i] === "--model" && args[i + 1]) model = args[i + 1];
+  }
+
+  if (command === "fit") {
+    if (!["auto", "additive", "linear"].includes(mode)) {
+      throw new Error(`Unknown fit mode "${mode}" (auto, additive, linear)`);
+    }
+    // Corrections are applied to live forecasts, so fit only on the point they are fetched at
+    const point = loadConfig().forecastPoint;
+    const pairs = collectForecastPairs(ALL_CITIES, FORECAST_PROVIDERS.map((p) => p.name))
+      .filter((p) => p.point === point);
+    const coefs = fitBiasCoefficients(pairs, mode);
+    replaceBiasCoefficients(coefs);
+    logger.info({ pairs: pairs.length, coefficients: coefs.length, mode, point }, "bias: coefficients fitted");
+    console.log(`\nFitted ${coefs.length} coefficients from ${pairs.length} ${point} forecast/observation pairs (${mode})\n`);
+    printCoefficients(coefs);
+  } else if (command === "show") {
+    const coefs = getBiasCoefficients().filter(
+      (c) => (!station || c.station === station) && (!model || c.model === model),
+    );
+    console.log(`\nBias coefficients${station ? ` for ${station}` : ""}${model ? ` (${model})` : ""}\n`);
+    printCoefficients(coefs);
+  } else if (command === "points") {
+    const pairs = collectForecastPairs(ALL_CITIES, FORECAST_PROVIDERS.map((p) => p.name))
+      .filter((p) => !station || p.station === station);
+    console.log(`\nForecast error by request point${station ? ` for ${station}` : ""}\n`);
+    printPointErrors(summarizePointErrors(pairs));
+  } else {
+    throw new Error(`Unknown command "${command}" (fit, show, points)`);
+  }
+
+  console.log("");
+  process.exit(0);
+}
+
+try {
+  main();
+} catch (err) {
+  logger.fatal({ err }, "bias: fatal error");
+  process.exit(1);
+}
@@ -0,0 +1,116 @@
+// calibrate.ts — Fit and evaluate the probability calibration layer.
+//
+// Pairs stored signals with settled CLI values, fits isotonic or Platt maps
+// per confidence tier and lead-time bucket, and stores them in the
+// calibration_models table, where scan.ts and index.ts pick them up.
+//
+// Scores are reported on a chronological holdout (the newest 30% of signals
+// by default)
+// so the "after" numbers are not just in-sample fit. The stored models are
+// then refit on the full history.
+//
+// Usage: bun run src/commands/calibrate.ts [--method isotonic|platt] [--holdout 0.3]
+
+import { logger } from "../logger.js";
+import { ALL_CITIES } from "../config.js";
+import {
+  collectCalibrationSamples,
+  fitCalibrationModels,
+  buildCalibrator,
+  brierScore,
+  logLoss,
+  reliabilityBins,
+  type CalibrationSample,
+} from "../engine/calibration.js";
+import { replaceCalibrationModels } from "../store/db.js";
+
+const MIN_HOLDOUT_SAMPLES = 20;
+
+function printScores(label: string, predictions: number[], outcomes: number[]): void {
+  console.log(
+    `  ${label.padEnd(12)} Brier ${brierScore(predictions, outcomes).toFixed(4)}   ` +
+    `Log loss ${logLoss(predictions, outcomes).toFixed(4)}`,
+  );
+}
+
+function printReliability(raw: number[], calibrated: number[], outcomes: number[]): void {
+  const before = new Map(reliabilityBins(raw, outcomes).map((b) => [b.lower, b]));
+  const after = new Map(reliabilityBins(calibrated, outcomes).map((b) => [b.lower, b]));
+  const lowers = [...new Set([...before.keys(), ...after.keys()])].sort((a, b) => a - b);
+
+  const cell = (b: { count: number; meanPredicted: number; observedRate: number } | undefined) =>
+    b
+      ? `${String(b.count).padStart(4)} ${(b.meanPredicted * 100).toFixed(1).padStart(5)}% ${(b.observedRate * 100).toFixed(1).padStart(5)}%`
+      : `${"".padStart(4)} ${"-".padStart(6)} ${"-".padStart(6)}`;
+
+  console.log(`\n  ${"Bin".padEnd(9)} ${"Before: N  pred   obs".padEnd(22)} ${"After: N  pred   obs"}`);
+  for (const lower of lowers) {
+    const bin = `${(lower * 100).toFixed(0)}-${(lower * 100 + 10).toFixed(0)}%`;
+    console.log(`  ${bin.padEnd(9)} ${cell(before.get(lower)).padEnd(22)} ${cell(after.get(lower))}`);
+  }
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  let method = "isotonic";
+  let holdout = 0.3;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "--method" && args[i + 1]) method = args[i + 1];
+    if (args[i] === "--holdout" && args[i + 1]) holdout = Number(args[i + 1]);
+  }
+
+  if (method !== "isotonic" && method !== "platt") {
+    throw new Error(`Unknown calibration method "${method}" (isotonic, platt)`);
+  }
+  if (!(holdout >= 0 && holdout < 1)) {
+    throw new Error(`--holdout must be in [0, 1), got ${holdout}`);
+  }
+
+  const samples = collectCalibrationSamples(ALL_CITIES); // oldest first
+  console.log(`\nCalibration — ${samples.length} settled signals (${method})\n`);
+
+  const models = fitCalibrationModels(samples, method);
+  if (models.length === 0) {
+    console.log("  Not enough settled signals to fit — keeping raw probabilities\n");
+    process.exit(0);
+  }
+
+  // Evaluate on the newest signals with models fit on the older ones
+  const split = Math.floor(samples.length * (1 - holdout));
+  let train: CalibrationSample[] = samples.slice(0, split);
+  let test: CalibrationSample[] = samples.slice(split);
+  if (test.length < MIN_HOLDOUT_SAMPLES || fitCalibrationModels(train, method).length === 0) {
+    console.log("  Holdout too small — scores below are in-sample\n");
+    train = samples;
+    test = samples;
+  }
+
+  const evaluator = buildCalibrator(fitCalibrationModels(train, method));
+  const raw = test.map((s) => s.probability);
+  const calibrated = test.map((s) => evaluator.calibrate(s.probability, s.tier, s.leadHours));
+  const outcomes = test.map((s) => s.outcome);
+
+  console.log(`  Evaluated on ${test.length} signals`);
+  printScores("Before", raw, outcomes);
+  printScores("After", calibrated, outcomes);
+  printReliability(raw, calibrated, outcomes);
+
+  replaceCalibrationModels(models);
+  logger.info({ samples: samples.length, models: models.length, method }, "calibrate: models fitted");
+
+  console.log(`\n  Stored ${models.length} models:`);
+  for (const m of models) {
+    console.log(`    ${m.tier.padEnd(9)} ${m.leadBucket.padEnd(7)} ${String(m.samples).padStart(5)} samples`);
+  }
+
+  console.log("");
+  process.exit(0);
+}
+
+try {
+  main();
+} catch (err) {
+  logger.fatal({ err }, "calibrate: fatal error");
+  process.exit(1);
+}
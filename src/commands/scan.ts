@@ -1,20 +1,31 @@
 // scan.ts — One-shot scan cycle for OpenClaw cron.
 //
-// Fetches weather ensembles, scans Polymarket markets, generates signals,
-// executes trades (paper or live), then exits.
+// Fetches weather ensembles for every configured model, scans Polymarket markets, records event-level
+// arbitrage baskets, generates signals, executes trades (paper or live), then exits. Ensembles are only
+// refetched once Open-Meteo reports a new model run; that scan is a priority scan, trading the markets the
+// run moved most first.
 //
 // Usage: bun run src/commands/scan.ts
 // Cron:  openclaw cron add --skill weatherclaw --script scan --schedule "*/1 * * * *"
 
 import { logger } from "../logger.js";
-import { loadConfig, CITIES } from "../config.js";
-import { fetchAllEnsembles } from "../weather/ensemble.js";
-import { fetchAllEcmwfEnsembles } from "../weather/ecmwf.js";
+import { loadConfig, CITIES, getForecastProviders } from "../config.js";
+import { fetchProviderEnsembles } from "../weather/ensemble.js";
+import { correctProviderEnsembles, loadBiasTable } from "../weather/bias.js";
+import { fetchSameDayObservations } from "../weather/observations.js";
+import { fetchNWSForecasts } from "../weather/nws.js";
+import { loadClimatology } from "../weather/climatology.js";
 import { fetchWeatherMarkets } from "../market/discovery.js";
 import { parseAllMarkets } from "../market/parser.js";
-import { generateSignals } from "../engine/signals.js";
+import { groupEvents } from "../market/events.js";
+import { fetchOrderBook } from "../market/orderbook.js";
+import { compareEvents, generateSignals, prioritizeSignals, type SignalOptions } from "../engine/signals.js";
+import { loadRunHistories } from "../engine/momentum.js";
+import { loadCalibrator } from "../engine/calibration.js";
+import { loadModelWeights } from "../engine/weights.js";
+import { findArbBaskets } from "../engine/arbitrage.js";
 import { executeSignal } from "../market/execution.js";
-import { insertSignal, insertPosition, getOpenPositions } from "../store/db.js";
+import { insertSignal, insertPosition, getOpenPositions, getRunShiftsSince, upsertArbBasket, upsertEventComparisons } from "../store/db.js";
 import { checkRiskLimits, initRiskState } from "../engine/risk.js";
 
 async function main() {
@@ -23,15 +34,35 @@ async function main() {
 
   initRiskState();
 
-  // 1. Fetch weather data
-  const gfsEnsembles = await fetchAllEnsembles(CITIES);
-  const ecmwfEnsembles = await fetchAllEcmwfEnsembles(CITIES);
+  // 1. Fetch weather data (every configured ensemble model)
+  const fetchStart = Date.now();
+  const providers = getForecastProviders(config);
+  const ensembles = correctProviderEnsembles(
+    await fetchProviderEnsembles(providers, CITIES, config.forecastPoint),
+    CITIES,
+    loadBiasTable(),
+  );
+  const shifts = getRunShiftsSince(fetchStart);
+  if (shifts.length > 0) {
+    const models = [...new Set(shifts.map((s) => s.provider))];
+    logger.info({ models, shifts: shifts.length }, "scan: new model run — priority scan");
+  }
 
   // 2. Scan markets
-  const rawMarkets = await fetchWeatherMarkets();
+  const rawMarkets = await fetchWeatherMarkets(config.maxLeadDays, config.marketDiscovery);
   const parsedMarkets = parseAllMarkets(rawMarkets);
   logger.info({ markets: parsedMarkets.length }, "scan: markets parsed");
 
+  // Brackets regrouped into their events; a bracket set priced under its
+  // payout is recorded as an arbitrage basket
+  const events = groupEvents(parsedMarkets);
+  const baskets = findArbBaskets(events, config);
+  for (const basket of baskets) upsertArbBasket(basket);
+  logger.info(
+    { events: events.length, unpartitioned: events.filter((e) => e.partitionIssues.length > 0).length, baskets: baskets.length },
+    "scan: events checked",
+  );
+
   // 3. Risk check
   const openPositions = getOpenPositions();
   const risk = checkRiskLimits(config, openPositions);
@@ -46,13 +77,32 @@ async function main() {
     process.exit(0);
   }
 
-  // 4. Generate signals
-  const signals = generateSignals(
-    parsedMarkets,
-    gfsEnsembles,
-    config,
-    openPositions,
-    ecmwfEnsembles,
+  // 4. Generate signals (same-day markets conditioned on observations so far,
+  // US markets checked against the NWS point forecast)
+  const observations = await fetchSameDayObservations(parsedMarkets, CITIES);
+  const nws = await fetchNWSForecasts(parsedMarkets, CITIES);
+  const options: SignalOptions = {
+    calibrator: loadCalibrator(),
+    weights: loadModelWeights(),
+    observations,
+    nws,
+    climatology: loadClimatology(CITIES),
+    runHistories: loadRunHistories(providers, CITIES, config.forecastPoint),
+    fetchBook: fetchOrderBook,
+  };
+
+  // Each event's market-implied distribution against the consensus; signals
+  // prefer brackets that trade with the disagreement
+  const comparisons = compareEvents(events, ensembles, config, options);
+  upsertEventComparisons([...comparisons.values()]);
+  logger.info(
+    { events: comparisons.size, structural: [...comparisons.values()].filter((c) => c.structure !== "aligned").length },
+    "scan: market vs model compared",
+  );
+
+  const signals = prioritizeSignals(
+    await generateSignals(parsedMarkets, ensembles, config, openPositions, { ...options, comparisons }),
+    shifts,
   );
 
   logger.info({ signals: signals.length }, "scan: signals generated");
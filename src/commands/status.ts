@@ -1,16 +1,19 @@
 /**
  * status.ts — One-shot status report for OpenClaw cron or manual checks.
  *
- * Prints current positions, P&L stats, and risk state to stdout, then exits.
+ * Prints current positions, P&L stats, risk state, forecast health and the
+ * events whose market distribution disagrees with the models to stdout, then
+ * exits.
  *
  * Usage: bun run src/commands/status.ts
  * Cron:  openclaw cron add --skill weatherclaw --script status --schedule "0 8 * * *"
  */
 
-import { loadConfig } from "../config.js";
-import { getOpenPositions, getStats } from "../store/db.js";
+import { loadConfig, getCity, getForecastProviders, CITIES } from "../config.js";
+import { getEventComparisons, getOpenPositions, getStats } from "../store/db.js";
 import { checkRiskLimits, initRiskState } from "../engine/risk.js";
 import { getPnLSummary } from "../settlement/pnl.js";
+import { forecastHealth, summarizeHealth } from "../weather/health.js";
 
 function main() {
   const config = loadConfig();
@@ -20,6 +23,7 @@ function main() {
   const stats = getStats();
   const pnl = getPnLSummary();
   const risk = checkRiskLimits(config, openPositions);
+  const health = forecastHealth(getForecastProviders(config), CITIES, config.forecastPoint);
 
   const report = {
     mode: config.mode,
@@ -39,12 +43,39 @@ function main() {
       date: p.date,
       side: p.side,
       bracket: p.bracketType === "between"
-        ? `${p.bracketMin}-${p.bracketMax - 1}°F`
-        : `${p.bracketType} ${p.bracketType === "above" ? p.bracketMin : p.bracketMax}°F`,
+        ? `${p.bracketMin}-${p.bracketMax - 1}°${getCity(p.city)?.unit ?? "F"}`
+        : `${p.bracketType} ${p.bracketType === "above" ? p.bracketMin : p.bracketMax}°${getCity(p.city)?.unit ?? "F"}`,
       entryPrice: `${(p.entryPrice * 100).toFixed(1)}¢`,
       size: `$${p.size.toFixed(2)}`,
       edge: `${(p.edge * 100).toFixed(1)}%`,
     })),
+    forecastHealth: summarizeHealth(health).map((s) => ({
+      model: s.provider,
+      ...s.counts,
+      oldestRun: s.oldestRun !== null ? new Date(s.oldestRun).toISOString().slice(0, 13) + "z" : null,
+      failing: s.lastError ? `${s.lastError.city} since ${new Date(s.lastError.at).toISOString()}: ${s.lastError.message}` : null,
+    })),
+    degradedForecasts: health
+      .filter((h) => h.status !== "fresh")
+      .map((h) => ({
+        model: h.provider,
+        city: h.city,
+        status: h.status,
+        run: h.modelRun !== null ? new Date(h.modelRun).toISOString().slice(0, 13) + "z" : null,
+        staleHours: h.staleHours,
+        lastError: h.lastError,
+      })),
+    marketVsModel: getEventComparisons(new Date().toISOString().slice(0, 10))
+      .filter((c) => c.structure !== "aligned")
+      .map((c) => ({
+        city: c.city,
+        date: c.date,
+        metric: c.metric,
+        structure: c.structure,
+        market: `${c.market.mean.toFixed(1)}±${c.market.sd.toFixed(1)}°${c.unit}`,
+        model: `${c.model.mean.toFixed(1)}±${c.model.sd.toFixed(1)}°${c.unit}`,
+        kl: Number(c.klDivergence.toFixed(3)),
+      })),
   };
 
   // Output as JSON for machine consumption (OpenClaw, dashboards, etc.)
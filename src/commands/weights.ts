@@ -0,0 +1,91 @@
+// weights.ts — Fit and report learned per-city consensus weights.
+//
+// Pairs stored forecast snapshots (bias-corrected, at the configured
+// FORECAST_POINT) with settled CLI highs/lows and picks, per city and lead
+// time, the model weights whose blended members score the lowest CRPS.
+// Weights land in the model_weights table, where scan.ts and index.ts pick
+// them up; cities and leads with too little history keep the defaults.
+// `show` reports which model verifies best where and what the learned blend
+// gains over the defaults.
+//
+// Usage: bun run src/commands/weights.ts fit
+//        bun run src/commands/weights.ts show [--city nyc]
+
+import { logger } from "../logger.js";
+import { loadConfig, ALL_CITIES, getForecastProviders } from "../config.js";
+import { loadBiasTable } from "../weather/bias.js";
+import { collectWeightSamples, fitModelWeights, POOLED_LEAD } from "../engine/weights.js";
+import { getModelWeights, replaceModelWeights } from "../store/db.js";
+import type { ModelWeight } from "../types.js";
+
+function printWeights(rows: ModelWeight[]): void {
+  if (rows.length === 0) {
+    console.log("  (no learned weights — consensus uses provider defaults)");
+    return;
+  }
+
+  const groups = new Map<string, ModelWeight[]>();
+  for (const r of rows) {
+    const key = `${r.city}|${r.leadDays}`;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(r);
+  }
+
+  const models = [...new Set(rows.map((r) => r.model))];
+  console.log(
+    `  ${"City".padEnd(14)} ${"Lead".padStart(4)} ${models.map((m) => m.padStart(6)).join(" ")} ` +
+    `${"Best".padEnd(6)} ${"CRPS".padStart(6)} ${"Default".padStart(7)} → ${"Learned".padStart(7)} ${"N".padStart(5)}`,
+  );
+  for (const group of groups.values()) {
+    const { city, leadDays, defaultCrps, mixtureCrps, samples } = group[0];
+    const best = group.reduce((a, b) => (b.crps < a.crps ? b : a));
+    const weight = (m: string) => group.find((r) => r.model === m)?.weight.toFixed(2) ?? "—";
+    console.log(
+      `  ${city.padEnd(14)} ${(leadDays === POOLED_LEAD ? "all" : `${leadDays}d`).padStart(4)} ` +
+      `${models.map((m) => weight(m).padStart(6)).join(" ")} ${best.model.padEnd(6)} ${best.crps.toFixed(2).padStart(6)} ` +
+      `${defaultCrps.toFixed(3).padStart(7)} → ${mixtureCrps.toFixed(3).padStart(7)} ${String(samples).padStart(5)}`,
+    );
+  }
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  const command = args[0] ?? "show";
+  let city: string | undefined;
+
+  for (let i = 1; i < args.length; i++) {
+    if (args[i] === "--city" && args[i + 1]) city = args[i + 1];
+  }
+
+  if (command === "fit") {
+    const config = loadConfig();
+    const providers = getForecastProviders(config);
+    const samples = collectWeightSamples(
+      ALL_CITIES,
+      providers.map((p) => p.name),
+      config.forecastPoint,
+      loadBiasTable(),
+    );
+    const weights = fitModelWeights(samples, providers);
+    replaceModelWeights(weights);
+    logger.info({ samples: samples.length, rows: weights.length, point: config.forecastPoint }, "weights: fitted");
+    console.log(`\nFitted weights from ${samples.length} settled forecasts (${providers.map((p) => p.name).join(", ")})\n`);
+    printWeights(weights);
+  } else if (command === "show") {
+    const rows = getModelWeights().filter((r) => !city || r.city === city);
+    console.log(`\nLearned consensus weights${city ? ` for ${city}` : ""} (CRPS, lower is better)\n`);
+    printWeights(rows);
+  } else {
+    throw new Error(`Unknown command "${command}" (fit, show)`);
+  }
+
+  console.log("");
+  process.exit(0);
+}
+
+try {
+  main();
+} catch (err) {
+  logger.fatal({ err }, "weights: fatal error");
+  process.exit(1);
+}
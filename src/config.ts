@@ -1,4 +1,16 @@
-import type { AppConfig, CityConfig } from "./types.js";
+import { resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import { loadCityRegistry, selectEnabledCities, buildAliasMap } from "./cities.js";
+import type {
+  AppConfig,
+  CityConfig,
+  ForecastPointKind,
+  ForecastProvider,
+  LeadSchedule,
+  MomentumFilter,
+  MarketDiscovery,
+  ProbabilityMode,
+} from "./types.js";
 
 export function loadConfig(): AppConfig {
   return {
@@ -8,6 +20,21 @@ export function loadConfig(): AppConfig {
     minEdgePct: Number(process.env["MIN_EDGE_PCT"] ?? "8"),
     kellyFraction: Number(process.env["KELLY_FRACTION"] ?? "0.25"),
     maxOpenPositions: Number(process.env["MAX_OPEN_POSITIONS"] ?? "10"),
+    maxLeadDays: Number(process.env["MAX_LEAD_DAYS"] ?? "10"),
+    minEdgePctByLead: parseLeadSchedule("MIN_EDGE_PCT_BY_LEAD"),
+    kellyFractionByLead: parseLeadSchedule("KELLY_FRACTION_BY_LEAD"),
+    maxPositionPctByLead: parseLeadSchedule("MAX_POSITION_PCT_BY_LEAD"),
+    forecastModels: (process.env["FORECAST_MODELS"] ?? "gfs,ecmwf")
+      .split(",")
+      .map((s) => s.trim().toLowerCase())
+      .filter((s) => s.length > 0),
+    probabilityMode: process.env["PROBABILITY_MODE"] as ProbabilityMode | undefined,
+    forecastPoint: (process.env["FORECAST_POINT"] || "station") as ForecastPointKind,
+    momentumFilter: (process.env["MOMENTUM_FILTER"] || undefined) as MomentumFilter | undefined,
+    marketDiscovery: (process.env["MARKET_DISCOVERY"] || undefined) as MarketDiscovery | undefined,
+    climatologyPrior: process.env["CLIMATOLOGY_PRIOR"] !== "off",
+    marketStream: process.env["MARKET_STREAM"] !== "off",
+    marketStreamRecord: process.env["MARKET_STREAM_RECORD"] || undefined,
     polygonPrivateKey: process.env["POLYGON_PRIVATE_KEY"],
     polymarketApiKey: process.env["POLYMARKET_API_KEY"],
     polymarketApiSecret: process.env["POLYMARKET_API_SECRET"],
@@ -15,90 +42,130 @@ export function loadConfig(): AppConfig {
   };
 }
 
-// NWS grid coordinates + Iowa State CLI station IDs for each city
-// polymarketSlug must match what Polymarket uses in their event URLs
-export const CITIES: CityConfig[] = [
-  {
-    name: "New York City",
-    slug: "nyc",
-    polymarketSlug: "nyc",
-    lat: 40.7128,
-    lon: -74.006,
-    nwsGridId: "OKX",
-    nwsGridX: 33,
-    nwsGridY: 37,
-    iowaStation: "KNYC",
-  },
-  {
-    name: "Chicago",
-    slug: "chicago",
-    polymarketSlug: "chicago",
-    lat: 41.8781,
-    lon: -87.6298,
-    nwsGridId: "LOT",
-    nwsGridX: 76,
-    nwsGridY: 73,
-    iowaStation: "KORD",
-  },
+/**
+ * Parse a per-lead override like "24:5,72:8,168:12" (lead-time hours below
+ * which the value applies), sorted by hours. Unset = empty schedule.
+ */
+export function parseLeadSchedule(name: string, raw = process.env[name]): LeadSchedule {
+  if (!raw) return [];
+  return raw
+    .split(",")
+    .map((entry) => {
+      const [hours, value] = entry.split(":").map((s) => Number(s.trim()));
+      if (!Number.isFinite(hours) || hours <= 0 || !Number.isFinite(value)) {
+        throw new Error(`${name}: expected "hours:value" entries, got "${entry}"`);
+      }
+      return { maxHours: hours, value };
+    })
+    .sort((a, b) => a.maxHours - b.maxHours);
+}
+
+// Ensemble models available from Open-Meteo's ensemble API.
+// Adding a model is a new entry here; enable it with FORECAST_MODELS.
+// probabilityMode "kde" smooths members into a density; "count" is raw
+// member share, kept for comparison (see the "count" field in SIGNAL logs).
+export const FORECAST_PROVIDERS: ForecastProvider[] = [
   {
-    name: "Miami",
-    slug: "miami",
-    polymarketSlug: "miami",
-    lat: 25.7617,
-    lon: -80.1918,
-    nwsGridId: "MFL",
-    nwsGridX: 76,
-    nwsGridY: 50,
-    iowaStation: "KMIA",
+    name: "gfs",
+    label: "GFS",
+    model: "gfs_seamless",
+    members: 31,
+    runIntervalMs: 6 * 60 * 60 * 1000, // 4 runs/day
+    runDelayMs: 5 * 60 * 60 * 1000,
+    metaModel: "ncep_gefs025",
+    forecastDays: 16,
+    weight: 1.0,
+    probabilityMode: "kde",
+    bandwidthScale: 1.0,
   },
   {
-    name: "Atlanta",
-    slug: "atlanta",
-    polymarketSlug: "atlanta",
-    lat: 33.749,
-    lon: -84.388,
-    nwsGridId: "FFC",
-    nwsGridX: 52,
-    nwsGridY: 88,
-    iowaStation: "KATL",
+    name: "ecmwf",
+    label: "ECMWF",
+    model: "ecmwf_ifs025",
+    members: 51, // 1 control + 50 perturbed
+    runIntervalMs: 12 * 60 * 60 * 1000, // 2 runs/day
+    runDelayMs: 8 * 60 * 60 * 1000,
+    metaModel: "ecmwf_ifs025_ensemble",
+    forecastDays: 15,
+    weight: 1.2, // slightly more accurate
+    probabilityMode: "kde",
+    bandwidthScale: 1.0,
   },
   {
-    name: "Seattle",
-    slug: "seattle",
-    polymarketSlug: "seattle",
-    lat: 47.6062,
-    lon: -122.3321,
-    nwsGridId: "SEW",
-    nwsGridX: 124,
-    nwsGridY: 67,
-    iowaStation: "KSEA",
+    name: "icon",
+    label: "ICON-EPS",
+    model: "icon_seamless",
+    members: 40,
+    runIntervalMs: 6 * 60 * 60 * 1000,
+    runDelayMs: 5 * 60 * 60 * 1000,
+    metaModel: "dwd_icon_eps",
+    forecastDays: 7, // ICON-EPS runs to 180h
+    weight: 1.0,
+    probabilityMode: "kde",
+    bandwidthScale: 1.0,
   },
   {
-    name: "Dallas",
-    slug: "dallas",
-    polymarketSlug: "dallas",
-    lat: 32.7767,
-    lon: -96.797,
-    nwsGridId: "FWD",
-    nwsGridX: 80,
-    nwsGridY: 103,
-    iowaStation: "KDFW",
+    name: "gem",
+    label: "GEM",
+    model: "gem_global",
+    members: 21,
+    runIntervalMs: 12 * 60 * 60 * 1000,
+    runDelayMs: 7 * 60 * 60 * 1000,
+    metaModel: "cmc_gem_geps",
+    forecastDays: 16,
+    weight: 0.8,
+    probabilityMode: "kde",
+    bandwidthScale: 1.0,
   },
 ];
 
-// Aliases for matching market titles back to city slugs
-export const CITY_ALIASES: Record<string, string> = {
-  "new york": "nyc",
-  "new york city": "nyc",
-  nyc: "nyc",
-  manhattan: "nyc",
-  "central park": "nyc",
-  chicago: "chicago",
-  "o'hare": "chicago",
-  miami: "miami",
-  atlanta: "atlanta",
-  seattle: "seattle",
-  dallas: "dallas",
-  dfw: "dallas",
-  "fort worth": "dallas",
-};
+export function getProvider(name: string): ForecastProvider | undefined {
+  return FORECAST_PROVIDERS.find((p) => p.name === name);
+}
+
+/**
+ * Resolve the configured model names to providers, in config order.
+ * Unknown names are a config error, not something to skip silently.
+ * PROBABILITY_MODE, when set, forces one mode for every provider.
+ */
+export function getForecastProviders(config: AppConfig): ForecastProvider[] {
+  return config.forecastModels.map((name) => {
+    const provider = getProvider(name);
+    if (!provider) {
+      const known = FORECAST_PROVIDERS.map((p) => p.name).join(", ");
+      throw new Error(`Unknown forecast model "${name}" (known: ${known})`);
+    }
+    if (config.probabilityMode) {
+      if (config.probabilityMode !== "count" && config.probabilityMode !== "kde") {
+        throw new Error(`Unknown probability mode "${config.probabilityMode}" (count, kde)`);
+      }
+      return { ...provider, probabilityMode: config.probabilityMode };
+    }
+    return provider;
+  });
+}
+
+// City registry. Edit cities.json (or point CITIES_FILE at another file)
+// to add or drop cities; `bun run add-city` fills in NWS grid and station
+// details. See src/cities.ts for the schema.
+export const CITIES_FILE = process.env["CITIES_FILE"]
+  ? resolve(process.env["CITIES_FILE"])
+  : fileURLToPath(new URL("../cities.json", import.meta.url));
+
+const registry = loadCityRegistry(CITIES_FILE);
+const enabledSlugs = new Set(
+  selectEnabledCities(registry, process.env["ENABLED_CITIES"], process.env["DISABLED_CITIES"]).map((c) => c.slug),
+);
+
+// Every registered city, enabled or not — settlement and history lookups
+export const ALL_CITIES: CityConfig[] = registry.map(({ enabled, ...city }) => city);
+
+// Cities scanned and traded in this environment
+export const CITIES: CityConfig[] = ALL_CITIES.filter((c) => enabledSlugs.has(c.slug));
+
+export function getCity(slug: string): CityConfig | undefined {
+  return ALL_CITIES.find((c) => c.slug === slug);
+}
+
+// Aliases for matching market titles back to (enabled) city slugs
+export const CITY_ALIASES: Record<string, string> = buildAliasMap(CITIES);
@@ -0,0 +1,135 @@
+import { logger } from "../logger.js";
+import type { AppConfig, ArbBasket, ParsedMarket, WeatherEvent } from "../types.js";
+
+// Event-level arbitrage.
+//
+// Exactly one bracket of a neg-risk event resolves YES, so one YES share of
+// every bracket pays 1 and one NO share of every bracket pays brackets - 1,
+// whatever the temperature. When the asks for either set add up to less,
+// buying the whole set locks in the difference — no forecast involved.
+// Each market has one order book, so NO quotes are the complements of the
+// YES ones: NO ask = 1 - YES bid, NO bid = 1 - YES ask.
+
+const MIN_BASKET_PROFIT = 0.01; // per set, for slippage on the thinner legs
+const NO_BID_TOLERANCE = 0.1; // |Σ NO bids - (brackets - 1)| beyond this is flagged
+
+export interface EventPricing {
+  eventId: string;
+  brackets: number;
+  quoted: boolean; // every bracket had a best bid and ask (else the mid stands in)
+  yesAskSum: number;
+  yesBidSum: number;
+  noAskSum: number;
+  noBidSum: number;
+  flags: Array<"yes-asks-under-1" | "no-asks-under-payout" | "no-bids-off">;
+}
+
+function quotes(m: ParsedMarket): { yesBid: number; yesAsk: number } {
+  return { yesBid: m.yesBid ?? m.yesPrice, yesAsk: m.yesAsk ?? m.yesPrice };
+}
+
+const round4 = (x: number) => Math.round(x * 10000) / 10000;
+
+/**
+ * Sums of the event's YES and NO quotes against what the sets pay, with
+ * flags: YES asks under 1 (YES set is cheap), NO asks under brackets - 1
+ * (NO set is cheap), NO bids away from brackets - 1 (the book is out of
+ * line with the partition).
+ */
+export function priceEvent(event: WeatherEvent): EventPricing {
+  const n = event.brackets.length;
+  let yesAskSum = 0;
+  let yesBidSum = 0;
+  for (const m of event.brackets) {
+    const q = quotes(m);
+    yesAskSum += q.yesAsk;
+    yesBidSum += q.yesBid;
+  }
+  const noAskSum = n - yesBidSum;
+  const noBidSum = n - yesAskSum;
+
+  const flags: EventPricing["flags"] = [];
+  if (round4(yesAskSum) < 1) flags.push("yes-asks-under-1");
+  if (round4(noAskSum) < n - 1) flags.push("no-asks-under-payout");
+  if (Math.abs(round4(noBidSum) - (n - 1)) > NO_BID_TOLERANCE) flags.push("no-bids-off");
+
+  return {
+    eventId: event.id,
+    brackets: n,
+    quoted: event.brackets.every((m) => m.yesBid !== undefined && m.yesAsk !== undefined),
+    yesAskSum: round4(yesAskSum),
+    yesBidSum: round4(yesBidSum),
+    noAskSum: round4(noAskSum),
+    noBidSum: round4(noBidSum),
+    flags,
+  };
+}
+
+/**
+ * Baskets worth buying across the events: neg-risk events whose brackets
+ * partition the line, quoted on every bracket, where a YES or NO set costs
+ * at least MIN_BASKET_PROFIT less than it pays. Sized in whole sets up to
+ * maxPositionPct of bankroll.
+ */
+export function findArbBaskets(events: WeatherEvent[], config: AppConfig, now = Date.now()): ArbBasket[] {
+  const baskets: ArbBasket[] = [];
+  const budget = config.bankrollUsdc * config.maxPositionPct;
+
+  for (const event of events) {
+    const pricing = priceEvent(event);
+    if (pricing.flags.length > 0) {
+      logger.debug({ event: event.id, city: event.city, date: event.date, ...pricing }, "Event pricing flagged");
+    }
+    if (!event.negRisk || event.partitionIssues.length > 0 || !pricing.quoted) continue;
+
+    const n = event.brackets.length;
+    for (const side of ["YES", "NO"] as const) {
+      const cost = side === "YES" ? pricing.yesAskSum : pricing.noAskSum;
+      const payout = side === "YES" ? 1 : n - 1;
+      const profit = round4(payout - cost);
+      if (profit < MIN_BASKET_PROFIT) continue;
+
+      const sets = Math.floor(budget / cost);
+      if (sets < 1) continue;
+
+      const basket: ArbBasket = {
+        id: `${event.id}-${side}`,
+        eventId: event.id,
+        city: event.city,
+        date: event.date,
+        metric: event.metric,
+        side,
+        legs: event.brackets.map((m) => {
+          const q = quotes(m);
+          return side === "YES"
+            ? { conditionId: m.conditionId, tokenId: m.yesTokenId, price: q.yesAsk }
+            : { conditionId: m.conditionId, tokenId: m.noTokenId, price: round4(1 - q.yesBid) };
+        }),
+        cost,
+        payout,
+        profit,
+        sets,
+        size: Math.floor(sets * cost * 100) / 100,
+        createdAt: now,
+      };
+      baskets.push(basket);
+
+      logger.info(
+        {
+          city: event.city,
+          date: event.date,
+          metric: event.metric,
+          side,
+          legs: n,
+          cost: cost.toFixed(4),
+          payout,
+          profit: `${(profit * 100).toFixed(1)}¢/set`,
+          sets,
+          size: `$${basket.size.toFixed(2)}`,
+        },
+        "ARB BASKET",
+      );
+    }
+  }
+  return baskets;
+}
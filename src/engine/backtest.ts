@@ -4,13 +4,15 @@
 // fetches actual settlement data from Iowa State CLI,
 // and simulates what the bot would have traded.
 //
-// Usage: bun run src/engine/backtest.ts [--days 30] [--city nyc]
+// Usage: bun run src/engine/backtest.ts [--days 30] [--city nyc] [--model gfs] [--metric high|low]
 
 import { logger } from "../logger.js";
 import { fetchWithRetry } from "../utils/retry.js";
-import { loadConfig, CITIES } from "../config.js";
+import { loadConfig, CITIES, getCity, getProvider } from "../config.js";
 import { calcBucketProbability, calcAboveProbability, calcBelowProbability } from "../weather/probability.js";
-import type { CityConfig, DailyForecast, AppConfig } from "../types.js";
+import { aggregateDaily, forecastPoint, lapseRateAdjustment } from "../weather/ensemble.js";
+import { dayBasis } from "../weather/climate-day.js";
+import type { CityConfig, DailyForecast, ForecastPointKind, ForecastProvider } from "../types.js";
 
 interface BacktestTrade {
   city: string;
@@ -39,24 +41,33 @@ interface BacktestResult {
   byCity: Record<string, { trades: number; wins: number; pnl: number; winRate: number }>;
 }
 
-function celsiusToFahrenheit(c: number): number {
-  return c * 9 / 5 + 32;
+function shiftDate(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
 }
 
 // Fetch historical ensemble data from Open-Meteo
 async function fetchHistoricalEnsemble(
+  provider: ForecastProvider,
   city: CityConfig,
   startDate: string,
   endDate: string,
+  pointKind: ForecastPointKind,
 ): Promise<DailyForecast[]> {
+  const target = forecastPoint(city, pointKind);
   const url = new URL("https://ensemble-api.open-meteo.com/v1/ensemble");
-  url.searchParams.set("latitude", String(city.lat));
-  url.searchParams.set("longitude", String(city.lon));
+  url.searchParams.set("latitude", String(target.lat));
+  url.searchParams.set("longitude", String(target.lon));
+  url.searchParams.set("elevation", "nan");
   url.searchParams.set("hourly", "temperature_2m");
-  url.searchParams.set("models", "gfs_seamless");
-  url.searchParams.set("start_date", startDate);
-  url.searchParams.set("end_date", endDate);
+  url.searchParams.set("models", provider.model);
+  // Climate days are in local standard time, so pad the GMT range a day
+  // either side to cover the first and last windows completely
+  url.searchParams.set("start_date", shiftDate(startDate, -1));
+  url.searchParams.set("end_date", shiftDate(endDate, 1));
   url.searchParams.set("temperature_unit", "celsius");
+  url.searchParams.set("timezone", "GMT");
 
   const res = await fetchWithRetry(url.toString());
   if (!res.ok) {
@@ -75,38 +86,18 @@ async function fetchHistoricalEnsemble(
     }
   }
 
-  const byDate = new Map<string, number[][]>();
-  for (let i = 0; i < hourly.time.length; i++) {
-    const date = hourly.time[i].slice(0, 10);
-    if (!byDate.has(date)) {
-      byDate.set(date, memberKeys.map(() => []));
-    }
-    const members = byDate.get(date)!;
-    for (let m = 0; m < memberKeys.length; m++) {
-      const val = hourly[memberKeys[m]][i];
-      if (val != null) members[m].push(celsiusToFahrenheit(val));
-    }
-  }
-
-  const daily: DailyForecast[] = [];
-  for (const [date, members] of byDate) {
-    const highs: number[] = [];
-    const lows: number[] = [];
-    for (const temps of members) {
-      if (temps.length === 0) continue;
-      highs.push(Math.round(Math.max(...temps)));
-      lows.push(Math.round(Math.min(...temps)));
-    }
-    if (highs.length > 0) daily.push({ date, highs, lows });
-  }
-
-  return daily;
+  // Same elevation handling as live fetches, so backtests score what we trade
+  const shift = lapseRateAdjustment(typeof data.elevation === "number" ? data.elevation : null, target.targetElevationM);
+  const series = memberKeys.map((k) => (hourly[k] as Array<number | null>).map((v) => (v == null ? v : v + shift)));
+  const daily = aggregateDaily(hourly.time, series, city.timezone, city.unit, dayBasis(city));
+  return daily.filter((d) => d.date >= startDate && d.date <= endDate);
 }
 
-// Fetch actual temperatures from Iowa State CLI
+// Fetch actual temperatures (CLI daily max or min) from Iowa State CLI
 async function fetchActualTemps(
   station: string,
   year: number,
+  metric: "high" | "low",
 ): Promise<Map<string, number>> {
   const url = `https://mesonet.agron.iastate.edu/json/cli.py?station=${station}&year=${year}`;
   const res = await fetchWithRetry(url, {}, 2, 2000);
@@ -116,7 +107,7 @@ async function fetchActualTemps(
   const temps = new Map<string, number>();
   if (data.results) {
     for (const r of data.results) {
-      temps.set(r.valid, r.high);
+      temps.set(r.valid, metric === "high" ? r.high : r.low);
     }
   }
   return temps;
@@ -174,11 +165,16 @@ function generateBrackets(baseTemp: number): Array<{
   return brackets;
 }
 
-async function runBacktest(days: number, filterCity?: string): Promise<BacktestResult> {
+async function runBacktest(
+  days: number,
+  provider: ForecastProvider,
+  metric: "high" | "low",
+  filterCity?: string,
+): Promise<BacktestResult> {
   const config = loadConfig();
-  const cities = filterCity
-    ? CITIES.filter((c) => c.slug === filterCity)
-    : CITIES;
+  // Actuals come from the CLI archive, which only covers NWS stations
+  const cities = (filterCity ? CITIES.filter((c) => c.slug === filterCity) : CITIES)
+    .filter((c) => c.settlementSource === "nws-cli");
 
   const endDate = new Date();
   endDate.setDate(endDate.getDate() - 1); // yesterday
@@ -188,7 +184,10 @@ async function runBacktest(days: number, filterCity?: string): Promise<BacktestR
   const startStr = startDate.toISOString().slice(0, 10);
   const endStr = endDate.toISOString().slice(0, 10);
 
-  logger.info({ startDate: startStr, endDate: endStr, cities: cities.length }, "Backtest starting");
+  logger.info(
+    { startDate: startStr, endDate: endStr, cities: cities.length, model: provider.name, metric },
+    "Backtest starting",
+  );
 
   const trades: BacktestTrade[] = [];
 
@@ -196,22 +195,22 @@ async function runBacktest(days: number, filterCity?: string): Promise<BacktestR
     logger.info({ city: city.name }, "Fetching historical data");
 
     // Fetch ensemble and actuals
-    const dailyForecasts = await fetchHistoricalEnsemble(city, startStr, endStr);
-    const actuals = await fetchActualTemps(city.iowaStation, startDate.getFullYear());
+    const dailyForecasts = await fetchHistoricalEnsemble(provider, city, startStr, endStr, config.forecastPoint);
+    const actuals = await fetchActualTemps(city.iowaStation, startDate.getFullYear(), metric);
 
     // Also fetch current year if date range spans years
     if (endDate.getFullYear() !== startDate.getFullYear()) {
-      const moreActuals = await fetchActualTemps(city.iowaStation, endDate.getFullYear());
+      const moreActuals = await fetchActualTemps(city.iowaStation, endDate.getFullYear(), metric);
       for (const [k, v] of moreActuals) actuals.set(k, v);
     }
 
     for (const forecast of dailyForecasts) {
-      const actualHigh = actuals.get(forecast.date);
-      if (actualHigh === undefined) continue; // no settlement data
+      const actualTemp = actuals.get(forecast.date);
+      if (actualTemp === undefined) continue; // no settlement data
 
       // Get the median forecast to generate realistic brackets
-      const sortedHighs = [...forecast.highs].sort((a, b) => a - b);
-      const median = sortedHighs[Math.floor(sortedHighs.length / 2)];
+      const sorted = [...(metric === "high" ? forecast.highs : forecast.lows)].sort((a, b) => a - b);
+      const median = Math.round(sorted[Math.floor(sorted.length / 2)]);
 
       const brackets = generateBrackets(median);
 
@@ -219,11 +218,11 @@ async function runBacktest(days: number, filterCity?: string): Promise<BacktestR
         // Calculate model probability
         let modelProb: number;
         if (bracket.bracketType === "between") {
-          modelProb = calcBucketProbability(forecast, "high", bracket.bracketMin, bracket.bracketMax).probability;
+          modelProb = calcBucketProbability(forecast, metric, bracket.bracketMin, bracket.bracketMax).probability;
         } else if (bracket.bracketType === "above") {
-          modelProb = calcAboveProbability(forecast, "high", bracket.bracketMin);
+          modelProb = calcAboveProbability(forecast, metric, bracket.bracketMin);
         } else {
-          modelProb = calcBelowProbability(forecast, "high", bracket.bracketMax);
+          modelProb = calcBelowProbability(forecast, metric, bracket.bracketMax);
         }
 
         const syntheticPrice = bracket.syntheticPrice;
@@ -251,11 +250,11 @@ async function runBacktest(days: number, filterCity?: string): Promise<BacktestR
         // Determine outcome
         let inBracket: boolean;
         if (bracket.bracketType === "between") {
-          inBracket = actualHigh >= bracket.bracketMin && actualHigh < bracket.bracketMax;
+          inBracket = actualTemp >= bracket.bracketMin && actualTemp < bracket.bracketMax;
         } else if (bracket.bracketType === "above") {
-          inBracket = actualHigh >= bracket.bracketMin;
+          inBracket = actualTemp >= bracket.bracketMin;
         } else {
-          inBracket = actualHigh < bracket.bracketMax;
+          inBracket = actualTemp < bracket.bracketMax;
         }
 
         const won = side === "YES" ? inBracket : !inBracket;
@@ -272,7 +271,7 @@ async function runBacktest(days: number, filterCity?: string): Promise<BacktestR
           modelProb,
           entryPrice,
           edge,
-          actualTemp: actualHigh,
+          actualTemp,
           won,
           pnl,
         });
@@ -330,15 +329,29 @@ async function main() {
   const args = process.argv.slice(2);
   let days = 14;
   let city: string | undefined;
+  let model = "gfs";
+  let metric: "high" | "low" = "high";
 
   for (let i = 0; i < args.length; i++) {
     if (args[i] === "--days" && args[i + 1]) days = Number(args[i + 1]);
     if (args[i] === "--city" && args[i + 1]) city = args[i + 1];
+    if (args[i] === "--model" && args[i + 1]) model = args[i + 1];
+    if (args[i] === "--metric" && args[i + 1]) metric = args[i + 1] as "high" | "low";
   }
 
-  console.log(`\nWeatherClaw Backtest — ${days} days${city ? `, ${city} only` : ", all cities"}\n`);
+  if (metric !== "high" && metric !== "low") throw new Error(`Unknown metric "${metric}" (high, low)`);
+  if (city && getCity(city)?.settlementSource === "metar") {
+    throw new Error(`Backtest needs CLI settlement history; ${city} settles on METAR observations`);
+  }
+
+  const provider = getProvider(model);
+  if (!provider) throw new Error(`Unknown forecast model "${model}"`);
+
+  console.log(
+    `\nWeatherClaw Backtest — ${days} days${city ? `, ${city} only` : ", all cities"}, ${provider.label}, daily ${metric}s\n`,
+  );
 
-  const result = await runBacktest(days, city);
+  const result = await runBacktest(days, provider, metric, city);
 
   console.log("=== RESULTS ===");
   console.log(`Total trades:  ${result.totalTrades}`);
@@ -0,0 +1,300 @@
+import { logger } from "../logger.js";
+import { getStoredSignals, getSettlement, getCalibrationModels } from "../store/db.js";
+import { climateDayWindow, dayBasis } from "../weather/climate-day.js";
+import { isInBracket } from "../settlement/tracker.js";
+import type { CalibrationMethod, CalibrationModel, CityConfig } from "../types.js";
+
+// Probability calibration.
+//
+// Consensus probabilities come from a finite, under-dispersed ensemble, so a
+// raw 90% does not settle YES 90% of the time. We learn a monotone map from
+// raw → observed frequency on settled signals, separately per confidence tier
+// and lead-time bucket, and size positions off the calibrated number.
+
+const MIN_GROUP_SAMPLES = 30;
+const PROB_BOUNDS: [number, number] = [0.01, 0.99]; // never hand Kelly a certainty
+const HOUR_MS = 60 * 60 * 1000;
+
+const LEAD_BUCKETS: Array<{ label: string; maxHours: number }> = [
+  { label: "0-24h", maxHours: 24 },
+  { label: "24-72h", maxHours: 72 },
+  { label: "72h+", maxHours: Infinity },
+];
+
+export const POOLED_BUCKET = "all";
+
+export interface CalibrationSample {
+  probability: number; // raw consensus YES probability
+  outcome: 0 | 1; // 1 = bracket resolved YES
+  tier: string;
+  leadHours: number;
+  createdAt: number;
+}
+
+export interface Calibrator {
+  calibrate(probability: number, tier: string, leadHours: number): number;
+  models: number;
+}
+
+export interface ReliabilityBin {
+  lower: number;
+  upper: number;
+  count: number;
+  meanPredicted: number;
+  observedRate: number;
+}
+
+export function leadBucket(leadHours: number): string {
+  return LEAD_BUCKETS.find((b) => leadHours < b.maxHours)!.label;
+}
+
+function clampProbability(p: number): number {
+  return Math.min(PROB_BOUNDS[1], Math.max(PROB_BOUNDS[0], p));
+}
+
+function logit(p: number): number {
+  const q = Math.min(1 - 1e-4, Math.max(1e-4, p));
+  return Math.log(q / (1 - q));
+}
+
+function sigmoid(z: number): number {
+  return 1 / (1 + Math.exp(-z));
+}
+
+/**
+ * Pair every stored signal with how its bracket settled. Signals whose climate
+ * day has not ended or has no settlement report yet are left out.
+ */
+export function collectCalibrationSamples(cities: CityConfig[], now = Date.now()): CalibrationSample[] {
+  const samples: CalibrationSample[] = [];
+
+  for (const signal of getStoredSignals()) {
+    const city = cities.find((c) => c.slug === signal.city);
+    if (!city) continue;
+
+    const window = climateDayWindow(signal.date, city.timezone, dayBasis(city));
+    if (now < window.end) continue;
+
+    const report = getSettlement(city.iowaStation, signal.date);
+    if (!report) continue;
+
+    const actual = signal.metric === "high" ? report.high : report.low;
+    samples.push({
+      probability: signal.rawProbability,
+      outcome: isInBracket(signal, actual) ? 1 : 0,
+      tier: signal.tier,
+      leadHours: Math.max(0, (window.start - signal.createdAt) / HOUR_MS),
+      createdAt: signal.createdAt,
+    });
+  }
+
+  return samples;
+}
+
+/**
+ * Isotonic regression by pool-adjacent-violators. Returns knots sorted by
+ * raw probability; predictions interpolate linearly between them.
+ */
+export function fitIsotonic(samples: Array<Pick<CalibrationSample, "probability" | "outcome">>): {
+  x: number[];
+  y: number[];
+} {
+  const sorted = [...samples].sort((a, b) => a.probability - b.probability);
+  const blocks: Array<{ sumX: number; sumY: number; n: number }> = [];
+
+  for (const s of sorted) {
+    blocks.push({ sumX: s.probability, sumY: s.outcome, n: 1 });
+    // Merge backwards while the block means decrease
+    while (blocks.length > 1) {
+      const last = blocks[blocks.length - 1];
+      const prev = blocks[blocks.length - 2];
+      if (prev.sumY / prev.n <= last.sumY / last.n) break;
+      prev.sumX += last.sumX;
+      prev.sumY += last.sumY;
+      prev.n += last.n;
+      blocks.pop();
+    }
+  }
+
+  return {
+    x: blocks.map((b) => b.sumX / b.n),
+    y: blocks.map((b) => b.sumY / b.n),
+  };
+}
+
+/**
+ * Platt scaling on the log-odds of the raw probability:
+ *   p' = sigmoid(a * logit(p) + b)
+ * Fitted by Newton's method with Platt's smoothed targets so perfectly
+ * separated history cannot drive the coefficients to infinity.
+ */
+export function fitPlatt(samples: Array<Pick<CalibrationSample, "probability" | "outcome">>): { a: number; b: number } {
+  const positives = samples.filter((s) => s.outcome === 1).length;
+  const negatives = samples.length - positives;
+  const hi = (positives + 1) / (positives + 2);
+  const lo = 1 / (negatives + 2);
+
+  const xs = samples.map((s) => logit(s.probability));
+  const ts = samples.map((s) => (s.outcome === 1 ? hi : lo));
+
+  let a = 1;
+  let b = 0;
+  for (let iter = 0; iter < 100; iter++) {
+    // Gradient and Hessian of the negative log-likelihood
+    let ga = 0, gb = 0, haa = 1e-9, hab = 0, hbb = 1e-9;
+    for (let i = 0; i < xs.length; i++) {
+      const p = sigmoid(a * xs[i] + b);
+      const d = p - ts[i];
+      const w = p * (1 - p);
+      ga += d * xs[i];
+      gb += d;
+      haa += w * xs[i] * xs[i];
+      hab += w * xs[i];
+      hbb += w;
+    }
+    const det = haa * hbb - hab * hab;
+    if (det <= 0) break;
+    const da = (hbb * ga - hab * gb) / det;
+    const db = (haa * gb - hab * ga) / det;
+    a -= da;
+    b -= db;
+    if (Math.abs(da) < 1e-8 && Math.abs(db) < 1e-8) break;
+  }
+
+  return { a, b };
+}
+
+function fitModel(
+  samples: CalibrationSample[],
+  method: Exclude<CalibrationMethod, "identity">,
+  tier: CalibrationModel["tier"],
+  bucket: string,
+  now: number,
+): CalibrationModel {
+  return {
+    tier,
+    leadBucket: bucket,
+    method,
+    params: method === "isotonic" ? fitIsotonic(samples) : fitPlatt(samples),
+    samples: samples.length,
+    fittedAt: now,
+  };
+}
+
+/**
+ * Fit one model per tier × lead bucket with enough history, plus a pooled
+ * model every lookup falls back to.
+ */
+export function fitCalibrationModels(
+  samples: CalibrationSample[],
+  method: Exclude<CalibrationMethod, "identity"> = "isotonic",
+  now = Date.now(),
+): CalibrationModel[] {
+  if (samples.length < MIN_GROUP_SAMPLES) return [];
+
+  const groups = new Map<string, CalibrationSample[]>();
+  for (const s of samples) {
+    const key = `${s.tier}|${leadBucket(s.leadHours)}`;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(s);
+  }
+
+  const models: CalibrationModel[] = [fitModel(samples, method, "ALL", POOLED_BUCKET, now)];
+  for (const [key, group] of groups) {
+    if (group.length < MIN_GROUP_SAMPLES) continue;
+    const [tier, bucket] = key.split("|");
+    models.push(fitModel(group, method, tier as CalibrationModel["tier"], bucket, now));
+  }
+
+  return models;
+}
+
+export function applyCalibrationModel(model: CalibrationModel, probability: number): number {
+  const params = model.params as { x?: number[]; y?: number[]; a?: number; b?: number };
+
+  if (model.method === "platt" && params.a !== undefined && params.b !== undefined) {
+    return clampProbability(sigmoid(params.a * logit(probability) + params.b));
+  }
+
+  if (model.method === "isotonic" && params.x && params.y && params.x.length > 0) {
+    const { x, y } = params as { x: number[]; y: number[] };
+    if (probability <= x[0]) return clampProbability(y[0]);
+    if (probability >= x[x.length - 1]) return clampProbability(y[y.length - 1]);
+    let i = 1;
+    while (x[i] < probability) i++;
+    const t = (probability - x[i - 1]) / (x[i] - x[i - 1]);
+    return clampProbability(y[i - 1] + t * (y[i] - y[i - 1]));
+  }
+
+  return probability;
+}
+
+/**
+ * Lookup order: exact tier × lead bucket, then the pooled model, then the
+ * raw probability untouched.
+ */
+export function buildCalibrator(models: CalibrationModel[]): Calibrator {
+  const byKey = new Map(models.map((m) => [`${m.tier}|${m.leadBucket}`, m]));
+  const pooled = byKey.get(`ALL|${POOLED_BUCKET}`);
+
+  return {
+    models: models.length,
+    calibrate(probability, tier, leadHours) {
+      const model = byKey.get(`${tier}|${leadBucket(leadHours)}`) ?? pooled;
+      return model ? applyCalibrationModel(model, probability) : probability;
+    },
+  };
+}
+
+export function loadCalibrator(): Calibrator {
+  const calibrator = buildCalibrator(getCalibrationModels());
+  logger.debug({ models: calibrator.models }, "Calibration models loaded");
+  return calibrator;
+}
+
+// --- Scores ---
+
+export function brierScore(predictions: number[], outcomes: number[]): number {
+  if (predictions.length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < predictions.length; i++) {
+    sum += (predictions[i] - outcomes[i]) ** 2;
+  }
+  return sum / predictions.length;
+}
+
+export function logLoss(predictions: number[], outcomes: number[]): number {
+  if (predictions.length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < predictions.length; i++) {
+    const p = Math.min(1 - 1e-6, Math.max(1e-6, predictions[i]));
+    sum -= outcomes[i] === 1 ? Math.log(p) : Math.log(1 - p);
+  }
+  return sum / predictions.length;
+}
+
+/**
+ * Equal-width reliability bins over [0, 1]. Empty bins are omitted.
+ */
+export function reliabilityBins(predictions: number[], outcomes: number[], bins = 10): ReliabilityBin[] {
+  const acc = Array.from({ length: bins }, () => ({ count: 0, sumP: 0, sumY: 0 }));
+  for (let i = 0; i < predictions.length; i++) {
+    const idx = Math.min(bins - 1, Math.floor(predictions[i] * bins));
+    acc[idx].count++;
+    acc[idx].sumP += predictions[i];
+    acc[idx].sumY += outcomes[i];
+  }
+
+  const result: ReliabilityBin[] = [];
+  acc.forEach((b, i) => {
+    if (b.count === 0) return;
+    result.push({
+      lower: i / bins,
+      upper: (i + 1) / bins,
+      count: b.count,
+      meanPredicted: b.sumP / b.count,
+      observedRate: b.sumY / b.count,
+    });
+  });
+  return result;
+}
@@ -1,129 +1,317 @@
 import { logger } from "../logger.js";
-import type { EnsembleForecast, CityConfig } from "../types.js";
-import { getModelProbability } from "../weather/probability.js";
-import { getNWSHigh, fetchNWSForecast } from "../weather/nws.js";
+import type { ClimatologyPrior, ConfidenceTier, EnsembleForecast, ForecastMomentum, ForecastProvider, TempUnit } from "../types.js";
+import { distributionOverlap, getModelProbability } from "../weather/probability.js";
+import { stalePenalty } from "../weather/health.js";
 
-export type ConfidenceTier = "LOCK" | "STRONG" | "SAFE" | "NEAR-SAFE" | "SKIP";
+export type { ConfidenceTier };
+
+export interface ModelInput {
+  provider: ForecastProvider;
+  ensemble: EnsembleForecast;
+  weight?: number; // learned weight for this city and lead; provider.weight when unset
+  prior?: ClimatologyPrior; // long-lead climatology blended into this model's probability
+  staleHours?: number; // how overdue a newer run is (src/weather/health.ts); 0 when unset
+  unit?: TempUnit; // the city's, which sets the KDE bandwidth floor; °F when unset
+}
+
+export interface ModelProbability {
+  model: string; // ForecastProvider.name
+  probability: number; // in the provider's probability mode, climatology blended in
+  countProbability: number; // raw member share, for comparison
+  weight: number;
+  staleHours: number;
+}
+
+// How closely the models agree about the market's bracket
+export interface ConsensusAgreement {
+  probabilityGap: number; // largest |p_a - p_b| between two weighted models, 0 with one
+  overlap: number | null; // smallest pairwise overlap of their member distributions, null with one
+  spread: number; // standard deviation of the weighted member mixture, city unit
+  nwsInRange: boolean | null; // NWS point forecast inside the members' 5th-95th percentile
+}
+
+// What forecast staleness and missing sources cost the tier
+export interface ConsensusFreshness {
+  staleModels: string[]; // models priced off an overdue run
+  missingModels: string[]; // configured models with no usable run for the city
+  adjustment: number; // tier steps removed, 0 or negative
+}
 
 export interface ConsensusResult {
-  gfsProbability: number;
-  ecmwfProbability: number | null;
-  nwsHigh: number | null;
+  models: ModelProbability[]; // models that had data for the date
+  nwsTemp: number | null; // NWS point forecast for the market's metric
+  agreement: ConsensusAgreement;
+  freshness: ConsensusFreshness;
+  momentum: ForecastMomentum | null;
+  momentumAdjustment: -1 | 0 | 1; // tier steps momentum moved the agreement tier
   consensusProbability: number;
+  countProbability: number; // same blend over raw member counts, for comparison
   confidence: ConfidenceTier;
-  modelsAgreeing: number;
   kellyMultiplier: number; // 1.0 = normal, 1.5 = high confidence, 0.5 = low confidence
 }
 
+// Tiers from weakest to strongest, with their Kelly multipliers
+const TIER_ORDER: ConfidenceTier[] = ["SKIP", "NEAR-SAFE", "SAFE", "STRONG", "LOCK"];
+const TIER_KELLY: Record<ConfidenceTier, number> = {
+  SKIP: 0,
+  "NEAR-SAFE": 0.7,
+  SAFE: 1.0,
+  STRONG: 1.2,
+  LOCK: 1.5,
+};
+
+// Largest probability gap between two models allowed for each tier
+const GAP_TIERS: Array<{ maxGap: number; tier: ConfidenceTier }> = [
+  { maxGap: 0.05, tier: "LOCK" },
+  { maxGap: 0.10, tier: "STRONG" },
+  { maxGap: 0.20, tier: "SAFE" },
+  { maxGap: 0.30, tier: "NEAR-SAFE" },
+];
+const MIN_OVERLAP = 0.5; // below this the models put the temperature in different places
+const MAX_SPREAD_PER_WIDTH = 1.5; // mixture sd beyond this many bracket widths cannot resolve the bracket
+const NWS_RANGE: [number, number] = [0.05, 0.95]; // member quantiles the NWS forecast should fall between
+
+function stepDown(tier: ConfidenceTier, steps = 1): ConfidenceTier {
+  return TIER_ORDER[Math.max(0, TIER_ORDER.indexOf(tier) - steps)];
+}
+
+function quantile(sorted: number[], q: number): number {
+  const pos = q * (sorted.length - 1);
+  const i = Math.floor(pos);
+  return i + 1 < sorted.length ? sorted[i] + (pos - i) * (sorted[i + 1] - sorted[i]) : sorted[i];
+}
+
+/**
+ * Agreement tier from how the models' distributions compare, not from which
+ * side of 50% each lands on:
+ *  - the largest probability gap between two models sets the tier;
+ *  - on a between bracket, distributions that barely overlap cost a step —
+ *    similar probabilities there come from straddling the bracket, not from
+ *    agreeing where the temperature will be;
+ *  - a bracket much narrower than the mixture spread caps the tier at SAFE,
+ *    since every model then gives it a similar small share;
+ *  - an NWS forecast outside the members' central range costs a step.
+ * A single model is SAFE at best.
+ */
+function agreementTier(
+  agreement: ConsensusAgreement,
+  models: number,
+  bracketType: "above" | "below" | "between",
+  bracketWidth: number,
+): ConfidenceTier {
+  let tier: ConfidenceTier = models === 1
+    ? "SAFE"
+    : GAP_TIERS.find((t) => agreement.probabilityGap <= t.maxGap)?.tier ?? "SKIP";
+  if (tier === "SKIP") return tier;
+
+  if (bracketType === "between") {
+    if (agreement.overlap !== null && agreement.overlap < MIN_OVERLAP) tier = stepDown(tier);
+    if (agreement.spread > MAX_SPREAD_PER_WIDTH * bracketWidth && TIER_ORDER.indexOf(tier) > TIER_ORDER.indexOf("SAFE")) {
+      tier = "SAFE";
+    }
+  }
+  if (agreement.nwsInRange === false) tier = stepDown(tier);
+  return tier;
+}
+
+/**
+ * Tier steps lost to stale or missing forecasts: the stalest model's
+ * penalty, plus one when a configured model is missing so that running on
+ * fewer models than configured is never silent.
+ */
+function freshnessPenalty(models: ModelProbability[], missingModels: string[]): number {
+  const stale = Math.max(0, ...models.map((m) => stalePenalty(m.staleHours)));
+  return stale + (missingModels.length > 0 ? 1 : 0);
+}
+
+/**
+ * One tier step up for a trend the market has not priced, one down for
+ * runs that flip-flop. A disagreement SKIP is never promoted.
+ */
+function momentumAdjustment(tier: ConfidenceTier, momentum: ForecastMomentum | null): -1 | 0 | 1 {
+  if (!momentum || tier === "SKIP") return 0;
+  if (momentum.pattern === "flip-flop") return -1;
+  if (momentum.pattern === "trending" && momentum.unpriced && tier !== "LOCK") return 1;
+  return 0;
+}
+
+/**
+ * Weighted average of the models' probabilities for one bracket — the
+ * consensus probability without the agreement analysis. Null when no model
+ * covers the date.
+ */
+export function blendedProbability(
+  inputs: ModelInput[],
+  date: string,
+  metric: "high" | "low",
+  bracketType: "above" | "below" | "between",
+  bracketMin: number,
+  bracketMax: number,
+): number | null {
+  let weighted = 0;
+  let totalWeight = 0;
+  for (const { provider, ensemble, weight, prior, unit } of inputs) {
+    const probability = getModelProbability(ensemble, date, metric, bracketType, bracketMin, bracketMax, {
+      mode: provider.probabilityMode,
+      bandwidthScale: provider.bandwidthScale,
+      prior,
+      unit,
+    });
+    if (probability === null) continue;
+    weighted += probability * (weight ?? provider.weight);
+    totalWeight += weight ?? provider.weight;
+  }
+  return totalWeight > 0 ? weighted / totalWeight : null;
+}
+
 /**
  * Multi-model consensus engine.
  *
- * When 2+ models agree: increase confidence → raise Kelly multiplier
- * When models disagree: reduce confidence → lower Kelly multiplier or skip
+ * Takes any number of ensemble models and blends them by their learned
+ * weight, or the provider default when there is none.
+ * When the models' bracket probabilities and distributions agree: increase
+ * confidence → raise Kelly multiplier
+ * When they disagree: reduce confidence → lower Kelly multiplier or skip
+ * Stale runs and missing models then cost steps, and forecast momentum,
+ * when given, moves the tier one step either way.
  */
 export function calculateConsensus(
-  gfsEnsemble: EnsembleForecast,
-  ecmwfEnsemble: EnsembleForecast | null,
-  nwsHigh: number | null,
+  inputs: ModelInput[],
+  nwsTemp: number | null,
   date: string,
   metric: "high" | "low",
   bracketType: "above" | "below" | "between",
   bracketMin: number,
   bracketMax: number,
+  momentum: ForecastMomentum | null = null,
+  missingModels: string[] = [],
 ): ConsensusResult | null {
-  // GFS probability (required)
-  const gfsProb = getModelProbability(gfsEnsemble, date, metric, bracketType, bracketMin, bracketMax);
-  if (gfsProb === null) return null;
-
-  // ECMWF probability (optional)
-  let ecmwfProb: number | null = null;
-  if (ecmwfEnsemble) {
-    ecmwfProb = getModelProbability(ecmwfEnsemble, date, metric, bracketType, bracketMin, bracketMax);
-  }
-
-  // NWS point forecast check (does NWS high fall in the bracket?)
-  let nwsInBracket: boolean | null = null;
-  if (nwsHigh !== null && metric === "high") {
-    switch (bracketType) {
-      case "above":
-        nwsInBracket = nwsHigh >= bracketMin;
-        break;
-      case "below":
-        nwsInBracket = nwsHigh < bracketMax;
-        break;
-      case "between":
-        nwsInBracket = nwsHigh >= bracketMin && nwsHigh < bracketMax;
-        break;
-    }
+  const models: ModelProbability[] = [];
+  const members: number[][] = []; // per model in `models`, the metric's members for the date
+  const bandwidths: number[] = [];
+  for (const { provider, ensemble, weight, prior, staleHours, unit } of inputs) {
+    const probability = getModelProbability(ensemble, date, metric, bracketType, bracketMin, bracketMax, {
+      mode: provider.probabilityMode,
+      bandwidthScale: provider.bandwidthScale,
+      prior,
+      unit,
+    });
+    if (probability === null) continue;
+    const countProbability = provider.probabilityMode === "count" && !prior
+      ? probability
+      : getModelProbability(ensemble, date, metric, bracketType, bracketMin, bracketMax)!;
+    models.push({
+      model: provider.name,
+      probability,
+      countProbability,
+      weight: weight ?? provider.weight,
+      staleHours: staleHours ?? 0,
+    });
+    const day = ensemble.daily.find((d) => d.date === date)!;
+    members.push(metric === "high" ? day.highs : day.lows);
+    bandwidths.push(provider.bandwidthScale);
   }
 
-  // Count agreeing models
-  let modelsAgreeing = 0;
-  const probThreshold = 0.5; // above 50% = "likely YES"
-
-  const gfsVote = gfsProb >= probThreshold;
-  modelsAgreeing++; // GFS always counts
-
-  if (ecmwfProb !== null) {
-    const ecmwfVote = ecmwfProb >= probThreshold;
-    if (ecmwfVote === gfsVote) modelsAgreeing++;
-  }
-
-  if (nwsInBracket !== null) {
-    if (nwsInBracket === gfsVote) modelsAgreeing++;
-  }
+  // Need at least one model covering the date
+  if (models.length === 0) return null;
 
   // Calculate consensus probability (weighted average)
-  let consensusProb: number;
+  let weighted = 0;
+  let weightedCount = 0;
   let totalWeight = 0;
+  for (const m of models) {
+    weighted += m.probability * m.weight;
+    weightedCount += m.countProbability * m.weight;
+    totalWeight += m.weight;
+  }
+  const consensusProb = totalWeight > 0 ? weighted / totalWeight : 0;
+  const countProb = totalWeight > 0 ? weightedCount / totalWeight : 0;
 
-  // GFS weight: 1.0
-  consensusProb = gfsProb * 1.0;
-  totalWeight += 1.0;
+  // Agreement is measured over the models the blend listens to: one
+  // weighted to 0 for this city and lead cannot move the probability, so
+  // it does not move the tier either (all of them if none has weight)
+  const positive = models.map((_, i) => i).filter((i) => models[i].weight > 0);
+  const voters = positive.length > 0 ? positive : models.map((_, i) => i);
 
-  // ECMWF weight: 1.2 (slightly more accurate)
-  if (ecmwfProb !== null) {
-    consensusProb += ecmwfProb * 1.2;
-    totalWeight += 1.2;
+  // Pairwise comparison of the models' bracket probabilities and distributions
+  let probabilityGap = 0;
+  let overlap: number | null = null;
+  const unit = inputs[0].unit; // every input is the same city
+  for (const [k, i] of voters.entries()) {
+    for (const j of voters.slice(k + 1)) {
+      probabilityGap = Math.max(probabilityGap, Math.abs(models[i].probability - models[j].probability));
+      const o = distributionOverlap(members[i], members[j], Math.max(bandwidths[i], bandwidths[j]), unit);
+      overlap = overlap === null ? o : Math.min(overlap, o);
+    }
   }
 
-  consensusProb /= totalWeight;
-
-  // Determine confidence tier and Kelly multiplier
-  const totalModels = 1 + (ecmwfProb !== null ? 1 : 0) + (nwsInBracket !== null ? 1 : 0);
-  const agreementRatio = modelsAgreeing / totalModels;
-
-  let confidence: ConfidenceTier;
-  let kellyMultiplier: number;
-
-  if (totalModels >= 2 && agreementRatio === 1.0) {
-    // All models agree
-    confidence = "LOCK";
-    kellyMultiplier = 1.5;
-  } else if (totalModels >= 2 && agreementRatio >= 0.66) {
-    // Majority agree
-    confidence = "STRONG";
-    kellyMultiplier = 1.2;
-  } else if (totalModels === 1) {
-    // Only GFS available
-    confidence = "SAFE";
-    kellyMultiplier = 1.0;
-  } else if (agreementRatio >= 0.5) {
-    confidence = "NEAR-SAFE";
-    kellyMultiplier = 0.7;
-  } else {
-    // Models disagree
-    confidence = "SKIP";
-    kellyMultiplier = 0;
+  // Spread of the weighted mixture: each model's own spread plus how far
+  // apart their means sit
+  let mixMean = 0;
+  let mixSecond = 0;
+  voters.forEach((i) => {
+    const m = models[i];
+    const w = totalWeight > 0 ? m.weight / totalWeight : 1 / voters.length;
+    const mean = members[i].reduce((a, v) => a + v, 0) / members[i].length;
+    const variance = members[i].reduce((a, v) => a + (v - mean) ** 2, 0) / members[i].length;
+    mixMean += w * mean;
+    mixSecond += w * (variance + mean * mean);
+  });
+  const spread = Math.sqrt(Math.max(0, mixSecond - mixMean * mixMean));
+
+  // NWS point forecast check (does the NWS daytime high / overnight low sit
+  // inside the ensembles' central range?). The caller passes the value
+  // matching `metric`.
+  let nwsInRange: boolean | null = null;
+  if (nwsTemp !== null) {
+    const pooled = voters.flatMap((i) => members[i]).sort((a, b) => a - b);
+    nwsInRange = nwsTemp >= quantile(pooled, NWS_RANGE[0]) && nwsTemp <= quantile(pooled, NWS_RANGE[1]);
   }
 
+  const agreement: ConsensusAgreement = {
+    probabilityGap: Math.round(probabilityGap * 10000) / 10000, // no float noise at tier edges
+    overlap,
+    spread,
+    nwsInRange,
+  };
+  const agreedTier = agreementTier(agreement, voters.length, bracketType, bracketMax - bracketMin);
+  const baseTier = stepDown(agreedTier, freshnessPenalty(models, missingModels));
+  const freshness: ConsensusFreshness = {
+    staleModels: models.filter((m) => m.staleHours > 0).map((m) => m.model),
+    missingModels,
+    adjustment: TIER_ORDER.indexOf(baseTier) - TIER_ORDER.indexOf(agreedTier),
+  };
+  const adjustment = momentumAdjustment(baseTier, momentum);
+  const confidence = TIER_ORDER[TIER_ORDER.indexOf(baseTier) + adjustment];
+  const kellyMultiplier = TIER_KELLY[confidence];
+
+  logger.debug(
+    {
+      date,
+      metric,
+      bracketType,
+      models: models.map((m) => `${m.model}=${(m.probability * 100).toFixed(1)}%`),
+      gap: `${(agreement.probabilityGap * 100).toFixed(1)}pp`,
+      overlap: overlap === null ? undefined : overlap.toFixed(2),
+      spread: spread.toFixed(1),
+      confidence,
+      stale: freshness.staleModels.length > 0 ? freshness.staleModels : undefined,
+      missing: missingModels.length > 0 ? missingModels : undefined,
+      momentum: momentum ? `${momentum.pattern} ${momentum.probabilityShift > 0 ? "+" : ""}${(momentum.probabilityShift * 100).toFixed(1)}pp` : undefined,
+    },
+    "Consensus",
+  );
+
   return {
-    gfsProbability: gfsProb,
-    ecmwfProbability: ecmwfProb,
-    nwsHigh,
+    models,
+    nwsTemp,
+    agreement,
+    freshness,
+    momentum,
+    momentumAdjustment: adjustment,
     consensusProbability: consensusProb,
+    countProbability: countProb,
     confidence,
-    modelsAgreeing,
     kellyMultiplier,
   };
 }
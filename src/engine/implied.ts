@@ -0,0 +1,143 @@
+import type { DistributionMoments, EventComparison, EventStructure, ParsedMarket, WeatherEvent } from "../types.js";
+
+// Market-implied vs model temperature distribution.
+//
+// An event's bracket prices, normalised to sum to 1, are the market's
+// distribution for the day's high or low. Set against the consensus
+// probabilities for the same brackets, the disagreement is often structural
+// — the market too narrow around a consensus number, or centred a degree
+// off — rather than about one bracket. Signals that trade with that
+// structure are preferred (see generateSignals).
+
+const PROBABILITY_FLOOR = 0.001; // keeps KL finite where one side prices a bracket at 0
+const MIN_STRUCTURAL_KL = 0.05; // nats; below this the distributions agree
+const SPREAD_TOLERANCE = 0.2; // market sd within ±20% of the model's is not a spread disagreement
+const MEAN_TOLERANCE = 1; // degrees (city unit)
+
+/**
+ * Representative temperature of each bracket: a between bracket's centre
+ * ("86-87" → 86.5); open tails are treated as one more bracket of the
+ * event's typical width, so tail mass is placed just beyond the edge.
+ */
+export function bracketCenters(brackets: ParsedMarket[]): number[] {
+  const between = brackets.filter((b) => b.bracketType === "between");
+  const width = between.length > 0 ? between[0].bracketMax - between[0].bracketMin : 1;
+  return brackets.map((b) => {
+    if (b.bracketType === "below") return b.bracketMax - (width + 1) / 2;
+    if (b.bracketType === "above") return b.bracketMin + (width - 1) / 2;
+    return (b.bracketMin + b.bracketMax - 1) / 2;
+  });
+}
+
+function normalize(probabilities: number[], floor = 0): number[] {
+  const floored = probabilities.map((p) => Math.max(p, floor));
+  const total = floored.reduce((a, b) => a + b, 0);
+  return total > 0 ? floored.map((p) => p / total) : floored.map(() => 1 / floored.length);
+}
+
+/**
+ * Mean, standard deviation and skewness of a distribution over bracket
+ * centres.
+ */
+export function distributionMoments(centers: number[], probabilities: number[]): DistributionMoments {
+  const p = normalize(probabilities);
+  const mean = p.reduce((a, pi, i) => a + pi * centers[i], 0);
+  const variance = p.reduce((a, pi, i) => a + pi * (centers[i] - mean) ** 2, 0);
+  const sd = Math.sqrt(variance);
+  const third = p.reduce((a, pi, i) => a + pi * (centers[i] - mean) ** 3, 0);
+  return { mean, sd, skew: sd > 0 ? third / sd ** 3 : 0 };
+}
+
+/**
+ * KL(model ‖ market) in nats: how much the market's distribution loses
+ * against the model's, both floored at PROBABILITY_FLOOR and renormalised.
+ */
+export function klDivergence(model: number[], market: number[]): number {
+  const p = normalize(model, PROBABILITY_FLOOR);
+  const q = normalize(market, PROBABILITY_FLOOR);
+  return p.reduce((a, pi, i) => a + pi * Math.log(pi / q[i]), 0);
+}
+
+/**
+ * The market's YES prices for an event's brackets as a distribution.
+ */
+export function marketImplied(event: WeatherEvent): number[] {
+  return normalize(event.brackets.map((b) => b.yesPrice));
+}
+
+function classify(kl: number, market: DistributionMoments, model: DistributionMoments): EventStructure {
+  if (kl < MIN_STRUCTURAL_KL) return "aligned";
+  if (market.sd < model.sd * (1 - SPREAD_TOLERANCE)) return "too-narrow";
+  if (market.sd > model.sd * (1 + SPREAD_TOLERANCE)) return "too-wide";
+  if (Math.abs(market.mean - model.mean) > MEAN_TOLERANCE) return "shifted";
+  return "aligned";
+}
+
+/**
+ * Compare an event's market-implied distribution with the model's bracket
+ * probabilities (`modelProbabilities`, in the event's bracket order).
+ */
+export function compareDistributions(
+  event: WeatherEvent,
+  modelProbabilities: number[],
+  now = Date.now(),
+): EventComparison {
+  const centers = bracketCenters(event.brackets);
+  const marketProbs = marketImplied(event);
+  const market = distributionMoments(centers, marketProbs);
+  const model = distributionMoments(centers, modelProbabilities);
+  const kl = klDivergence(modelProbabilities, marketProbs);
+
+  return {
+    eventId: event.id,
+    city: event.city,
+    date: event.date,
+    metric: event.metric,
+    unit: event.unit,
+    market,
+    model,
+    klDivergence: kl,
+    meanDiff: market.mean - model.mean,
+    spreadDiff: market.sd - model.sd,
+    structure: classify(kl, market, model),
+    brackets: event.brackets.map((b, i) => ({
+      conditionId: b.conditionId,
+      center: centers[i],
+      market: marketProbs[i],
+      model: modelProbabilities[i],
+    })),
+    computedAt: now,
+  };
+}
+
+/**
+ * Whether trading `side` on one of the event's brackets goes with the
+ * event's structural disagreement or against it: a too-narrow market
+ * underprices brackets more than one market sd from its mean (YES there, NO
+ * near the middle), a too-wide one the reverse, and a shifted one the
+ * brackets on the model's side of the market mean. Null when the event is
+ * aligned or the bracket is not one of its brackets.
+ */
+export function bracketStructure(
+  comparison: EventComparison,
+  conditionId: string,
+  side: "YES" | "NO",
+): "with" | "against" | null {
+  const bracket = comparison.brackets.find((b) => b.conditionId === conditionId);
+  if (comparison.structure === "aligned" || !bracket) return null;
+
+  const offset = bracket.center - comparison.market.mean;
+  let yes: boolean;
+  switch (comparison.structure) {
+    case "too-narrow":
+      yes = Math.abs(offset) > comparison.market.sd;
+      break;
+    case "too-wide":
+      yes = Math.abs(offset) <= comparison.market.sd;
+      break;
+    case "shifted":
+      yes = Math.sign(offset) === Math.sign(comparison.model.mean - comparison.market.mean);
+      break;
+  }
+  return (side === "YES") === yes ? "with" : "against";
+}
@@ -0,0 +1,142 @@
+import { getRecentForecastSnapshots } from "../store/db.js";
+import { getModelProbability } from "../weather/probability.js";
+import type {
+  CityConfig,
+  DailyForecast,
+  ForecastMomentum,
+  ForecastPointKind,
+  ForecastProvider,
+  ParsedMarket,
+} from "../types.js";
+
+// Forecast-shift momentum.
+//
+// Successive runs of the same model drift toward the outcome, and the market
+// tends to reprice on them late. A bracket whose probability has moved the
+// same way run after run, while the price still sits on the other side, is
+// a better bet than the same edge from a forecast that just reversed itself.
+
+const HISTORY_RUNS = 3; // latest run plus the two before it
+const MIN_TREND_SHIFT = 0.10; // probability points, latest run vs previous
+const MIN_FLIP_SHIFT = 0.05; // both legs of a reversal must move at least this much
+
+export interface ForecastRun {
+  modelRun: number;
+  daily: DailyForecast[];
+}
+
+// provider name -> city slug -> runs, oldest first
+export type RunHistories = Map<string, Map<string, ForecastRun[]>>;
+
+/**
+ * Most recent stored runs per provider and city, oldest first.
+ */
+export function loadRunHistories(
+  providers: ForecastProvider[],
+  cities: CityConfig[],
+  pointKind: ForecastPointKind,
+  runs = HISTORY_RUNS,
+): RunHistories {
+  const histories: RunHistories = new Map();
+  for (const provider of providers) {
+    const byCity = new Map<string, ForecastRun[]>();
+    for (const city of cities) {
+      const snapshots = getRecentForecastSnapshots(provider.name, city.slug, pointKind, runs);
+      byCity.set(
+        city.slug,
+        snapshots.reverse().map((s) => ({ modelRun: s.modelRun, daily: s.payload as DailyForecast[] })),
+      );
+    }
+    histories.set(provider.name, byCity);
+  }
+  return histories;
+}
+
+function dayMean(day: DailyForecast, metric: "high" | "low"): number {
+  const values = metric === "high" ? day.highs : day.lows;
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+/**
+ * How the market's bracket moved across each provider's recent runs,
+ * blended by provider weight. Null until some provider has two runs
+ * covering the date.
+ *
+ * "trending": every provider moved the same way and the blend moved at least
+ * MIN_TREND_SHIFT without any provider reversing. "flip-flop": a provider
+ * reversed between its last two steps, or providers moved in opposite
+ * directions, by at least MIN_FLIP_SHIFT each. `unpriced` compares the
+ * shift with the current price: the runs pushed the model further from the
+ * market, not toward it.
+ */
+export function computeMomentum(
+  providers: ForecastProvider[],
+  histories: RunHistories,
+  market: Pick<ParsedMarket, "city" | "date" | "metric" | "unit" | "bracketType" | "bracketMin" | "bracketMax" | "yesPrice">,
+): ForecastMomentum | null {
+  let weight = 0;
+  let probabilityShift = 0;
+  let meanShift = 0;
+  let latestProbability = 0;
+  let runs = 0;
+  let reversed = false;
+  const directions = new Set<number>();
+
+  for (const provider of providers) {
+    const history = (histories.get(provider.name)?.get(market.city) ?? [])
+      .map((run) => ({ run, day: run.daily.find((d) => d.date === market.date) }))
+      .filter((r): r is { run: ForecastRun; day: DailyForecast } => !!r.day && r.day.highs.length > 0);
+    if (history.length < 2) continue;
+
+    const options = { mode: provider.probabilityMode, bandwidthScale: provider.bandwidthScale, unit: market.unit };
+    const probs = history.map(({ run }) =>
+      getModelProbability(
+        { city: market.city, model: provider.name, modelRun: run.modelRun, fetchedAt: 0, daily: run.daily },
+        market.date,
+        market.metric,
+        market.bracketType,
+        market.bracketMin,
+        market.bracketMax,
+        options,
+      )!,
+    );
+    const steps = probs.slice(1).map((p, i) => p - probs[i]);
+    const last = steps[steps.length - 1];
+    const before = steps.length > 1 ? steps[steps.length - 2] : 0;
+
+    if (Math.abs(last) >= MIN_FLIP_SHIFT && Math.abs(before) >= MIN_FLIP_SHIFT && Math.sign(last) !== Math.sign(before)) {
+      reversed = true;
+    }
+    if (Math.abs(last) >= MIN_FLIP_SHIFT) directions.add(Math.sign(last));
+
+    const w = provider.weight;
+    weight += w;
+    probabilityShift += w * last;
+    latestProbability += w * probs[probs.length - 1];
+    const latest = history[history.length - 1].day;
+    const previous = history[history.length - 2].day;
+    meanShift += w * (dayMean(latest, market.metric) - dayMean(previous, market.metric));
+    runs = Math.max(runs, history.length);
+  }
+
+  if (weight === 0) return null;
+  probabilityShift /= weight;
+  meanShift /= weight;
+  latestProbability /= weight;
+
+  let pattern: ForecastMomentum["pattern"] = "steady";
+  if (reversed || directions.size > 1) {
+    pattern = "flip-flop";
+  } else if (Math.abs(probabilityShift) >= MIN_TREND_SHIFT) {
+    pattern = "trending";
+  }
+
+  const gap = latestProbability - market.yesPrice;
+  return {
+    runs,
+    probabilityShift: Math.round(probabilityShift * 1000) / 1000,
+    meanShift: Math.round(meanShift * 100) / 100,
+    pattern,
+    unpriced: probabilityShift !== 0 && Math.sign(probabilityShift) === Math.sign(gap),
+  };
+}
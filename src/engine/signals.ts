@@ -1,11 +1,39 @@
 import { logger } from "../logger.js";
-import type { Signal, ParsedMarket, EnsembleForecast, AppConfig, Position } from "../types.js";
-import { calculateEdge } from "./edge.js";
-import { kellySize } from "./sizing.js";
-import { calculateConsensus } from "./consensus.js";
+import type {
+  Signal,
+  ParsedMarket,
+  ProviderEnsembles,
+  AppConfig,
+  Position,
+  ObservedExtremes,
+  RunShift,
+  ForecastMomentum,
+  MomentumFilter,
+  NWSForecast,
+  BookFill,
+  CityConfig,
+  EventComparison,
+  WeatherEvent,
+} from "../types.js";
+import { getCity, getProvider } from "../config.js";
+import { depthSize, kellySize, leadParams } from "./sizing.js";
+import type { OrderBookSummary } from "../market/orderbook.js";
+import { blendedProbability, calculateConsensus, type ModelInput } from "./consensus.js";
+import { bracketStructure, compareDistributions } from "./implied.js";
+import type { Calibrator } from "./calibration.js";
+import { computeMomentum, type RunHistories } from "./momentum.js";
+import type { ModelWeights } from "./weights.js";
+import { climateDayWindow, dayBasis } from "../weather/climate-day.js";
+import { conditionEnsemble } from "../weather/observations.js";
+import { leadDaysFor } from "../weather/bias.js";
+import { getNWSTemp } from "../weather/nws.js";
+import { climatologyPrior, type ClimatologyTable } from "../weather/climatology.js";
+import { isExcluded, staleHours } from "../weather/health.js";
 
 const MIN_VOLUME = 1000; // $1K minimum market volume
-const MIN_HOURS_TO_SETTLE = 2; // skip markets settling within 2 hours
+const MIN_HOURS_TO_SETTLE = 2; // skip markets settling within 2 hours...
+const MIN_MINUTES_TO_SETTLE_OBSERVED = 15; // ...unless observations condition the day
+const HOUR_MS = 60 * 60 * 1000;
 
 function getConfidence(edge: number, consensusConfidence?: string): Signal["confidence"] {
   if (consensusConfidence === "LOCK" || edge >= 0.25) return "LOCK";
@@ -14,20 +42,153 @@ function getConfidence(edge: number, consensusConfidence?: string): Signal["conf
   return "NEAR-SAFE";
 }
 
+export interface SignalOptions {
+  calibrator?: Calibrator; // raw consensus → calibrated probability before edge/sizing
+  observations?: Map<string, ObservedExtremes>; // city slug → same-day running max/min
+  runHistories?: RunHistories; // recent runs per provider/city, for forecast momentum
+  weights?: ModelWeights; // learned per-city/lead consensus weights
+  nws?: Map<string, NWSForecast>; // city slug → NWS gridpoint forecast (US cities)
+  climatology?: ClimatologyTable; // settled history for the long-lead prior (CLIMATOLOGY_PRIOR)
+  comparisons?: Map<string, EventComparison>; // event id → market vs model distribution (compareEvents)
+  fetchBook?: (tokenId: string) => Promise<OrderBookSummary | null>; // price against CLOB asks, not Gamma mids
+}
+
+const MOMENTUM_FILTERS: MomentumFilter[] = ["off", "skip-flip-flop", "require-trend"];
+
+function passesMomentumFilter(momentum: ForecastMomentum | null, filter: MomentumFilter): boolean {
+  switch (filter) {
+    case "off":
+      return true;
+    case "skip-flip-flop":
+      return momentum?.pattern !== "flip-flop";
+    case "require-trend":
+      return momentum?.pattern === "trending" && momentum.unpriced;
+  }
+}
+
+/**
+ * The consensus inputs for a city's climate day: every provider's ensemble
+ * (conditioned on today's observations for a nowcast), with learned weights
+ * and the long-lead climatology prior applied. Runs past the staleness
+ * cutoff are left out; those and providers with nothing for the city are
+ * returned as missing.
+ */
+function collectInputs(
+  city: CityConfig | undefined,
+  slug: string,
+  date: string,
+  ensembles: ProviderEnsembles,
+  config: AppConfig,
+  options: SignalOptions,
+  nowcast: ObservedExtremes | undefined,
+  now: number,
+): { inputs: ModelInput[]; missingModels: string[] } {
+  const inputs: ModelInput[] = [];
+  const missingModels: string[] = [];
+  for (const [name, byCity] of ensembles) {
+    const provider = getProvider(name);
+    if (!provider) continue;
+    const ensemble = byCity.get(slug);
+    const stale = ensemble ? staleHours(provider, ensemble.modelRun, now) : null;
+    if (!ensemble || stale === null || isExcluded(stale)) {
+      missingModels.push(name);
+      continue;
+    }
+    inputs.push({
+      provider,
+      ensemble: nowcast ? conditionEnsemble(ensemble, nowcast) : ensemble,
+      staleHours: stale,
+      unit: city?.unit,
+    });
+  }
+  if (inputs.length === 0 || !city) return { inputs, missingModels };
+
+  // Learned weights for the city at the newest run's lead, if fitted
+  if (options.weights) {
+    const leadDays = leadDaysFor(Math.max(...inputs.map((i) => i.ensemble.modelRun)), date, city);
+    const learned = options.weights.weightsFor(slug, leadDays, inputs.map((i) => i.provider.name));
+    if (learned) for (const input of inputs) input.weight = learned.get(input.provider.name);
+  }
+
+  // Long-lead days lean on climatology, weighted by each model's own lead
+  if (options.climatology && config.climatologyPrior && !nowcast) {
+    for (const input of inputs) {
+      const leadDays = leadDaysFor(input.ensemble.modelRun, date, city);
+      input.prior = climatologyPrior(options.climatology, city, date, leadDays) ?? undefined;
+    }
+  }
+  return { inputs, missingModels };
+}
+
+/**
+ * Market-implied vs consensus distribution for every event whose brackets
+ * partition the temperature line, keyed by event id. Built from the same
+ * inputs generateSignals prices with, uncalibrated: it compares shapes, not
+ * traded probabilities.
+ */
+export function compareEvents(
+  events: WeatherEvent[],
+  ensembles: ProviderEnsembles,
+  config: AppConfig,
+  options: SignalOptions = {},
+): Map<string, EventComparison> {
+  const comparisons = new Map<string, EventComparison>();
+  const now = Date.now();
+
+  for (const event of events) {
+    if (event.partitionIssues.length > 0) continue;
+    const observed = options.observations?.get(event.city);
+    const nowcast = observed?.date === event.date ? observed : undefined;
+    const { inputs } = collectInputs(getCity(event.city), event.city, event.date, ensembles, config, options, nowcast, now);
+    if (inputs.length === 0) continue;
+
+    const probabilities = event.brackets.map((b) =>
+      blendedProbability(inputs, event.date, event.metric, b.bracketType, b.bracketMin, b.bracketMax),
+    );
+    if (probabilities.some((p) => p === null)) continue;
+
+    const comparison = compareDistributions(event, probabilities as number[], now);
+    comparisons.set(event.id, comparison);
+    logger.debug(
+      {
+        city: event.city,
+        date: event.date,
+        metric: event.metric,
+        structure: comparison.structure,
+        kl: comparison.klDivergence.toFixed(3),
+        market: `${comparison.market.mean.toFixed(1)}±${comparison.market.sd.toFixed(1)}`,
+        model: `${comparison.model.mean.toFixed(1)}±${comparison.model.sd.toFixed(1)}`,
+      },
+      "Market vs model",
+    );
+  }
+  return comparisons;
+}
+
 /**
  * Generate trading signals from markets + ensemble data.
+ * `ensembles` holds every fetched provider; each market is priced off the
+ * consensus of whichever providers have data for its city. With event
+ * comparisons, a bracket whose edge runs against its event's structural
+ * disagreement is skipped, and trades that go with it come first.
+ * With `fetchBook`, a bracket with edge at the Gamma price is re-priced
+ * against its side's asks: edge is taken at the VWAP of the fill and size
+ * stops where the next level's edge falls under the bar.
  */
-export function generateSignals(
+export async function generateSignals(
   markets: ParsedMarket[],
-  gfsEnsembles: Map<string, EnsembleForecast>,
+  ensembles: ProviderEnsembles,
   config: AppConfig,
   openPositions: Position[],
-  ecmwfEnsembles?: Map<string, EnsembleForecast>,
-): Signal[] {
+  options: SignalOptions = {},
+): Promise<Signal[]> {
   const signals: Signal[] = [];
-  const minEdge = config.minEdgePct / 100;
   const bankroll = config.bankrollUsdc;
   const now = Date.now();
+  const momentumFilter = config.momentumFilter ?? "off";
+  if (!MOMENTUM_FILTERS.includes(momentumFilter)) {
+    throw new Error(`Unknown momentum filter "${momentumFilter}" (${MOMENTUM_FILTERS.join(", ")})`);
+  }
 
   // Track which markets we already have positions on
   const openConditionIds = new Set(
@@ -41,40 +202,63 @@ export function generateSignals(
     // Skip low-volume markets
     if (market.volume < MIN_VOLUME) continue;
 
-    // Skip markets settling too soon
+    // Same-day markets are priced off the ensemble conditioned on what the
+    // station has already reported
+    const observed = options.observations?.get(market.city);
+    const nowcast = observed?.date === market.date ? observed : undefined;
+
+    // Skip markets settling too soon (without observations the ensemble
+    // still thinks the morning is uncertain)
     const endTime = new Date(market.endDateIso).getTime();
-    if (endTime - now < MIN_HOURS_TO_SETTLE * 60 * 60 * 1000) continue;
+    const minToSettleMs = nowcast ? MIN_MINUTES_TO_SETTLE_OBSERVED * 60 * 1000 : MIN_HOURS_TO_SETTLE * 60 * 60 * 1000;
+    if (endTime - now < minToSettleMs) continue;
+
+    // Lead time: hours until the market's climate day starts. Skip markets
+    // beyond the configured horizon
+    const city = getCity(market.city);
+    const dayStart = city
+      ? climateDayWindow(market.date, city.timezone, dayBasis(city)).start
+      : new Date(market.date).getTime();
+    const leadHours = Math.max(0, (dayStart - now) / HOUR_MS);
+    if (leadHours > config.maxLeadDays * 24) continue;
+    const params = leadParams(config, leadHours);
 
-    // Skip markets settling beyond forecast range (7 days)
-    const marketDate = new Date(market.date).getTime();
-    if (marketDate - now > 7 * 24 * 60 * 60 * 1000) continue;
+    const { inputs, missingModels } = collectInputs(city, market.city, market.date, ensembles, config, options, nowcast, now);
+    if (inputs.length === 0) continue;
 
-    // Need GFS ensemble data for this city
-    const gfsEnsemble = gfsEnsembles.get(market.city);
-    if (!gfsEnsemble) continue;
+    // How the bracket moved over the last few runs (same providers)
+    const momentum = options.runHistories
+      ? computeMomentum(inputs.map((i) => i.provider), options.runHistories, market)
+      : null;
+    if (!passesMomentumFilter(momentum, momentumFilter)) continue;
 
-    // Get ECMWF ensemble if available
-    const ecmwfEnsemble = ecmwfEnsembles?.get(market.city) ?? null;
+    // NWS high/low for the market's climate day, checked against the members
+    const nwsForecast = options.nws?.get(market.city);
+    const nws = nwsForecast && city ? getNWSTemp(nwsForecast, city, market.date, market.metric) : null;
 
     // Multi-model consensus
     const consensus = calculateConsensus(
-      gfsEnsemble,
-      ecmwfEnsemble,
-      null, // NWS high — fetched separately if needed
+      inputs,
+      nws?.temp ?? null,
       market.date,
       market.metric,
       market.bracketType,
       market.bracketMin,
       market.bracketMax,
+      momentum,
+      missingModels,
     );
 
     if (!consensus) continue;
 
-    // Skip if models disagree
+    // Skip if models disagree (or flip-flopping runs demoted a weak consensus)
     if (consensus.confidence === "SKIP") continue;
 
-    // Calculate edge using consensus probability
-    const consensusProb = consensus.consensusProbability;
+    // Calculate edge using the calibrated consensus probability
+    const rawProb = consensus.consensusProbability;
+    const consensusProb = options.calibrator
+      ? options.calibrator.calibrate(rawProb, consensus.confidence, leadHours)
+      : rawProb;
     const yesPrice = market.yesPrice;
     const noPrice = market.noPrice;
 
@@ -100,12 +284,30 @@ export function generateSignals(
       continue; // no edge
     }
 
-    if (edge < minEdge) continue;
+    if (edge < params.minEdgePct / 100) continue;
+
+    // Event-level view: an edge on this bracket that contradicts how the
+    // market's whole distribution is off (say, YES on the middle bracket of
+    // a market that is too narrow) is a bracket-local artefact
+    const comparison = options.comparisons?.get(market.eventId);
+    const structure = comparison ? bracketStructure(comparison, market.conditionId, side) : null;
+    if (structure === "against") continue;
+
+    // Gamma prices are mids or last trades; what the size would actually
+    // pay is the VWAP of walking the side's asks
+    let fill: BookFill | null = null;
+    if (options.fetchBook) {
+      const book = await options.fetchBook(side === "YES" ? market.yesTokenId : market.noTokenId);
+      fill = book ? depthSize(book.asks, modelProbability, bankroll, params, consensus.kellyMultiplier) : null;
+      if (!fill) continue;
+      effectivePrice = fill.vwap;
+      edge = modelProbability - fill.vwap;
+    }
 
     // Size the position (apply consensus Kelly multiplier)
-    const sizing = kellySize(modelProbability, effectivePrice, bankroll, config);
-    let adjustedSize = sizing.size * consensus.kellyMultiplier;
-    adjustedSize = Math.min(adjustedSize, bankroll * config.maxPositionPct);
+    const sizing = kellySize(modelProbability, effectivePrice, bankroll, params);
+    let adjustedSize = fill ? fill.usdc : sizing.size * consensus.kellyMultiplier;
+    adjustedSize = Math.min(adjustedSize, bankroll * params.maxPositionPct);
     adjustedSize = Math.floor(adjustedSize * 100) / 100;
 
     if (adjustedSize < 0.50) continue;
@@ -113,6 +315,8 @@ export function generateSignals(
     const signal: Signal = {
       id: crypto.randomUUID(),
       market,
+      rawProbability: rawProb,
+      consensusTier: consensus.confidence,
       modelProbability,
       marketPrice: effectivePrice,
       edge,
@@ -120,6 +324,11 @@ export function generateSignals(
       size: adjustedSize,
       kelly: sizing.rawKelly,
       confidence: getConfidence(edge, consensus.confidence),
+      leadTimeHours: Math.round(leadHours * 10) / 10,
+      ...(momentum ? { momentum } : {}),
+      ...(nws ? { nws: { ...nws, inRange: consensus.agreement.nwsInRange! } } : {}),
+      ...(structure === "with" ? { structural: comparison!.structure } : {}),
+      ...(fill ? { fill } : {}),
       createdAt: now,
     };
 
@@ -131,19 +340,76 @@ export function generateSignals(
         date: market.date,
         metric: market.metric,
         bracket: market.bracketType === "between"
-          ? `${market.bracketMin}-${market.bracketMax}°F`
-          : `${market.bracketType} ${market.bracketType === "above" ? market.bracketMin : market.bracketMax}°F`,
+          ? `${market.bracketMin}-${market.bracketMax}°${market.unit}`
+          : `${market.bracketType} ${market.bracketType === "above" ? market.bracketMin : market.bracketMax}°${market.unit}`,
         side: signal.side,
         model: `${(signal.modelProbability * 100).toFixed(1)}%`,
+        raw: `${((side === "YES" ? rawProb : 1 - rawProb) * 100).toFixed(1)}%`,
+        count: `${((side === "YES" ? consensus.countProbability : 1 - consensus.countProbability) * 100).toFixed(1)}%`,
         market: `${(signal.marketPrice * 100).toFixed(1)}¢`,
+        book: fill
+          ? `${fill.levels} level${fill.levels === 1 ? "" : "s"} ${(fill.bestAsk * 100).toFixed(1)}-${(fill.worstPrice * 100).toFixed(1)}¢ (Gamma ${((side === "YES" ? yesPrice : noPrice) * 100).toFixed(1)}¢)`
+          : undefined,
         edge: `${(signal.edge * 100).toFixed(1)}%`,
         size: `$${signal.size.toFixed(2)}`,
         confidence: signal.confidence,
-        models: consensus.modelsAgreeing,
+        lead: `${Math.round(leadHours)}h`,
+        gap: `${(consensus.agreement.probabilityGap * 100).toFixed(1)}pp`,
+        momentum: momentum
+          ? `${momentum.pattern}${momentum.unpriced ? " unpriced" : ""} ${momentum.probabilityShift > 0 ? "+" : ""}${(momentum.probabilityShift * 100).toFixed(1)}pp`
+          : undefined,
+        freshness: consensus.freshness.adjustment < 0
+          ? [
+              ...consensus.models.filter((m) => m.staleHours > 0).map((m) => `${m.model} +${m.staleHours}h`),
+              ...consensus.freshness.missingModels.map((m) => `${m} missing`),
+            ].join(", ")
+          : undefined,
+        nws: nws ? `${nws.temp}°F ${nws.source}${consensus.agreement.nwsInRange ? "" : " outside members"}` : undefined,
+        structural: signal.structural,
+        observed: nowcast ? `${market.metric === "high" ? nowcast.high : nowcast.low}°${market.unit}` : undefined,
       },
       "SIGNAL",
     );
   }
 
-  return signals;
+  // Trades that go with an event's structural disagreement first
+  return [...signals.filter((s) => s.structural), ...signals.filter((s) => !s.structural)];
+}
+
+/**
+ * Order signals for execution after a new model run: markets whose
+ * distribution the run moved come first, largest mean shift first, since
+ * those are the prices most likely to be stale. The rest keep their order.
+ */
+export function prioritizeSignals(signals: Signal[], shifts: RunShift[]): Signal[] {
+  if (shifts.length === 0) return signals;
+
+  const moved = new Map<string, number>(); // city|date|metric -> largest |mean shift|
+  for (const s of shifts) {
+    const key = `${s.city}|${s.date}|${s.metric}`;
+    moved.set(key, Math.max(moved.get(key) ?? 0, Math.abs(s.meanShift)));
+  }
+  const shiftOf = (signal: Signal) =>
+    moved.get(`${signal.market.city}|${signal.market.date}|${signal.market.metric}`) ?? -1;
+
+  // Array.prototype.sort is stable, so unshifted signals keep their order
+  return [...signals].sort((a, b) => shiftOf(b) - shiftOf(a));
+}
+
+/**
+ * Fold a book cycle's signals into the previous list. Only `evaluated`
+ * markets were re-priced, so their old signals are replaced by `next` (or
+ * dropped, if the edge went); every other market keeps its signal unless a
+ * position has since been opened on it.
+ */
+export function mergeSignals(
+  previous: Signal[],
+  next: Signal[],
+  evaluated: ParsedMarket[],
+  openPositions: Position[],
+): Signal[] {
+  const replaced = new Set(evaluated.map((m) => m.conditionId));
+  const held = new Set(openPositions.filter((p) => p.status === "open").map((p) => p.conditionId));
+  const kept = previous.filter((s) => !replaced.has(s.market.conditionId) && !held.has(s.market.conditionId));
+  return [...kept, ...next];
 }
@@ -1,4 +1,28 @@
-import type { AppConfig } from "../types.js";
+import type { AppConfig, BookFill, LeadSchedule } from "../types.js";
+import { walkAsks, type BookLevel } from "../market/orderbook.js";
+
+// Trading parameters in force at one lead time
+export interface LeadParams {
+  minEdgePct: number;
+  kellyFraction: number;
+  maxPositionPct: number;
+}
+
+function scheduled(schedule: LeadSchedule, leadHours: number, fallback: number): number {
+  return schedule.find((s) => leadHours < s.maxHours)?.value ?? fallback;
+}
+
+/**
+ * Min edge, Kelly fraction and max size for a market `leadHours` out: the
+ * per-lead schedules where they cover it, the flat settings otherwise.
+ */
+export function leadParams(config: AppConfig, leadHours: number): LeadParams {
+  return {
+    minEdgePct: scheduled(config.minEdgePctByLead, leadHours, config.minEdgePct),
+    kellyFraction: scheduled(config.kellyFractionByLead, leadHours, config.kellyFraction),
+    maxPositionPct: scheduled(config.maxPositionPctByLead, leadHours, config.maxPositionPct),
+  };
+}
 
 /**
  * Quarter-Kelly position sizing.
@@ -10,13 +34,14 @@ import type { AppConfig } from "../types.js";
  *   q = 1 - p
  *   f* = fraction of bankroll to bet
  *
- * We use fractional Kelly (default 0.25) for safety.
+ * We use fractional Kelly (default 0.25) for safety. Pass leadParams() to
+ * size with the fraction and cap for the market's lead time.
  */
 export function kellySize(
   modelProbability: number,
   effectivePrice: number,
   bankroll: number,
-  config: AppConfig,
+  config: Pick<AppConfig, "kellyFraction" | "maxPositionPct">,
 ): { rawKelly: number; adjustedKelly: number; size: number } {
   const p = modelProbability;
   const q = 1 - p;
@@ -41,3 +66,29 @@ export function kellySize(
     size: Math.max(size, 0),
   };
 }
+
+/**
+ * Size against the order book rather than a single price. Kelly at the best
+ * ask sets the target; the asks are walked only while each level still
+ * clears the minimum edge, so size shrinks to what the book offers at a
+ * price worth paying; the fill is then capped by Kelly at its own VWAP.
+ * Null when the best ask already leaves too little edge.
+ */
+export function depthSize(
+  asks: BookLevel[],
+  modelProbability: number,
+  bankroll: number,
+  params: LeadParams,
+  kellyMultiplier = 1,
+): BookFill | null {
+  const maxPrice = modelProbability - params.minEdgePct / 100;
+  if (asks.length === 0 || asks[0].price > maxPrice) return null;
+
+  const sizeAt = (price: number) =>
+    Math.min(kellySize(modelProbability, price, bankroll, params).size * kellyMultiplier, bankroll * params.maxPositionPct);
+
+  let fill = walkAsks(asks, sizeAt(asks[0].price), maxPrice);
+  const atVwap = sizeAt(fill.vwap);
+  if (atVwap < fill.usdc) fill = walkAsks(asks, atVwap, maxPrice);
+  return fill.shares > 0 ? fill : null;
+}
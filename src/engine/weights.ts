@@ -0,0 +1,259 @@
+import { logger } from "../logger.js";
+import { getForecastSnapshots, getSettlements, getModelWeights } from "../store/db.js";
+import { correctEnsemble, isAnalysisDay, leadDaysFor, type BiasTable } from "../weather/bias.js";
+import type { CityConfig, DailyForecast, ForecastPointKind, ForecastProvider, ModelWeight } from "../types.js";
+
+// Learned consensus weights.
+//
+// Default provider weights are one guess for every city and lead time, but
+// which model verifies best depends on both: one handles a coastal station's
+// sea breeze, another a continental cold air mass, and their ranking shifts
+// with lead. We pick, per city and lead, the blend of members whose CRPS
+// against settled highs/lows is lowest, and consensus reads it at runtime.
+
+const MIN_GROUP_SAMPLES = 30;
+const GRID_STEPS = 20; // weights searched in 0.05 increments
+
+export const POOLED_LEAD = -1;
+
+// One settled city/date/metric with every model's members from runs at the same lead
+export interface WeightSample {
+  city: string;
+  date: string;
+  metric: "high" | "low";
+  leadDays: number;
+  observed: number;
+  members: Record<string, number[]>; // model -> members (bias-corrected)
+}
+
+export interface ModelWeights {
+  weightsFor(city: string, leadDays: number, models: string[]): Map<string, number> | null;
+  groups: number;
+}
+
+function ascending(values: number[]): number[] {
+  return [...values].sort((a, b) => a - b);
+}
+
+/**
+ * Mean |a_i - b_j| over every pair, in O(n + m) after sorting.
+ */
+export function meanAbsDifference(a: number[], b: number[]): number {
+  if (a.length === 0 || b.length === 0) return 0;
+  const xs = ascending(a);
+  const ys = ascending(b);
+  const total = ys.reduce((s, y) => s + y, 0);
+
+  let k = 0;
+  let below = 0; // sum of ys[0..k)
+  let sum = 0;
+  for (const x of xs) {
+    while (k < ys.length && ys[k] < x) below += ys[k++];
+    sum += x * k - below + (total - below) - x * (ys.length - k);
+  }
+  return sum / (xs.length * ys.length);
+}
+
+/**
+ * CRPS of an ensemble as an empirical distribution:
+ *   E|X - y| - 0.5 * E|X - X'|
+ * Same unit as the members; 0 is a perfect, sharp forecast.
+ */
+export function ensembleCrps(members: number[], observed: number): number {
+  return meanAbsDifference(members, [observed]) - 0.5 * meanAbsDifference(members, members);
+}
+
+/**
+ * Pair stored snapshots with settlements. For each city, date and lead, every
+ * model contributes its latest run at that lead; dates some model has no run
+ * for are dropped so all weights are fitted on the same outcomes. Days that
+ * had ended before the run (past_days analysis) are no forecast and are
+ * skipped. Members are bias-corrected with `table`, matching what consensus
+ * sees live.
+ */
+export function collectWeightSamples(
+  cities: CityConfig[],
+  models: string[],
+  pointKind: ForecastPointKind,
+  table: BiasTable = new Map(),
+): WeightSample[] {
+  const samples: WeightSample[] = [];
+
+  for (const city of cities) {
+    const observed = new Map(getSettlements(city.iowaStation).map((r) => [r.date, r]));
+    if (observed.size === 0) continue;
+
+    // date|lead -> model -> latest run's day
+    const byKey = new Map<string, Map<string, { modelRun: number; day: DailyForecast }>>();
+    for (const model of models) {
+      for (const snapshot of getForecastSnapshots(model, city.slug)) {
+        if ((snapshot.pointKind ?? "centroid") !== pointKind) continue;
+        const ensemble = correctEnsemble(
+          { city: city.slug, model, modelRun: snapshot.modelRun, fetchedAt: snapshot.fetchedAt, daily: snapshot.payload as DailyForecast[] },
+          city,
+          table,
+        );
+        for (const day of ensemble.daily) {
+          if (!observed.has(day.date) || day.highs.length === 0) continue;
+          if (isAnalysisDay(snapshot.modelRun, day.date, city)) continue;
+          const key = `${day.date}|${leadDaysFor(snapshot.modelRun, day.date, city)}`;
+          if (!byKey.has(key)) byKey.set(key, new Map());
+          const held = byKey.get(key)!.get(model);
+          if (!held || snapshot.modelRun > held.modelRun) {
+            byKey.get(key)!.set(model, { modelRun: snapshot.modelRun, day });
+          }
+        }
+      }
+    }
+
+    for (const [key, byModel] of byKey) {
+      if (byModel.size < models.length) continue;
+      const [date, lead] = key.split("|");
+      const obs = observed.get(date)!;
+      for (const metric of ["high", "low"] as const) {
+        const members: Record<string, number[]> = {};
+        for (const [model, { day }] of byModel) members[model] = metric === "high" ? day.highs : day.lows;
+        samples.push({
+          city: city.slug,
+          date,
+          metric,
+          leadDays: Number(lead),
+          observed: metric === "high" ? obs.high : obs.low,
+          members,
+        });
+      }
+    }
+  }
+
+  return samples;
+}
+
+// Every weight vector on the simplex in 1/steps increments
+function simplexGrid(dims: number, steps: number): number[][] {
+  if (dims === 1) return [[1]];
+  const grid: number[][] = [];
+  const walk = (prefix: number[], left: number) => {
+    if (prefix.length === dims - 1) {
+      grid.push([...prefix, left / steps]);
+      return;
+    }
+    for (let i = 0; i <= left; i++) walk([...prefix, i / steps], left - i);
+  };
+  walk([], steps);
+  return grid;
+}
+
+/**
+ * Fit one weight vector per city × lead, plus a pooled one per city.
+ *
+ * The CRPS of a weighted member mixture is quadratic in the weights,
+ *   Σ w_a E|X_a - y| - 0.5 Σ w_a w_b E|X_a - X_b|,
+ * so the group means of those terms are computed once and the simplex is
+ * searched on a grid. Groups below the minimum sample count are not fitted.
+ */
+export function fitModelWeights(
+  samples: WeightSample[],
+  providers: ForecastProvider[],
+  now = Date.now(),
+): ModelWeight[] {
+  const models = providers.map((p) => p.name);
+  const groups = new Map<string, WeightSample[]>();
+  for (const s of samples) {
+    for (const key of [`${s.city}|${s.leadDays}`, `${s.city}|${POOLED_LEAD}`]) {
+      if (!groups.has(key)) groups.set(key, []);
+      groups.get(key)!.push(s);
+    }
+  }
+
+  const totalDefault = providers.reduce((a, p) => a + p.weight, 0);
+  const defaults = providers.map((p) => p.weight / totalDefault);
+  const grid = simplexGrid(models.length, GRID_STEPS);
+
+  const weights: ModelWeight[] = [];
+  for (const [key, group] of groups) {
+    if (group.length < MIN_GROUP_SAMPLES) continue;
+
+    // a[i] = mean E|X_i - y|, b[i][j] = mean E|X_i - X_j|
+    const a = models.map(() => 0);
+    const b = models.map(() => models.map(() => 0));
+    for (const s of group) {
+      models.forEach((m, i) => {
+        a[i] += meanAbsDifference(s.members[m], [s.observed]) / group.length;
+        for (let j = i; j < models.length; j++) {
+          const d = meanAbsDifference(s.members[m], s.members[models[j]]) / group.length;
+          b[i][j] += d;
+          if (j !== i) b[j][i] += d;
+        }
+      });
+    }
+    const crps = (w: number[]) => {
+      let score = 0;
+      for (let i = 0; i < w.length; i++) {
+        score += w[i] * a[i];
+        for (let j = 0; j < w.length; j++) score -= 0.5 * w[i] * w[j] * b[i][j];
+      }
+      return score;
+    };
+
+    let best = grid[0];
+    let bestCrps = crps(best);
+    for (const w of grid) {
+      const score = crps(w);
+      if (score < bestCrps - 1e-12) {
+        best = w;
+        bestCrps = score;
+      }
+    }
+
+    const [city, lead] = key.split("|");
+    const defaultCrps = crps(defaults);
+    models.forEach((model, i) => {
+      weights.push({
+        city,
+        leadDays: Number(lead),
+        model,
+        weight: best[i],
+        crps: a[i] - 0.5 * b[i][i],
+        mixtureCrps: bestCrps,
+        defaultCrps,
+        samples: group.length,
+        fittedAt: now,
+      });
+    });
+  }
+
+  return weights;
+}
+
+/**
+ * Lookup order: the city's exact lead, then its pooled fit, then null
+ * (consensus keeps the default provider weights). A fit that lacks one of
+ * the requested models, or gives all of them zero weight, is skipped.
+ */
+export function buildModelWeights(rows: ModelWeight[]): ModelWeights {
+  const byGroup = new Map<string, Map<string, number>>();
+  for (const r of rows) {
+    const key = `${r.city}|${r.leadDays}`;
+    if (!byGroup.has(key)) byGroup.set(key, new Map());
+    byGroup.get(key)!.set(r.model, r.weight);
+  }
+
+  return {
+    groups: byGroup.size,
+    weightsFor(city, leadDays, models) {
+      for (const key of [`${city}|${leadDays}`, `${city}|${POOLED_LEAD}`]) {
+        const fitted = byGroup.get(key);
+        if (!fitted || !models.every((m) => fitted.has(m))) continue;
+        if (models.reduce((a, m) => a + fitted.get(m)!, 0) <= 0) continue;
+        return new Map(models.map((m) => [m, fitted.get(m)!]));
+      }
+      return null;
+    },
+  };
+}
+
+export function loadModelWeights(): ModelWeights {
+  const weights = buildModelWeights(getModelWeights());
+  logger.debug({ groups: weights.groups }, "Model weights loaded");
+  return weights;
+}
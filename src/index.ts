@@ -1,66 +1,124 @@
 import { logger } from "./logger.js";
-import { loadConfig, CITIES } from "./config.js";
-import { fetchAllEnsembles } from "./weather/ensemble.js";
-import { fetchAllEcmwfEnsembles } from "./weather/ecmwf.js";
-import { fetchNWSForecast } from "./weather/nws.js";
+import { loadConfig, CITIES, getForecastProviders } from "./config.js";
+import { fetchProviderEnsembles } from "./weather/ensemble.js";
+import { correctProviderEnsembles, loadBiasTable } from "./weather/bias.js";
+import { fetchNWSForecasts } from "./weather/nws.js";
+import { loadClimatology, type ClimatologyTable } from "./weather/climatology.js";
+import { fetchSameDayObservations } from "./weather/observations.js";
+import { detectNewRuns } from "./weather/runs.js";
 import { fetchWeatherMarkets } from "./market/discovery.js";
 import { parseAllMarkets } from "./market/parser.js";
-import { generateSignals } from "./engine/signals.js";
+import { groupEvents } from "./market/events.js";
+import { fetchOrderBook } from "./market/orderbook.js";
+import { applyStreamQuotes, connectMarketStream, createBookStore } from "./market/stream.js";
+import { compareEvents, generateSignals, mergeSignals, prioritizeSignals, type SignalOptions } from "./engine/signals.js";
+import { loadRunHistories, type RunHistories } from "./engine/momentum.js";
+import { loadCalibrator } from "./engine/calibration.js";
+import { loadModelWeights } from "./engine/weights.js";
+import { findArbBaskets } from "./engine/arbitrage.js";
 import { executeSignal } from "./market/execution.js";
 import { checkSettlements } from "./settlement/tracker.js";
-import { insertSignal, insertPosition, getOpenPositions } from "./store/db.js";
+import { insertSignal, insertPosition, getOpenPositions, getRunShiftsSince, upsertArbBasket, upsertEventComparisons } from "./store/db.js";
 import { printDashboard } from "./cli/dashboard.js";
 import { checkRiskLimits, initRiskState, onSettlement } from "./engine/risk.js";
 import { startWebDashboard } from "./cli/web.js";
-import type { Signal, EnsembleForecast } from "./types.js";
+import type { Signal, ParsedMarket, ProviderEnsembles, RunShift } from "./types.js";
 
-const WEATHER_REFRESH_MS = 5 * 60 * 1000; // 5 minutes
-const MARKET_SCAN_MS = 60 * 1000; // 60 seconds
+const WEATHER_REFRESH_MS = 5 * 60 * 1000; // 5 minutes (run metadata decides what is refetched)
+const MARKET_SCAN_MS = 60 * 1000; // 60 seconds (book moves re-evaluate in between)
+const BOOK_CYCLE_MIN_MS = 5 * 1000; // at most one book-triggered cycle per 5 seconds
 const SETTLEMENT_CHECK_MS = 30 * 60 * 1000; // 30 minutes
-const ECMWF_REFRESH_MS = 30 * 60 * 1000; // 30 minutes (less frequent)
 
 async function main() {
   const config = loadConfig();
-  logger.info({ mode: config.mode, bankroll: config.bankrollUsdc }, "WeatherClaw starting");
+  const providers = getForecastProviders(config);
+  logger.info(
+    { mode: config.mode, bankroll: config.bankrollUsdc, models: providers.map((p) => p.name) },
+    "WeatherClaw starting",
+  );
 
   // Initialize risk state from DB
   initRiskState();
 
   // Start web dashboard
-  startWebDashboard();
+  startWebDashboard(config);
 
   let lastWeatherFetch = 0;
-  let lastEcmwfFetch = 0;
   let lastSettlementCheck = 0;
   let cycle = 0;
 
-  let gfsEnsembles = new Map<string, EnsembleForecast>();
-  let ecmwfEnsembles = new Map<string, EnsembleForecast>();
+  let ensembles: ProviderEnsembles = new Map();
+  let runHistories: RunHistories = new Map();
+  let climatology: ClimatologyTable = new Map();
   let latestSignals: Signal[] = [];
+  let parsedMarkets: ParsedMarket[] = [];
+  let lastMarketScan = 0;
+  let moved: string[] = [];
+  // Signal inputs read or computed on full cycles and reused by book cycles
+  let signalOptions: SignalOptions | null = null;
+
+  // Live CLOB books for every token of the latest scan; a move at the top
+  // of a book wakes the loop before the next scan is due
+  const books = createBookStore();
+  const stream = config.marketStream
+    ? connectMarketStream(books, { record: config.marketStreamRecord })
+    : null;
 
   // Main loop
   while (true) {
     cycle++;
     const now = Date.now();
 
+    // A full cycle checks forecasts and rescans Gamma; a book cycle
+    // re-evaluates the last scan at the streamed prices
+    const fullCycle = now - lastMarketScan >= MARKET_SCAN_MS;
+    if (fullCycle) lastMarketScan = now;
+
     try {
-      // 1. Refresh GFS ensemble data
-      if (now - lastWeatherFetch >= WEATHER_REFRESH_MS) {
-        logger.info("Refreshing GFS ensemble forecasts...");
-        gfsEnsembles = await fetchAllEnsembles(CITIES);
-        lastWeatherFetch = now;
+      let shifts: RunShift[] = [];
+      if (!fullCycle) {
+        logger.info({ tokens: moved.length }, "Book update — re-evaluating signals");
       }
 
-      // 2. Refresh ECMWF ensemble data (less frequent)
-      if (now - lastEcmwfFetch >= ECMWF_REFRESH_MS) {
-        logger.info("Refreshing ECMWF ensemble forecasts...");
-        ecmwfEnsembles = await fetchAllEcmwfEnsembles(CITIES);
-        lastEcmwfFetch = now;
+      // 1-2. Refresh ensemble data for every configured model — on the
+      // regular interval, or straight away when a new run has landed
+      const newRuns = fullCycle ? await detectNewRuns(providers, ensembles, now) : [];
+      if (fullCycle && (newRuns.length > 0 || now - lastWeatherFetch >= WEATHER_REFRESH_MS)) {
+        if (newRuns.length > 0) {
+          logger.info({ models: newRuns.map((r) => r.provider) }, "New model run — priority scan");
+        } else {
+          logger.info("Refreshing ensemble forecasts...");
+        }
+        ensembles = correctProviderEnsembles(
+          await fetchProviderEnsembles(providers, CITIES, config.forecastPoint),
+          CITIES,
+          loadBiasTable(), // reloaded each refresh so `bias fit` applies without a restart
+        );
+        shifts = getRunShiftsSince(now);
+        runHistories = loadRunHistories(providers, CITIES, config.forecastPoint);
+        climatology = loadClimatology(CITIES); // picks up settlements and backfills
+        lastWeatherFetch = now;
       }
 
-      // 3. Scan markets
-      const rawMarkets = await fetchWeatherMarkets();
-      const parsedMarkets = parseAllMarkets(rawMarkets);
+      // 3. Scan markets, then follow every token's book on the stream. A
+      // book cycle only revisits the markets whose tokens moved (and, for
+      // the basket check, the rest of their events)
+      if (fullCycle) {
+        parsedMarkets = parseAllMarkets(await fetchWeatherMarkets(config.maxLeadDays, config.marketDiscovery));
+        stream?.track(parsedMarkets.flatMap((m) => [m.yesTokenId, m.noTokenId]));
+      }
+      const movedTokens = new Set(moved);
+      const isMoved = (m: ParsedMarket) => movedTokens.has(m.yesTokenId) || movedTokens.has(m.noTokenId);
+      const movedEvents = new Set(parsedMarkets.filter(isMoved).map((m) => m.eventId));
+      const eventMarkets = applyStreamQuotes(
+        fullCycle ? parsedMarkets : parsedMarkets.filter((m) => movedEvents.has(m.eventId)),
+        books,
+      );
+      const markets = fullCycle ? eventMarkets : eventMarkets.filter(isMoved);
+
+      // Event-level check: bracket sets priced under their payout
+      const events = groupEvents(eventMarkets);
+      for (const basket of findArbBaskets(events, config)) upsertArbBasket(basket);
 
       // 4. Get open positions + risk check
       const openPositions = getOpenPositions();
@@ -73,13 +131,37 @@ async function main() {
         logger.info({ open: openPositions.length }, "Max positions reached");
         latestSignals = [];
       } else {
-        // 5. Generate signals (pass both ensembles for consensus)
-        latestSignals = generateSignals(
-          parsedMarkets,
-          gfsEnsembles,
-          config,
-          openPositions,
-          ecmwfEnsembles,
+        // 5. Generate signals (all models feed the consensus; same-day
+        // markets are conditioned on observations, cached 10 min; US
+        // markets are checked against NWS, cached 1 hr). Calibration,
+        // weights and event comparisons are refreshed on full cycles only
+        if (fullCycle || !signalOptions) {
+          signalOptions = {
+            calibrator: loadCalibrator(),
+            weights: loadModelWeights(),
+            observations: await fetchSameDayObservations(parsedMarkets, CITIES),
+            nws: await fetchNWSForecasts(parsedMarkets, CITIES),
+            climatology,
+            runHistories,
+          };
+          // Market-implied vs model distribution per event; brackets that
+          // trade with a structural disagreement are preferred
+          const comparisons = compareEvents(events, ensembles, config, signalOptions);
+          upsertEventComparisons([...comparisons.values()]);
+          signalOptions.comparisons = comparisons;
+        }
+        const signals = await generateSignals(markets, ensembles, config, openPositions, {
+          ...signalOptions,
+          // a book cycle prices off the streamed books alone
+          fetchBook: fullCycle
+            ? async (tokenId) => books.book(tokenId) ?? fetchOrderBook(tokenId)
+            : async (tokenId) => books.book(tokenId),
+        });
+        // A full cycle replaces the list; a book cycle only re-priced the
+        // moved markets, so the rest keep their signals
+        latestSignals = prioritizeSignals(
+          fullCycle ? signals : mergeSignals(latestSignals, signals, markets, openPositions),
+          shifts, // markets the new run moved most trade first
         );
 
         // 6. Execute signals
@@ -113,8 +195,14 @@ async function main() {
       logger.error({ err }, "Cycle error");
     }
 
-    // Wait before next market scan
-    await Bun.sleep(MARKET_SCAN_MS);
+    // Wait for the next market scan, or less if a tracked book moves
+    const untilScan = Math.max(0, lastMarketScan + MARKET_SCAN_MS - Date.now());
+    if (stream) {
+      moved = await books.nextUpdate(untilScan);
+      if (moved.length > 0) await Bun.sleep(Math.max(0, now + BOOK_CYCLE_MIN_MS - Date.now()));
+    } else {
+      await Bun.sleep(untilScan);
+    }
   }
 }
 
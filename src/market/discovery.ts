@@ -1,7 +1,8 @@
 import { logger } from "../logger.js";
 import { fetchWithRetry } from "../utils/retry.js";
 import { CITIES } from "../config.js";
-import type { RawMarket, CityConfig } from "../types.js";
+import { matchCity } from "./parser.js";
+import type { MarketDiscovery, RawMarket, UnmappedEvent } from "../types.js";
 
 const GAMMA_API = "https://gamma-api.polymarket.com";
 
@@ -10,27 +11,51 @@ const MONTH_NAMES = [
   "july", "august", "september", "october", "november", "december",
 ];
 
+// Polymarket lists daily highs and lows as separate events
+const EVENT_KINDS = ["highest", "lowest"] as const;
+
+// Gamma's weather tag, paged in listing discovery
+const WEATHER_TAG = "weather";
+const PAGE_SIZE = 100;
+const MAX_PAGES = 20;
+
+const DISCOVERY_MODES: MarketDiscovery[] = ["listing", "slugs"];
+
+// "Highest temperature in NYC on October 20?" — or the same words in a slug
+const RE_TEMPERATURE_EVENT = /(highest|lowest)\s+temperature\s+in\s+(.+?)\s+on\s+([a-z]+)\s+(\d{1,2})\b/i;
+
+// Unknown-city event slugs already warned about (the daemon discovers every minute)
+const reported = new Set<string>();
+
 /**
- * Build event slugs for upcoming temperature markets.
- * Pattern: highest-temperature-in-{city}-on-{month}-{day}-{year}
+ * Month name, day and year of today through `daysAhead` days out.
  */
-function buildEventSlugs(): string[] {
-  const slugs: string[] = [];
+function horizonDays(daysAhead: number): Array<{ month: string; day: number; year: number }> {
+  const days: Array<{ month: string; day: number; year: number }> = [];
   const now = new Date();
 
-  // Check today + next 7 days
-  for (let d = 0; d <= 7; d++) {
+  // Check today + the trading horizon
+  for (let d = 0; d <= daysAhead; d++) {
     const date = new Date(now);
     date.setDate(date.getDate() + d);
-    const month = MONTH_NAMES[date.getMonth() + 1];
-    const day = date.getDate();
-    const year = date.getFullYear();
+    days.push({ month: MONTH_NAMES[date.getMonth() + 1], day: date.getDate(), year: date.getFullYear() });
+  }
+  return days;
+}
 
-    for (const city of CITIES) {
-      slugs.push(`highest-temperature-in-${city.polymarketSlug}-on-${month}-${day}-${year}`);
+/**
+ * Build event slugs for upcoming temperature markets.
+ * Pattern: {highest|lowest}-temperature-in-{city}-on-{month}-{day}-{year}
+ */
+function buildEventSlugs(daysAhead: number): string[] {
+  const slugs: string[] = [];
+  for (const { month, day, year } of horizonDays(daysAhead)) {
+    for (const kind of EVENT_KINDS) {
+      for (const city of CITIES) {
+        slugs.push(`${kind}-temperature-in-${city.polymarketSlug}-on-${month}-${day}-${year}`);
+      }
     }
   }
-
   return slugs;
 }
 
@@ -50,66 +75,175 @@ async function fetchEvent(slug: string): Promise<GammaEventResponse | null> {
 }
 
 /**
- * Fetch all active weather markets from Polymarket.
- * Weather events are neg-risk events with multiple bracket markets inside.
+ * Every open event under Gamma's weather tag, a page at a time. Throws when
+ * the listing cannot be read, so the caller can fall back to slug probing.
  */
-export async function fetchWeatherMarkets(): Promise<RawMarket[]> {
-  const slugs = buildEventSlugs();
-  logger.debug({ slugCount: slugs.length }, "Checking weather event slugs");
+async function fetchWeatherEventListing(): Promise<GammaEventResponse[]> {
+  const events: GammaEventResponse[] = [];
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const url = `${GAMMA_API}/events?tag_slug=${WEATHER_TAG}&active=true&closed=false&limit=${PAGE_SIZE}&offset=${page * PAGE_SIZE}`;
+    const res = await fetchWithRetry(url, {}, 2, 500);
+    if (!res.ok) throw new Error(`Gamma events listing error: ${res.status} ${res.statusText}`);
+    const data = (await res.json()) as GammaEventResponse[];
+    events.push(...data);
+    if (data.length < PAGE_SIZE) break;
+  }
+  return events;
+}
+
+/**
+ * Which configured city, metric and day a weather event is for, read from
+ * its title (or slug). Events that are not daily temperature events, or
+ * whose place matches no enabled city's CITY_ALIASES, come back with the
+ * reason instead.
+ */
+export function mapWeatherEvent(
+  event: Pick<GammaEventResponse, "slug" | "title">,
+): { city: string; metric: "high" | "low"; month: string; day: number } | { reason: UnmappedEvent["reason"] } {
+  const m = (event.title ?? "").match(RE_TEMPERATURE_EVENT)
+    ?? (event.slug ?? "").replace(/-/g, " ").match(RE_TEMPERATURE_EVENT);
+  if (!m) return { reason: "not a temperature event" };
 
+  const city = matchCity(m[2]);
+  if (!city) return { reason: "unknown city" };
+  return { city, metric: m[1].toLowerCase() === "lowest" ? "low" : "high", month: m[3].toLowerCase(), day: Number(m[4]) };
+}
+
+/**
+ * Flatten an event's open bracket markets.
+ */
+function eventMarkets(event: GammaEventResponse): RawMarket[] {
   const markets: RawMarket[] = [];
+  for (const m of event.markets ?? []) {
+    if (m.closed) continue;
+
+    const outcomePrices = typeof m.outcomePrices === "string"
+      ? JSON.parse(m.outcomePrices) as string[]
+      : m.outcomePrices ?? [];
+
+    const outcomes = typeof m.outcomes === "string"
+      ? JSON.parse(m.outcomes) as string[]
+      : m.outcomes ?? [];
+
+    const tokenIds = m.clobTokenIds
+      ? (typeof m.clobTokenIds === "string" ? JSON.parse(m.clobTokenIds) : m.clobTokenIds) as string[]
+      : [];
 
-  // Fetch events in batches of 6 (one per city)
+    const tokens = tokenIds.map((tokenId: string, idx: number) => ({
+      tokenId,
+      outcome: outcomes[idx] ?? (idx === 0 ? "Yes" : "No"),
+      price: Number(outcomePrices[idx] ?? 0),
+    }));
+
+    markets.push({
+      conditionId: m.conditionId ?? "",
+      questionId: m.questionID ?? "",
+      title: m.question ?? "",
+      slug: event.slug ?? "",
+      eventId: event.id ?? event.slug ?? "",
+      negRisk: event.negRisk === true,
+      bestBid: m.bestBid,
+      bestAsk: m.bestAsk,
+      outcomes,
+      outcomePrices,
+      tokens,
+      volume: Number(m.volumeNum ?? m.volume ?? 0),
+      endDateIso: m.endDate ?? "",
+      active: m.active !== false,
+      closed: m.closed === true,
+    });
+  }
+  return markets;
+}
+
+/**
+ * Listing discovery: weather events within the horizon that map to an
+ * enabled city, and the weather events that do not map.
+ */
+async function discoverFromListing(daysAhead: number): Promise<{ events: GammaEventResponse[]; unmapped: UnmappedEvent[] }> {
+  const horizon = new Set(horizonDays(daysAhead).map((d) => `${d.month}-${d.day}`));
+  const events: GammaEventResponse[] = [];
+  const unmapped: UnmappedEvent[] = [];
+
+  for (const event of await fetchWeatherEventListing()) {
+    const mapped = mapWeatherEvent(event);
+    if ("reason" in mapped) {
+      unmapped.push({ slug: event.slug ?? "", title: event.title ?? "", reason: mapped.reason });
+    } else if (horizon.has(`${mapped.month}-${mapped.day}`)) {
+      events.push(event);
+    }
+  }
+  return { events, unmapped };
+}
+
+/**
+ * Slug discovery: probe every built slug, six at a time.
+ */
+async function discoverFromSlugs(daysAhead: number): Promise<GammaEventResponse[]> {
+  const slugs = buildEventSlugs(daysAhead);
+  logger.debug({ slugCount: slugs.length }, "Checking weather event slugs");
+
+  const events: GammaEventResponse[] = [];
   const batchSize = 6;
   for (let i = 0; i < slugs.length; i += batchSize) {
-    const batch = slugs.slice(i, i + batchSize);
-    const results = await Promise.all(batch.map(fetchEvent));
-
-    for (const event of results) {
-      if (!event?.markets) continue;
-
-      for (const m of event.markets) {
-        if (m.closed) continue;
-
-        const outcomePrices = typeof m.outcomePrices === "string"
-          ? JSON.parse(m.outcomePrices) as string[]
-          : m.outcomePrices ?? [];
-
-        const outcomes = typeof m.outcomes === "string"
-          ? JSON.parse(m.outcomes) as string[]
-          : m.outcomes ?? [];
-
-        const tokenIds = m.clobTokenIds
-          ? (typeof m.clobTokenIds === "string" ? JSON.parse(m.clobTokenIds) : m.clobTokenIds) as string[]
-          : [];
-
-        const tokens = tokenIds.map((tokenId: string, idx: number) => ({
-          tokenId,
-          outcome: outcomes[idx] ?? (idx === 0 ? "Yes" : "No"),
-          price: Number(outcomePrices[idx] ?? 0),
-        }));
-
-        markets.push({
-          conditionId: m.conditionId ?? "",
-          questionId: m.questionID ?? "",
-          title: m.question ?? "",
-          slug: event.slug ?? "",
-          outcomes,
-          outcomePrices,
-          tokens,
-          volume: Number(m.volumeNum ?? m.volume ?? 0),
-          endDateIso: m.endDate ?? "",
-          active: m.active !== false,
-          closed: m.closed === true,
-        });
-      }
+    const results = await Promise.all(slugs.slice(i, i + batchSize).map(fetchEvent));
+    for (const event of results) if (event) events.push(event);
+  }
+  return events;
+}
+
+/**
+ * Fetch all active weather markets from Polymarket, today through
+ * `daysAhead` days out (MAX_LEAD_DAYS).
+ * Weather events are neg-risk events with multiple bracket markets inside.
+ *
+ * "listing" mode (the default) pages through Gamma's weather events and maps
+ * them to cities by CITY_ALIASES, so new slugs and cities show up without
+ * code changes; temperature events for unknown cities are logged. If the listing
+ * fails or maps nothing, the slug prober runs instead.
+ */
+export async function fetchWeatherMarkets(daysAhead = 7, mode: MarketDiscovery = "listing"): Promise<RawMarket[]> {
+  if (!DISCOVERY_MODES.includes(mode)) {
+    throw new Error(`Unknown market discovery "${mode}" (${DISCOVERY_MODES.join(", ")})`);
+  }
+
+  let events: GammaEventResponse[] = [];
+  let source: MarketDiscovery = mode;
+  if (mode === "listing") {
+    try {
+      const listing = await discoverFromListing(daysAhead);
+      events = listing.events;
+      reportUnmapped(listing.unmapped);
+    } catch (err) {
+      logger.warn({ err }, "Weather event listing failed — probing slugs");
     }
+    if (events.length === 0) source = "slugs";
   }
+  if (source === "slugs") events = await discoverFromSlugs(daysAhead);
 
-  logger.info({ count: markets.length }, "Weather markets fetched");
+  const markets = events.flatMap(eventMarkets);
+  logger.info({ count: markets.length, events: events.length, discovery: source }, "Weather markets fetched");
   return markets;
 }
 
+/**
+ * Log weather events discovery could not map. A temperature event for a
+ * city we do not know is warned about once per slug, since it may be worth
+ * adding; the rest of the weather tag (snow, hurricanes…) only at debug.
+ */
+function reportUnmapped(unmapped: UnmappedEvent[]): void {
+  for (const event of unmapped) {
+    if (event.reason !== "unknown city") {
+      logger.debug({ slug: event.slug, reason: event.reason }, "Weather event skipped");
+      continue;
+    }
+    if (reported.has(event.slug)) continue;
+    reported.add(event.slug);
+    logger.warn({ slug: event.slug, title: event.title, reason: event.reason }, "Unmapped weather event");
+  }
+  if (unmapped.length > 0) logger.debug({ unmapped: unmapped.length }, "Weather events not mapped to a city");
+}
+
 // --- Gamma API types ---
 
 interface GammaEventResponse {
@@ -130,6 +264,8 @@ interface GammaMarketResponse {
   clobTokenIds?: string | string[];
   volume?: string | number;
   volumeNum?: number;
+  bestBid?: number;
+  bestAsk?: number;
   endDate?: string;
   active?: boolean;
   closed?: boolean;
@@ -0,0 +1,86 @@
+import { logger } from "../logger.js";
+import type { ParsedMarket, WeatherEvent } from "../types.js";
+
+// Event-level view of the markets.
+//
+// A Polymarket temperature event is a neg-risk set of bracket markets —
+// "31°F or below", "32-33°F", ..., "46°F or higher" — exactly one of which
+// resolves YES. Bracket-by-bracket signals ignore that; grouping them back
+// into events lets us check the brackets really cover the temperature line
+// and price the whole set (src/engine/arbitrage.ts).
+
+function bracketLabel(m: ParsedMarket): string {
+  if (m.bracketType === "below") return `≤${m.bracketMax - 1}`;
+  if (m.bracketType === "above") return `≥${m.bracketMin}`;
+  return `${m.bracketMin}-${m.bracketMax - 1}`;
+}
+
+/**
+ * Problems with an event's brackets as a partition of the temperature line:
+ * a missing open-ended tail, gaps, overlaps, or brackets from a different
+ * city, date, metric or unit. `brackets` must be sorted lowest first.
+ */
+export function partitionIssues(brackets: ParsedMarket[]): string[] {
+  const issues: string[] = [];
+  if (brackets.length < 2) return ["fewer than two brackets"];
+
+  const first = brackets[0];
+  for (const b of brackets) {
+    if (b.city !== first.city || b.date !== first.date || b.metric !== first.metric || b.unit !== first.unit) {
+      issues.push(`${bracketLabel(b)} is for a different city, date, metric or unit`);
+    }
+  }
+
+  if (first.bracketType !== "below") issues.push(`no lower tail below ${bracketLabel(first)}`);
+  const last = brackets[brackets.length - 1];
+  if (last.bracketType !== "above") issues.push(`no upper tail above ${bracketLabel(last)}`);
+
+  for (let i = 1; i < brackets.length; i++) {
+    const prev = brackets[i - 1];
+    const next = brackets[i];
+    if (next.bracketMin > prev.bracketMax) {
+      issues.push(`gap between ${bracketLabel(prev)} and ${bracketLabel(next)}`);
+    } else if (next.bracketMin < prev.bracketMax) {
+      issues.push(`${bracketLabel(prev)} overlaps ${bracketLabel(next)}`);
+    }
+  }
+  return issues;
+}
+
+/**
+ * Group parsed markets into their events, brackets lowest first, with the
+ * partition checked. Events whose brackets do not partition the line are
+ * logged; they still get directional signals but no baskets.
+ */
+export function groupEvents(markets: ParsedMarket[]): WeatherEvent[] {
+  const byEvent = new Map<string, ParsedMarket[]>();
+  for (const m of markets) {
+    const list = byEvent.get(m.eventId) ?? [];
+    list.push(m);
+    byEvent.set(m.eventId, list);
+  }
+
+  const events: WeatherEvent[] = [];
+  for (const [id, list] of byEvent) {
+    const brackets = [...list].sort((a, b) => a.bracketMin - b.bracketMin || a.bracketMax - b.bracketMax);
+    const first = brackets[0];
+    const event: WeatherEvent = {
+      id,
+      city: first.city,
+      date: first.date,
+      metric: first.metric,
+      unit: first.unit,
+      negRisk: brackets.every((b) => b.negRisk),
+      brackets,
+      partitionIssues: partitionIssues(brackets),
+    };
+    if (event.partitionIssues.length > 0) {
+      logger.debug(
+        { event: id, city: event.city, date: event.date, metric: event.metric, issues: event.partitionIssues },
+        "Event brackets do not partition the temperature line",
+      );
+    }
+    events.push(event);
+  }
+  return events;
+}
@@ -1,9 +1,10 @@
 import { logger } from "../logger.js";
 import { fetchWithRetry } from "../utils/retry.js";
 import type { Signal, Position, AppConfig } from "../types.js";
-import { fetchOrderBook } from "./orderbook.js";
+import { fetchOrderBook, walkAsks } from "./orderbook.js";
 
 const MIN_LIQUIDITY_USDC = 500;
+const MIN_ORDER_USDC = 0.5; // as signals: smaller fills are not worth the order
 
 // Paper trade execution — logs what would have been traded.
 export function executePaper(signal: Signal): Position {
@@ -23,6 +24,7 @@ export function executePaper(signal: Signal): Position {
     potentialPayout: signal.size / signal.marketPrice,
     modelProbability: signal.modelProbability,
     edge: signal.edge,
+    leadTimeHours: signal.leadTimeHours,
     status: "open",
     entryTime: Date.now(),
   };
@@ -196,15 +198,32 @@ export async function executeLive(signal: Signal, config: AppConfig): Promise<Po
     throw new Error(`Insufficient liquidity: $${book.askDepthUsdc.toFixed(0)} (min: $${MIN_LIQUIDITY_USDC})`);
   }
 
-  // Use best ask price if available and better than signal price
   let limitPrice = signal.marketPrice;
-  if (book && book.bestAsk > 0 && book.bestAsk <= signal.marketPrice * 1.02) {
-    limitPrice = book.bestAsk;
+  let entryPrice: number;
+  let size = signal.size;
+  let tokenSize: number;
+  if (signal.fill) {
+    // Sized off an ask walk: re-walk the fresh book up to the same worst
+    // level and sweep it with a limit there
+    if (!book) throw new Error("Order book unavailable");
+    const fill = walkAsks(book.asks, signal.size, signal.fill.worstPrice);
+    if (fill.usdc < MIN_ORDER_USDC) {
+      throw new Error(`Book moved: $${fill.usdc.toFixed(2)} left at or under ${(signal.fill.worstPrice * 100).toFixed(1)}¢`);
+    }
+    limitPrice = signal.fill.worstPrice;
+    entryPrice = fill.vwap;
+    size = Math.floor(fill.usdc * 100) / 100;
+    tokenSize = Math.floor(fill.shares);
+  } else {
+    // Use best ask price if available and better than signal price
+    if (book && book.bestAsk > 0 && book.bestAsk <= signal.marketPrice * 1.02) {
+      limitPrice = book.bestAsk;
+    }
+    entryPrice = limitPrice;
+    // Calculate size in tokens (USDC amount / price = tokens)
+    tokenSize = Math.floor(signal.size / limitPrice);
   }
 
-  // Calculate size in tokens (USDC amount / price = tokens)
-  const tokenSize = Math.floor(signal.size / limitPrice);
-
   logger.info(
     {
       city: signal.market.city,
@@ -212,7 +231,7 @@ export async function executeLive(signal: Signal, config: AppConfig): Promise<Po
       side: signal.side,
       tokenId: tokenId.slice(0, 12) + "...",
       price: limitPrice.toFixed(3),
-      size: `$${signal.size.toFixed(2)}`,
+      size: `$${size.toFixed(2)}`,
       tokens: tokenSize,
     },
     "Placing LIVE order",
@@ -241,11 +260,12 @@ export async function executeLive(signal: Signal, config: AppConfig): Promise<Po
     bracketMax: signal.market.bracketMax,
     bracketType: signal.market.bracketType,
     side: signal.side,
-    entryPrice: limitPrice,
-    size: signal.size,
-    potentialPayout: signal.size / limitPrice,
+    entryPrice,
+    size,
+    potentialPayout: size / entryPrice,
     modelProbability: signal.modelProbability,
     edge: signal.edge,
+    leadTimeHours: signal.leadTimeHours,
     status: "open",
     entryTime: Date.now(),
     orderId: result?.orderID ?? result?.order_id ?? undefined,
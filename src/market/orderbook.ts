@@ -1,10 +1,19 @@
 import { logger } from "../logger.js";
 import { fetchWithRetry } from "../utils/retry.js";
+import type { BookFill } from "../types.js";
 
 const CLOB_API = "https://clob.polymarket.com";
 
+// One price level; size is in shares (tokens), not USDC
+export interface BookLevel {
+  price: number;
+  size: number;
+}
+
 export interface OrderBookSummary {
   tokenId: string;
+  bids: BookLevel[]; // best (highest) first
+  asks: BookLevel[]; // best (lowest) first
   bestBid: number;
   bestAsk: number;
   bidDepthUsdc: number;
@@ -12,6 +21,59 @@ export interface OrderBookSummary {
   spread: number;
 }
 
+/**
+ * Buy up to `usdc` worth from the asks (best first), taking levels in order
+ * and stopping at the first priced above `maxPrice`. The fill may come up
+ * short of `usdc` when the book is thin or the cap stops it.
+ */
+export function walkAsks(asks: BookLevel[], usdc: number, maxPrice = 1): BookFill {
+  let spent = 0;
+  let shares = 0;
+  let levels = 0;
+  let worstPrice = 0;
+
+  for (const level of asks) {
+    if (level.price > maxPrice || spent >= usdc) break;
+    const take = Math.min(level.size, (usdc - spent) / level.price);
+    if (take <= 0) break;
+    spent += take * level.price;
+    shares += take;
+    levels++;
+    worstPrice = level.price;
+  }
+
+  return {
+    usdc: spent,
+    shares,
+    vwap: shares > 0 ? spent / shares : 0,
+    bestAsk: asks[0]?.price ?? 1,
+    worstPrice,
+    levels,
+  };
+}
+
+/**
+ * Summary of a token's book from its levels in any order: levels sorted
+ * best first, with best prices, depth and spread.
+ */
+export function summarizeBook(tokenId: string, bids: BookLevel[], asks: BookLevel[]): OrderBookSummary {
+  const sortedBids = [...bids].sort((a, b) => b.price - a.price);
+  const sortedAsks = [...asks].sort((a, b) => a.price - b.price);
+  const bestBid = sortedBids[0]?.price ?? 0;
+  const bestAsk = sortedAsks[0]?.price ?? 1;
+
+  return {
+    tokenId,
+    bids: sortedBids,
+    asks: sortedAsks,
+    bestBid,
+    bestAsk,
+    bidDepthUsdc: sortedBids.reduce((sum, b) => sum + b.price * b.size, 0),
+    askDepthUsdc: sortedAsks.reduce((sum, a) => sum + a.price * a.size, 0),
+    spread: bestAsk - bestBid,
+  };
+}
+
 /**
  * Fetch order book for a token from the CLOB API.
  */
@@ -26,22 +88,11 @@ export async function fetchOrderBook(tokenId: string): Promise<OrderBookSummary
 
     const data = (await res.json()) as OrderBookResponse;
 
-    const bids = (data.bids ?? []).map((o) => ({ price: Number(o.price), size: Number(o.size) }));
-    const asks = (data.asks ?? []).map((o) => ({ price: Number(o.price), size: Number(o.size) }));
-
-    const bestBid = bids.length > 0 ? Math.max(...bids.map((b) => b.price)) : 0;
-    const bestAsk = asks.length > 0 ? Math.min(...asks.map((a) => a.price)) : 1;
-    const bidDepthUsdc = bids.reduce((sum, b) => sum + b.price * b.size, 0);
-    const askDepthUsdc = asks.reduce((sum, a) => sum + a.price * a.size, 0);
-
-    return {
+    return summarizeBook(
       tokenId,
-      bestBid,
-      bestAsk,
-      bidDepthUsdc,
-      askDepthUsdc,
-      spread: bestAsk - bestBid,
-    };
+      (data.bids ?? []).map((o) => ({ price: Number(o.price), size: Number(o.size) })),
+      (data.asks ?? []).map((o) => ({ price: Number(o.price), size: Number(o.size) })),
+    );
   } catch (err) {
     logger.error({ tokenId, err }, "Order book error");
     return null;
@@ -1,6 +1,6 @@
 import { logger } from "../logger.js";
-import { CITY_ALIASES } from "../config.js";
-import type { RawMarket, ParsedMarket } from "../types.js";
+import { CITY_ALIASES, getCity } from "../config.js";
+import type { RawMarket, ParsedMarket, TempUnit } from "../types.js";
 
 const MONTHS: Record<string, string> = {
   january: "01", february: "02", march: "03", april: "04",
@@ -16,16 +16,24 @@ const MONTHS: Record<string, string> = {
  * "Will the highest temperature in New York City be 31°F or below on February 16?"
  * "Will the highest temperature in New York City be between 32-33°F on February 16?"
  * "Will the highest temperature in New York City be 46°F or higher on February 16?"
+ * "Will the lowest temperature in Chicago be between 18-19°F on February 16?"
+ * "Will the highest temperature in London be 14°C on October 5?"
+ *
+ * "highest" markets settle on the daily maximum, "lowest" on the minimum.
+ * °C markets use single-degree buckets and can go negative.
  */
 
 // "be X°F or below on DATE"
-const RE_OR_BELOW = /highest\s+temperature\s+in\s+(.+?)\s+be\s+(\d+)\s*°?\s*F?\s+or\s+below\s+on\s+(\w+\s+\d+)/i;
+const RE_OR_BELOW = /(highest|lowest)\s+temperature\s+in\s+(.+?)\s+be\s+(-?\d+)\s*°?\s*([FC])?\s+or\s+below\s+on\s+(\w+\s+\d+)/i;
 
 // "be between X-Y°F on DATE"
-const RE_BETWEEN = /highest\s+temperature\s+in\s+(.+?)\s+be\s+between\s+(\d+)\s*-\s*(\d+)\s*°?\s*F?\s+on\s+(\w+\s+\d+)/i;
+const RE_BETWEEN = /(highest|lowest)\s+temperature\s+in\s+(.+?)\s+be\s+between\s+(-?\d+)\s*-\s*(-?\d+)\s*°?\s*([FC])?\s+on\s+(\w+\s+\d+)/i;
 
 // "be X°F or higher on DATE"
-const RE_OR_HIGHER = /highest\s+temperature\s+in\s+(.+?)\s+be\s+(\d+)\s*°?\s*F?\s+or\s+higher\s+on\s+(\w+\s+\d+)/i;
+const RE_OR_HIGHER = /(highest|lowest)\s+temperature\s+in\s+(.+?)\s+be\s+(-?\d+)\s*°?\s*([FC])?\s+or\s+higher\s+on\s+(\w+\s+\d+)/i;
+
+// "be X°C on DATE" (single-degree bucket)
+const RE_EXACT = /(highest|lowest)\s+temperature\s+in\s+(.+?)\s+be\s+(-?\d+)\s*°?\s*([FC])?\s+on\s+(\w+\s+\d+)/i;
 
 export function parseMarketTitle(raw: RawMarket): ParsedMarket | null {
   const title = raw.title;
@@ -33,37 +41,74 @@ export function parseMarketTitle(raw: RawMarket): ParsedMarket | null {
   // Try "between X-Y°F"
   let m = title.match(RE_BETWEEN);
   if (m) {
-    const citySlug = matchCity(m[1]);
+    const citySlug = matchCity(m[2]);
     if (!citySlug) return logUnparsed(title, "city");
-    const date = parseDate(m[4]);
+    const unit = matchUnit(citySlug, m[5]);
+    if (!unit) return logUnparsed(title, "unit");
+    const date = parseDate(m[6]);
     if (!date) return logUnparsed(title, "date");
-    return buildParsed(raw, citySlug, date, "high", "between", Number(m[2]), Number(m[3]) + 1);
+    return buildParsed(raw, citySlug, date, parseMetric(m[1]), unit, "between", Number(m[3]), Number(m[4]) + 1);
   }
 
   // Try "X°F or below"
   m = title.match(RE_OR_BELOW);
   if (m) {
-    const citySlug = matchCity(m[1]);
+    const citySlug = matchCity(m[2]);
     if (!citySlug) return logUnparsed(title, "city");
-    const date = parseDate(m[3]);
+    const unit = matchUnit(citySlug, m[4]);
+    if (!unit) return logUnparsed(title, "unit");
+    const date = parseDate(m[5]);
     if (!date) return logUnparsed(title, "date");
-    return buildParsed(raw, citySlug, date, "high", "below", -Infinity, Number(m[2]) + 1);
+    return buildParsed(raw, citySlug, date, parseMetric(m[1]), unit, "below", -Infinity, Number(m[3]) + 1);
   }
 
   // Try "X°F or higher"
   m = title.match(RE_OR_HIGHER);
   if (m) {
-    const citySlug = matchCity(m[1]);
+    const citySlug = matchCity(m[2]);
+    if (!citySlug) return logUnparsed(title, "city");
+    const unit = matchUnit(citySlug, m[4]);
+    if (!unit) return logUnparsed(title, "unit");
+    const date = parseDate(m[5]);
+    if (!date) return logUnparsed(title, "date");
+    return buildParsed(raw, citySlug, date, parseMetric(m[1]), unit, "above", Number(m[3]), Infinity);
+  }
+
+  // Try "X°C" (exact degree)
+  m = title.match(RE_EXACT);
+  if (m) {
+    const citySlug = matchCity(m[2]);
     if (!citySlug) return logUnparsed(title, "city");
-    const date = parseDate(m[3]);
+    const unit = matchUnit(citySlug, m[4]);
+    if (!unit) return logUnparsed(title, "unit");
+    const date = parseDate(m[5]);
     if (!date) return logUnparsed(title, "date");
-    return buildParsed(raw, citySlug, date, "high", "above", Number(m[2]), Infinity);
+    return buildParsed(raw, citySlug, date, parseMetric(m[1]), unit, "between", Number(m[3]), Number(m[3]) + 1);
   }
 
   return logUnparsed(title, "no pattern matched");
 }
 
-function matchCity(raw: string): string | null {
+function parseMetric(raw: string): "high" | "low" {
+  return raw.toLowerCase() === "lowest" ? "low" : "high";
+}
+
+/**
+ * The title's unit when it states one, else the city's. A title quoting a
+ * different unit than the city is configured for would be priced off the
+ * wrong ensemble, so it is rejected.
+ */
+function matchUnit(citySlug: string, raw: string | undefined): TempUnit | null {
+  const cityUnit = getCity(citySlug)?.unit ?? "F";
+  if (!raw) return cityUnit;
+  return raw.toUpperCase() === cityUnit ? cityUnit : null;
+}
+
+/**
+ * Enabled city slug for a place name as Polymarket writes it, via
+ * CITY_ALIASES (exact, then partial).
+ */
+export function matchCity(raw: string): string | null {
   const normalized = raw.trim().toLowerCase();
   // Direct match
   if (CITY_ALIASES[normalized]) return CITY_ALIASES[normalized];
@@ -91,6 +136,7 @@ function buildParsed(
   city: string,
   date: string,
   metric: "high" | "low",
+  unit: TempUnit,
   bracketType: "above" | "below" | "between",
   bracketMin: number,
   bracketMax: number,
@@ -101,6 +147,7 @@ function buildParsed(
     city,
     date,
     metric,
+    unit,
     bracketMin,
     bracketMax,
     bracketType,
@@ -108,6 +155,10 @@ function buildParsed(
     noTokenId: raw.tokens[1]?.tokenId ?? "",
     yesPrice: raw.tokens[0]?.price ?? 0,
     noPrice: raw.tokens[1]?.price ?? 0,
+    yesBid: raw.bestBid,
+    yesAsk: raw.bestAsk,
+    eventId: raw.eventId,
+    negRisk: raw.negRisk,
     volume: raw.volume,
     endDateIso: raw.endDateIso,
   };
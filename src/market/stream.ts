@@ -0,0 +1,272 @@
+import { appendFileSync, readFileSync } from "node:fs";
+import { logger } from "../logger.js";
+import type { ParsedMarket } from "../types.js";
+import { summarizeBook, type OrderBookSummary } from "./orderbook.js";
+
+// Real-time CLOB order books.
+//
+// The CLOB market channel pushes a full book for each subscribed token, then
+// level-by-level changes. Books are kept in memory per token so the daemon
+// can re-evaluate signals as soon as a price moves rather than on the next
+// Gamma poll. Every message received can be appended to a recording — JSONL,
+// one `{ "at": <ms>, "message": <as received> }` per line — and replayed
+// through the same handler, which is how tests drive the stream.
+
+const CLOB_WS = "wss://ws-subscriptions-clob.polymarket.com/ws/market";
+const PING_MS = 10_000; // the server drops sockets that go quiet
+const RECONNECT_MS = 5_000;
+const UPDATE_SETTLE_MS = 1_000; // a repricing arrives as a burst; wake once for it
+
+interface LocalBook {
+  bids: Map<number, number>; // price → size
+  asks: Map<number, number>;
+}
+
+export interface RecordedMessage {
+  at: number;
+  message: unknown;
+}
+
+export interface BookStore {
+  /** Apply one channel message (or array of them); returns the tokens whose best bid or ask moved. */
+  handle(message: unknown): string[];
+  book(tokenId: string): OrderBookSummary | null;
+  /** Drop every book — after a disconnect they can no longer be trusted. */
+  reset(): void;
+  /** Tokens whose top of book moved, once some have (after a settle window), or [] after `timeoutMs`. */
+  nextUpdate(timeoutMs: number): Promise<string[]>;
+}
+
+export interface MarketStream {
+  track(tokenIds: string[]): void;
+  close(): void;
+}
+
+interface LevelMessage {
+  price: string;
+  size: string;
+  side?: "BUY" | "SELL";
+  asset_id?: string;
+}
+
+interface ChannelMessage {
+  event_type?: string;
+  asset_id?: string;
+  bids?: LevelMessage[];
+  asks?: LevelMessage[];
+  buys?: LevelMessage[]; // older name for bids
+  sells?: LevelMessage[]; // older name for asks
+  changes?: LevelMessage[]; // price_change, one asset per message
+  price_changes?: LevelMessage[]; // price_change, asset per change
+}
+
+function levels(list: LevelMessage[] | undefined): Map<number, number> {
+  const map = new Map<number, number>();
+  for (const l of list ?? []) {
+    const size = Number(l.size);
+    if (size > 0) map.set(Number(l.price), size);
+  }
+  return map;
+}
+
+function best(side: Map<number, number>, pick: (...values: number[]) => number): number | null {
+  return side.size > 0 ? pick(...side.keys()) : null;
+}
+
+/**
+ * In-memory books fed by channel messages. `settleMs` is how long a burst
+ * of changes is collected before `nextUpdate` resolves.
+ */
+export function createBookStore(settleMs = UPDATE_SETTLE_MS): BookStore {
+  const books = new Map<string, LocalBook>();
+  const pending = new Set<string>();
+  let waiter: ((tokens: string[]) => void) | null = null;
+  let settleTimer: ReturnType<typeof setTimeout> | null = null;
+
+  function drain(): string[] {
+    const tokens = [...pending];
+    pending.clear();
+    return tokens;
+  }
+
+  function wake(): void {
+    if (!waiter || settleTimer) return;
+    settleTimer = setTimeout(() => {
+      settleTimer = null;
+      const resolve = waiter;
+      waiter = null;
+      resolve?.(drain());
+    }, settleMs);
+  }
+
+  function apply(msg: ChannelMessage, moved: Set<string>): void {
+    const top = (tokenId: string) => {
+      const b = books.get(tokenId);
+      return b ? `${best(b.bids, Math.max)}|${best(b.asks, Math.min)}` : "";
+    };
+
+    if (msg.event_type === "book" && msg.asset_id) {
+      const before = top(msg.asset_id);
+      books.set(msg.asset_id, { bids: levels(msg.bids ?? msg.buys), asks: levels(msg.asks ?? msg.sells) });
+      if (top(msg.asset_id) !== before) moved.add(msg.asset_id);
+      return;
+    }
+
+    if (msg.event_type === "price_change") {
+      const changes = msg.price_changes ?? (msg.changes ?? []).map((c) => ({ ...c, asset_id: msg.asset_id }));
+      for (const change of changes) {
+        const book = change.asset_id ? books.get(change.asset_id) : undefined;
+        if (!book || !change.side) continue; // changes before the snapshot are covered by it
+        const before = top(change.asset_id!);
+        const side = change.side === "BUY" ? book.bids : book.asks;
+        const size = Number(change.size);
+        if (size > 0) side.set(Number(change.price), size);
+        else side.delete(Number(change.price));
+        if (top(change.asset_id!) !== before) moved.add(change.asset_id!);
+      }
+    }
+    // tick_size_change, last_trade_price: nothing to keep
+  }
+
+  return {
+    handle(message: unknown): string[] {
+      const moved = new Set<string>();
+      for (const msg of Array.isArray(message) ? message : [message]) {
+        if (msg && typeof msg === "object") apply(msg as ChannelMessage, moved);
+      }
+      for (const token of moved) pending.add(token);
+      if (moved.size > 0) wake();
+      return [...moved];
+    },
+
+    book(tokenId: string): OrderBookSummary | null {
+      const b = books.get(tokenId);
+      if (!b) return null;
+      const toLevels = (side: Map<number, number>) => [...side].map(([price, size]) => ({ price, size }));
+      return summarizeBook(tokenId, toLevels(b.bids), toLevels(b.asks));
+    },
+
+    reset(): void {
+      books.clear();
+      pending.clear();
+    },
+
+    nextUpdate(timeoutMs: number): Promise<string[]> {
+      if (pending.size > 0) return Promise.resolve(drain());
+      return new Promise((resolve) => {
+        const timer = setTimeout(() => {
+          if (waiter !== finish) return;
+          waiter = null;
+          resolve([]);
+        }, timeoutMs);
+        const finish = (tokens: string[]) => {
+          clearTimeout(timer);
+          resolve(tokens);
+        };
+        waiter = finish;
+      });
+    },
+  };
+}
+
+/**
+ * Subscribe to the CLOB market channel and feed `store`. Tokens are added
+ * and dropped with `track` (the daemon passes every token of the latest
+ * scan). Reconnects after a drop, clearing the books until the new
+ * snapshots arrive. With `record`, every message is appended to that file.
+ */
+export function connectMarketStream(store: BookStore, options: { record?: string } = {}): MarketStream {
+  const tracked = new Set<string>();
+  let socket: WebSocket | null = null;
+  let ping: ReturnType<typeof setInterval> | null = null;
+  let closed = false;
+
+  function send(payload: object): void {
+    if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(payload));
+  }
+
+  function connect(): void {
+    if (closed || socket || tracked.size === 0) return;
+    const ws = new WebSocket(CLOB_WS);
+    socket = ws;
+
+    ws.addEventListener("open", () => {
+      ws.send(JSON.stringify({ type: "market", assets_ids: [...tracked] }));
+      ping = setInterval(() => ws.readyState === WebSocket.OPEN && ws.send("PING"), PING_MS);
+      logger.info({ tokens: tracked.size }, "Market stream connected");
+    });
+
+    ws.addEventListener("message", (event) => {
+      const text = String(event.data);
+      if (text === "PONG") return;
+      try {
+        const message = JSON.parse(text);
+        if (options.record) {
+          appendFileSync(options.record, JSON.stringify({ at: Date.now(), message } satisfies RecordedMessage) + "\n");
+        }
+        store.handle(message);
+      } catch (err) {
+        logger.warn({ err, message: text.slice(0, 200) }, "Market stream: unreadable message");
+      }
+    });
+
+    ws.addEventListener("close", (event) => {
+      if (ping) clearInterval(ping);
+      ping = null;
+      socket = null;
+      store.reset();
+      if (closed) return;
+      logger.warn({ code: event.code, reason: event.reason }, "Market stream closed — reconnecting");
+      setTimeout(connect, RECONNECT_MS);
+    });
+
+    ws.addEventListener("error", () => {
+      logger.warn("Market stream error");
+    });
+  }
+
+  return {
+    track(tokenIds: string[]): void {
+      const next = new Set(tokenIds);
+      const added = [...next].filter((t) => !tracked.has(t));
+      const dropped = [...tracked].filter((t) => !next.has(t));
+      for (const t of added) tracked.add(t);
+      for (const t of dropped) tracked.delete(t);
+
+      if (!socket) return connect();
+      if (added.length > 0) send({ operation: "subscribe", assets_ids: added });
+      if (dropped.length > 0) send({ operation: "unsubscribe", assets_ids: dropped });
+    },
+
+    close(): void {
+      closed = true;
+      socket?.close();
+    },
+  };
+}
+
+/**
+ * Feed a recording through `store` in order, as if received live. Returns
+ * the number of messages replayed.
+ */
+export function replayRecording(path: string, store: BookStore): number {
+  const lines = readFileSync(path, "utf-8").split("\n").filter((l) => l.trim() !== "");
+  for (const line of lines) {
+    store.handle((JSON.parse(line) as RecordedMessage).message);
+  }
+  return lines.length;
+}
+
+/**
+ * Markets with YES quotes from the live books where the stream has both
+ * sides: bid and ask from the book, price at the mid. Markets without a
+ * streamed book keep their Gamma prices.
+ */
+export function applyStreamQuotes(markets: ParsedMarket[], store: BookStore): ParsedMarket[] {
+  return markets.map((m) => {
+    const book = store.book(m.yesTokenId);
+    if (!book || book.bids.length === 0 || book.asks.length === 0) return m;
+    const mid = (book.bestBid + book.bestAsk) / 2;
+    return { ...m, yesBid: book.bestBid, yesAsk: book.bestAsk, yesPrice: mid, noPrice: 1 - mid };
+  });
+}
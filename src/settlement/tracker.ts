@@ -1,50 +1,145 @@
 import { logger } from "../logger.js";
 import { fetchWithRetry } from "../utils/retry.js";
-import { CITIES } from "../config.js";
+import { getCity } from "../config.js";
 import { getSettlement, upsertSettlement, settlePosition, getOpenPositions } from "../store/db.js";
 import { onSettlement } from "../engine/risk.js";
-import type { CLIReport, Position } from "../types.js";
+import { climateDate, climateDayWindow, dayBasis } from "../weather/climate-day.js";
+import { roundReported } from "../weather/probability.js";
+import { fetchAsosObservations } from "../weather/observations.js";
+import type { CityConfig, CLIReport, Position } from "../types.js";
+
+const MIN_METAR_OBS = 20; // roughly hourly; fewer means the day's record is incomplete
+// Delayed METARs and last-hour SPECIs keep reaching the archive after the
+// civil day ends; a day's record is only taken as final this long after
+const METAR_FINAL_AFTER_MS = 3 * 60 * 60 * 1000;
 
 /**
- * Fetch actual observed temps from Iowa State CLI API.
+ * One year of a station's CLI reports from the Iowa State archive, cached in
+ * the settlements table. Days with a missing high or low are skipped.
  * https://mesonet.agron.iastate.edu/json/cli.py?station=KNYC&year=2026
  */
+export async function fetchCLIYear(station: string, year: number): Promise<CLIReport[]> {
+  const url = `https://mesonet.agron.iastate.edu/json/cli.py?station=${station}&year=${year}`;
+
+  try {
+    const res = await fetchWithRetry(url, {}, 2, 2000);
+    if (!res.ok) {
+      logger.warn({ station, year, status: res.status }, "CLI API error");
+      return [];
+    }
+
+    const data = (await res.json()) as CLIApiResponse;
+    const reports: CLIReport[] = (data.results ?? []).flatMap((r) =>
+      typeof r.high === "number" && typeof r.low === "number"
+        ? [{ station: r.station, date: r.valid, high: r.high, low: r.low }]
+        : [],
+    );
+    for (const report of reports) upsertSettlement(report);
+    return reports;
+  } catch (err) {
+    logger.error({ station, year, err }, "CLI fetch failed");
+    return [];
+  }
+}
+
+/**
+ * Fetch actual observed temps from Iowa State CLI API.
+ */
 export async function fetchCLIReport(station: string, date: string): Promise<CLIReport | null> {
   // Check cache first
   const cached = getSettlement(station, date);
   if (cached) return cached;
 
-  const year = date.slice(0, 4);
-  const url = `https://mesonet.agron.iastate.edu/json/cli.py?station=${station}&year=${year}`;
+  await fetchCLIYear(station, Number(date.slice(0, 4)));
+  return getSettlement(station, date);
+}
 
+/**
+ * Daily max/min per local civil day over [start, end) from the station's
+ * METAR history, cached in the settlements table. Days with too few reports
+ * to trust, or that ended too recently to be final, are left out. Used to
+ * backfill metar-settled stations.
+ */
+export async function fetchMetarHistory(
+  station: string,
+  timezone: string,
+  start: number,
+  end: number,
+  now = Date.now(),
+): Promise<CLIReport[]> {
   try {
-    const res = await fetchWithRetry(url, {}, 2, 2000);
-    if (!res.ok) {
-      logger.warn({ station, status: res.status }, "CLI API error");
-      return null;
+    const byDate = new Map<string, number[]>();
+    for (const o of await fetchAsosObservations(station, start, end, "C")) {
+      const date = climateDate(o.time, timezone, "civil");
+      if (!byDate.has(date)) byDate.set(date, []);
+      byDate.get(date)!.push(o.temp);
     }
 
-    const data = (await res.json()) as CLIApiResponse;
-    if (!data.results) return null;
-
-    // Cache all results for this station
-    for (const r of data.results) {
-      const report: CLIReport = {
-        station: r.station,
-        date: r.valid,
-        high: r.high,
-        low: r.low,
-      };
+    const reports: CLIReport[] = [];
+    for (const [date, temps] of byDate) {
+      const { start: dayStart, end: dayEnd } = climateDayWindow(date, timezone, "civil");
+      if (temps.length < MIN_METAR_OBS || dayStart < start || dayEnd > end) continue; // partial day at the edges
+      if (now < dayEnd + METAR_FINAL_AFTER_MS) continue; // late reports may still arrive
+      const report = { station, date, high: roundReported(Math.max(...temps)), low: roundReported(Math.min(...temps)) };
       upsertSettlement(report);
+      reports.push(report);
     }
+    return reports;
+  } catch (err) {
+    logger.error({ station, err }, "METAR history fetch failed");
+    return [];
+  }
+}
 
-    return getSettlement(station, date);
+/**
+ * Daily max/min over the local civil day from the station's METAR history
+ * (Iowa State ASOS archive). International markets resolve on the station's
+ * Wunderground history, which is built from these same reports. Null until
+ * METAR_FINAL_AFTER_MS past the end of the day, so a position never settles
+ * on, and the settlements table never keeps, a record still filling in.
+ */
+export async function fetchMetarReport(
+  station: string,
+  date: string,
+  timezone: string,
+  now = Date.now(),
+): Promise<CLIReport | null> {
+  const cached = getSettlement(station, date);
+  if (cached) return cached;
+
+  const { start, end } = climateDayWindow(date, timezone, "civil");
+  if (now < end + METAR_FINAL_AFTER_MS) return null;
+
+  try {
+    const temps = (await fetchAsosObservations(station, start, end, "C")).map((o) => o.temp);
+    if (temps.length < MIN_METAR_OBS) {
+      logger.warn({ station, date, observations: temps.length }, "Incomplete METAR record");
+      return null;
+    }
+
+    const report: CLIReport = {
+      station,
+      date,
+      high: roundReported(Math.max(...temps)),
+      low: roundReported(Math.min(...temps)),
+    };
+    upsertSettlement(report);
+    return report;
   } catch (err) {
-    logger.error({ station, err }, "CLI fetch failed");
+    logger.error({ station, err }, "METAR fetch failed");
     return null;
   }
 }
 
+/**
+ * Settlement report for a city's climate day from its configured source.
+ */
+export function fetchSettlementReport(city: CityConfig, date: string): Promise<CLIReport | null> {
+  return city.settlementSource === "metar"
+    ? fetchMetarReport(city.iowaStation, date, city.timezone)
+    : fetchCLIReport(city.iowaStation, date);
+}
+
 /**
  * Check open positions against actual settlement data.
  */
@@ -56,15 +151,13 @@ export async function checkSettlements(): Promise<number> {
 
   for (const pos of openPositions) {
     // Find the city config to get the station ID
-    const city = CITIES.find((c) => c.slug === pos.city);
+    const city = getCity(pos.city);
     if (!city) continue;
 
-    // Only check positions whose date has passed
-    const posDate = new Date(pos.date);
-    const now = new Date();
-    if (posDate >= now) continue; // not yet settleable
+    // Only check positions whose climate day has ended
+    if (Date.now() < climateDayWindow(pos.date, city.timezone, dayBasis(city)).end) continue;
 
-    const report = await fetchCLIReport(city.iowaStation, pos.date);
+    const report = await fetchSettlementReport(city, pos.date);
     if (!report) continue;
 
     const actualTemp = pos.metric === "high" ? report.high : report.low;
@@ -83,7 +176,7 @@ export async function checkSettlements(): Promise<number> {
         city: pos.city,
         date: pos.date,
         side: pos.side,
-        actual: `${actualTemp}°F`,
+        actual: `${actualTemp}°${city.unit}`,
         outcome,
         pnl: `$${pnl.toFixed(2)}`,
       },
@@ -94,20 +187,25 @@ export async function checkSettlements(): Promise<number> {
   return settled;
 }
 
-function evaluateOutcome(pos: Position, actualTemp: number): "won" | "lost" {
-  let inBracket: boolean;
-
-  switch (pos.bracketType) {
+/**
+ * Whether a settled temperature resolves a bracket YES.
+ */
+export function isInBracket(
+  bracket: Pick<Position, "bracketType" | "bracketMin" | "bracketMax">,
+  actualTemp: number,
+): boolean {
+  switch (bracket.bracketType) {
     case "above":
-      inBracket = actualTemp >= pos.bracketMin;
-      break;
+      return actualTemp >= bracket.bracketMin;
     case "below":
-      inBracket = actualTemp < pos.bracketMax;
-      break;
+      return actualTemp < bracket.bracketMax;
     case "between":
-      inBracket = actualTemp >= pos.bracketMin && actualTemp < pos.bracketMax;
-      break;
+      return actualTemp >= bracket.bracketMin && actualTemp < bracket.bracketMax;
   }
+}
+
+function evaluateOutcome(pos: Position, actualTemp: number): "won" | "lost" {
+  const inBracket = isInBracket(pos, actualTemp);
 
   // YES wins if in bracket, NO wins if not in bracket
   if (pos.side === "YES") {
@@ -121,7 +219,7 @@ interface CLIApiResponse {
   results?: Array<{
     station: string;
     valid: string; // YYYY-MM-DD
-    high: number;
-    low: number;
+    high: number | "M";
+    low: number | "M";
   }>;
 }
@@ -1,6 +1,19 @@
 import { Database } from "bun:sqlite";
 import { initSchema } from "./schema.js";
-import type { Signal, Position, CLIReport } from "../types.js";
+import type {
+  ArbBasket,
+  Signal,
+  Position,
+  CLIReport,
+  EventComparison,
+  ForecastFetchState,
+  ForecastSnapshot,
+  ForecastPointKind,
+  BiasCoefficient,
+  CalibrationModel,
+  ModelWeight,
+  RunShift,
+} from "../types.js";
 import { logger } from "../logger.js";
 
 let db: Database;
@@ -15,32 +28,139 @@ export function getDb(): Database {
   return db;
 }
 
+/**
+ * Use `database` instead of the file-backed one, with the schema applied.
+ * Tests pass `new Database(":memory:")`.
+ */
+export function setDb(database: Database): void {
+  initSchema(database);
+  db = database;
+}
+
 // --- Signals ---
 
 export function insertSignal(signal: Signal): void {
   getDb().run(
-    `INSERT OR IGNORE INTO signals (id, condition_id, city, date, metric, bracket_type, bracket_min, bracket_max, side, model_probability, market_price, edge, size, kelly, confidence, created_at)
-     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    `INSERT OR IGNORE INTO signals (id, condition_id, city, date, metric, bracket_type, bracket_min, bracket_max, side, model_probability, market_price, edge, size, kelly, confidence, created_at, raw_probability, consensus_tier, momentum_shift, momentum_pattern, nws_temp, nws_source, nws_in_range, lead_time_hours)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
     [
       signal.id, signal.market.conditionId, signal.market.city, signal.market.date,
       signal.market.metric, signal.market.bracketType, signal.market.bracketMin, signal.market.bracketMax,
       signal.side, signal.modelProbability, signal.marketPrice, signal.edge,
       signal.size, signal.kelly, signal.confidence, signal.createdAt,
+      signal.rawProbability, signal.consensusTier,
+      signal.momentum?.probabilityShift ?? null, signal.momentum?.pattern ?? null,
+      signal.nws?.temp ?? null, signal.nws?.source ?? null, signal.nws ? (signal.nws.inRange ? 1 : 0) : null,
+      signal.leadTimeHours,
     ],
   );
 }
 
+export interface StoredSignal {
+  city: string;
+  date: string;
+  metric: "high" | "low";
+  bracketType: "above" | "below" | "between";
+  bracketMin: number;
+  bracketMax: number;
+  side: "YES" | "NO";
+  rawProbability: number; // YES side
+  tier: string;
+  createdAt: number;
+}
+
+/**
+ * Signals with the raw YES probability they were generated from. Rows from
+ * before raw_probability existed fall back to model_probability, which was
+ * uncalibrated then.
+ */
+export function getStoredSignals(): StoredSignal[] {
+  const rows = getDb().query(`SELECT * FROM signals ORDER BY created_at ASC`).all() as any[];
+  return rows.map((row) => ({
+    city: row.city,
+    date: row.date,
+    metric: row.metric,
+    bracketType: row.bracket_type,
+    bracketMin: row.bracket_min,
+    bracketMax: row.bracket_max,
+    side: row.side,
+    rawProbability: row.raw_probability ?? (row.side === "YES" ? row.model_probability : 1 - row.model_probability),
+    tier: row.consensus_tier ?? row.confidence,
+    createdAt: row.created_at,
+  }));
+}
+
+// --- Arbitrage baskets ---
+
+export function upsertArbBasket(basket: ArbBasket): void {
+  getDb().run(
+    `INSERT INTO arb_baskets (event_id, side, city, date, metric, legs, cost, payout, profit, sets, size, first_seen_at, last_seen_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT (event_id, side) DO UPDATE SET
+       legs = excluded.legs, cost = excluded.cost, payout = excluded.payout, profit = excluded.profit,
+       sets = excluded.sets, size = excluded.size, last_seen_at = excluded.last_seen_at`,
+    [
+      basket.eventId, basket.side, basket.city, basket.date, basket.metric, JSON.stringify(basket.legs),
+      basket.cost, basket.payout, basket.profit, basket.sets, basket.size, basket.createdAt, basket.createdAt,
+    ],
+  );
+}
+
+// --- Event comparisons ---
+
+export function upsertEventComparisons(comparisons: EventComparison[]): void {
+  const db = getDb();
+  db.transaction(() => {
+    for (const c of comparisons) {
+      db.run(
+        `INSERT OR REPLACE INTO event_comparisons (event_id, city, date, metric, unit, market_mean, market_sd, market_skew, model_mean, model_sd, model_skew, kl_divergence, mean_diff, spread_diff, structure, brackets, computed_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          c.eventId, c.city, c.date, c.metric, c.unit,
+          c.market.mean, c.market.sd, c.market.skew, c.model.mean, c.model.sd, c.model.skew,
+          c.klDivergence, c.meanDiff, c.spreadDiff, c.structure, JSON.stringify(c.brackets), c.computedAt,
+        ],
+      );
+    }
+  })();
+}
+
+/**
+ * Stored comparisons for events on or after `fromDate`, most divergent first.
+ */
+export function getEventComparisons(fromDate: string): EventComparison[] {
+  const rows = getDb()
+    .query(`SELECT * FROM event_comparisons WHERE date >= ? ORDER BY kl_divergence DESC`)
+    .all(fromDate) as any[];
+  return rows.map((row) => ({
+    eventId: row.event_id,
+    city: row.city,
+    date: row.date,
+    metric: row.metric,
+    unit: row.unit,
+    market: { mean: row.market_mean, sd: row.market_sd, skew: row.market_skew },
+    model: { mean: row.model_mean, sd: row.model_sd, skew: row.model_skew },
+    klDivergence: row.kl_divergence,
+    meanDiff: row.mean_diff,
+    spreadDiff: row.spread_diff,
+    structure: row.structure,
+    brackets: JSON.parse(row.brackets),
+    computedAt: row.computed_at,
+  }));
+}
+
 // --- Positions ---
 
 export function insertPosition(pos: Position): void {
   getDb().run(
-    `INSERT OR IGNORE INTO positions (id, signal_id, condition_id, city, date, metric, bracket_type, bracket_min, bracket_max, side, entry_price, size, potential_payout, model_probability, edge, status, entry_time, order_id)
-     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    `INSERT OR IGNORE INTO positions (id, signal_id, condition_id, city, date, metric, bracket_type, bracket_min, bracket_max, side, entry_price, size, potential_payout, model_probability, edge, status, entry_time, order_id, lead_time_hours)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
     [
       pos.id, pos.signalId, pos.conditionId, pos.city, pos.date,
       pos.metric, pos.bracketType, pos.bracketMin, pos.bracketMax,
       pos.side, pos.entryPrice, pos.size, pos.potentialPayout,
       pos.modelProbability, pos.edge, pos.status, pos.entryTime, pos.orderId ?? null,
+      pos.leadTimeHours ?? null,
     ],
   );
 }
@@ -62,6 +182,7 @@ function mapRow(row: any): Position {
     potentialPayout: row.potential_payout,
     modelProbability: row.model_probability,
     edge: row.edge,
+    leadTimeHours: row.lead_time_hours ?? undefined,
     status: row.status,
     entryTime: row.entry_time,
     settleTime: row.settle_time,
@@ -96,6 +217,12 @@ export function upsertSettlement(report: CLIReport): void {
   );
 }
 
+export function getSettlements(station: string): CLIReport[] {
+  return (getDb().query(
+    `SELECT station, date, high, low FROM settlements WHERE station = ? ORDER BY date`,
+  ).all(station) as any[]).map((row) => ({ station: row.station, date: row.date, high: row.high, low: row.low }));
+}
+
 export function getSettlement(station: string, date: string): CLIReport | null {
   const row = getDb().query(
     `SELECT station, date, high, low FROM settlements WHERE station = ? AND date = ?`,
@@ -103,6 +230,223 @@ export function getSettlement(station: string, date: string): CLIReport | null {
   return row ? { station: row.station, date: row.date, high: row.high, low: row.low } : null;
 }
 
+// --- Forecasts ---
+
+export function upsertForecastSnapshot(snapshot: ForecastSnapshot): void {
+  getDb().run(
+    `INSERT OR REPLACE INTO forecasts (provider, city, model_run, point_kind, fetched_at, point, payload)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    [
+      snapshot.provider,
+      snapshot.city,
+      snapshot.modelRun,
+      snapshot.point?.kind ?? "centroid",
+      snapshot.fetchedAt,
+      snapshot.point ? JSON.stringify(snapshot.point) : null,
+      JSON.stringify(snapshot.payload),
+    ],
+  );
+}
+
+function mapForecastRow(row: any): ForecastSnapshot {
+  return {
+    provider: row.provider,
+    city: row.city,
+    modelRun: row.model_run,
+    fetchedAt: row.fetched_at,
+    pointKind: row.point_kind,
+    point: row.point ? JSON.parse(row.point) : undefined,
+    payload: JSON.parse(row.payload),
+  };
+}
+
+export function getLatestForecastSnapshot(
+  provider: string,
+  city: string,
+  pointKind: ForecastPointKind,
+): ForecastSnapshot | null {
+  const row = getDb().query(
+    `SELECT * FROM forecasts WHERE provider = ? AND city = ? AND point_kind = ?
+     ORDER BY model_run DESC, fetched_at DESC LIMIT 1`,
+  ).get(provider, city, pointKind) as any;
+  return row ? mapForecastRow(row) : null;
+}
+
+export function getForecastSnapshots(provider: string, city: string): ForecastSnapshot[] {
+  return (getDb().query(
+    `SELECT * FROM forecasts WHERE provider = ? AND city = ? ORDER BY model_run`,
+  ).all(provider, city) as any[]).map(mapForecastRow);
+}
+
+/**
+ * The `limit` most recent runs for a provider/city at one forecast point,
+ * newest first.
+ */
+export function getRecentForecastSnapshots(
+  provider: string,
+  city: string,
+  pointKind: ForecastPointKind,
+  limit: number,
+): ForecastSnapshot[] {
+  return (getDb().query(
+    `SELECT * FROM forecasts WHERE provider = ? AND city = ? AND point_kind = ?
+     ORDER BY model_run DESC LIMIT ?`,
+  ).all(provider, city, pointKind, limit) as any[]).map(mapForecastRow);
+}
+
+// --- Forecast fetches ---
+
+/**
+ * Record an ensemble fetch attempt: `error` null for a success. The other
+ * outcome's timestamp is kept.
+ */
+export function recordForecastFetch(provider: string, city: string, error: string | null, at = Date.now()): void {
+  getDb().run(
+    error === null
+      ? `INSERT INTO forecast_fetches (provider, city, last_success_at) VALUES (?, ?, ?)
+         ON CONFLICT (provider, city) DO UPDATE SET last_success_at = excluded.last_success_at`
+      : `INSERT INTO forecast_fetches (provider, city, last_error_at, last_error) VALUES (?, ?, ?, ?)
+         ON CONFLICT (provider, city) DO UPDATE SET last_error_at = excluded.last_error_at, last_error = excluded.last_error`,
+    error === null ? [provider, city, at] : [provider, city, at, error],
+  );
+}
+
+export function getForecastFetchStates(): ForecastFetchState[] {
+  return (getDb().query(`SELECT * FROM forecast_fetches ORDER BY provider, city`).all() as any[]).map((row) => ({
+    provider: row.provider,
+    city: row.city,
+    lastSuccessAt: row.last_success_at,
+    lastErrorAt: row.last_error_at,
+    lastError: row.last_error,
+  }));
+}
+
+// --- Run shifts ---
+
+export function insertRunShifts(shifts: RunShift[]): void {
+  const db = getDb();
+  db.transaction(() => {
+    for (const s of shifts) {
+      db.run(
+        `INSERT OR REPLACE INTO run_shifts (provider, city, date, metric, previous_run, model_run, previous_mean, mean, mean_shift, spread_shift, recorded_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [s.provider, s.city, s.date, s.metric, s.previousRun, s.modelRun, s.previousMean, s.mean, s.meanShift, s.spreadShift, s.recordedAt],
+      );
+    }
+  })();
+}
+
+export function getRunShiftsSince(since: number): RunShift[] {
+  return (getDb().query(
+    `SELECT * FROM run_shifts WHERE recorded_at >= ? ORDER BY recorded_at`,
+  ).all(since) as any[]).map((row) => ({
+    provider: row.provider,
+    city: row.city,
+    date: row.date,
+    metric: row.metric,
+    previousRun: row.previous_run,
+    modelRun: row.model_run,
+    previousMean: row.previous_mean,
+    mean: row.mean,
+    meanShift: row.mean_shift,
+    spreadShift: row.spread_shift,
+    recordedAt: row.recorded_at,
+  }));
+}
+
+// --- Bias coefficients ---
+
+export function replaceBiasCoefficients(coefs: BiasCoefficient[]): void {
+  const db = getDb();
+  db.transaction(() => {
+    db.run(`DELETE FROM bias_coefficients`);
+    for (const c of coefs) {
+      db.run(
+        `INSERT INTO bias_coefficients (station, model, metric, lead_days, season, intercept, slope, samples, rmse_before, rmse_after, fitted_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [c.station, c.model, c.metric, c.leadDays, c.season, c.intercept, c.slope, c.samples, c.rmseBefore, c.rmseAfter, c.fittedAt],
+      );
+    }
+  })();
+}
+
+export function getBiasCoefficients(): BiasCoefficient[] {
+  return (getDb().query(
+    `SELECT * FROM bias_coefficients ORDER BY station, model, metric, season, lead_days`,
+  ).all() as any[]).map((row) => ({
+    station: row.station,
+    model: row.model,
+    metric: row.metric,
+    leadDays: row.lead_days,
+    season: row.season,
+    intercept: row.intercept,
+    slope: row.slope,
+    samples: row.samples,
+    rmseBefore: row.rmse_before,
+    rmseAfter: row.rmse_after,
+    fittedAt: row.fitted_at,
+  }));
+}
+
+// --- Model weights ---
+
+export function replaceModelWeights(weights: ModelWeight[]): void {
+  const db = getDb();
+  db.transaction(() => {
+    db.run(`DELETE FROM model_weights`);
+    for (const w of weights) {
+      db.run(
+        `INSERT INTO model_weights (city, lead_days, model, weight, crps, mixture_crps, default_crps, samples, fitted_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [w.city, w.leadDays, w.model, w.weight, w.crps, w.mixtureCrps, w.defaultCrps, w.samples, w.fittedAt],
+      );
+    }
+  })();
+}
+
+export function getModelWeights(): ModelWeight[] {
+  return (getDb().query(
+    `SELECT * FROM model_weights ORDER BY city, lead_days, model`,
+  ).all() as any[]).map((row) => ({
+    city: row.city,
+    leadDays: row.lead_days,
+    model: row.model,
+    weight: row.weight,
+    crps: row.crps,
+    mixtureCrps: row.mixture_crps,
+    defaultCrps: row.default_crps,
+    samples: row.samples,
+    fittedAt: row.fitted_at,
+  }));
+}
+
+// --- Calibration ---
+
+export function replaceCalibrationModels(models: CalibrationModel[]): void {
+  const db = getDb();
+  db.transaction(() => {
+    db.run(`DELETE FROM calibration_models`);
+    for (const m of models) {
+      db.run(
+        `INSERT INTO calibration_models (tier, lead_bucket, method, params, samples, fitted_at)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [m.tier, m.leadBucket, m.method, JSON.stringify(m.params), m.samples, m.fittedAt],
+      );
+    }
+  })();
+}
+
+export function getCalibrationModels(): CalibrationModel[] {
+  return (getDb().query(`SELECT * FROM calibration_models`).all() as any[]).map((row) => ({
+    tier: row.tier,
+    leadBucket: row.lead_bucket,
+    method: row.method,
+    params: JSON.parse(row.params),
+    samples: row.samples,
+    fittedAt: row.fitted_at,
+  }));
+}
+
 // --- Stats ---
 
 export function getStats(): { totalTrades: number; wins: number; losses: number; totalPnl: number } {
@@ -1,5 +1,14 @@
 import { Database } from "bun:sqlite";
 
+// CREATE TABLE IF NOT EXISTS never alters an existing table, so columns added
+// after a table first shipped go through here.
+function addColumnIfMissing(db: Database, table: string, column: string, type: string): void {
+  const columns = db.query(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+  if (!columns.some((c) => c.name === column)) {
+    db.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`);
+  }
+}
+
 export function initSchema(db: Database): void {
   db.run(`
     CREATE TABLE IF NOT EXISTS signals (
@@ -21,6 +30,14 @@ export function initSchema(db: Database): void {
       created_at INTEGER NOT NULL
     )
   `);
+  addColumnIfMissing(db, "signals", "raw_probability", "REAL"); // YES side, pre-calibration
+  addColumnIfMissing(db, "signals", "consensus_tier", "TEXT");
+  addColumnIfMissing(db, "signals", "momentum_shift", "REAL"); // YES probability, latest run vs previous
+  addColumnIfMissing(db, "signals", "momentum_pattern", "TEXT");
+  addColumnIfMissing(db, "signals", "nws_temp", "REAL"); // NULL = NWS did not participate
+  addColumnIfMissing(db, "signals", "nws_source", "TEXT"); // hourly | period
+  addColumnIfMissing(db, "signals", "nws_in_range", "INTEGER");
+  addColumnIfMissing(db, "signals", "lead_time_hours", "REAL");
 
   db.run(`
     CREATE TABLE IF NOT EXISTS positions (
@@ -47,6 +64,7 @@ export function initSchema(db: Database): void {
       order_id TEXT
     )
   `);
+  addColumnIfMissing(db, "positions", "lead_time_hours", "REAL"); // at entry
 
   db.run(`
     CREATE TABLE IF NOT EXISTS settlements (
@@ -59,4 +77,141 @@ export function initSchema(db: Database): void {
       UNIQUE(station, date)
     )
   `);
+
+  // Forecast snapshots, one row per provider/city/model run/forecast point.
+  // Lets one-shot commands (cron scan) reuse a run instead of refetching
+  // every minute, and keeps station and centroid runs side by side.
+  db.run(`
+    CREATE TABLE IF NOT EXISTS forecasts (
+      provider TEXT NOT NULL,
+      city TEXT NOT NULL,
+      model_run INTEGER NOT NULL,
+      point_kind TEXT NOT NULL,
+      fetched_at INTEGER NOT NULL,
+      point TEXT,
+      payload TEXT NOT NULL,
+      PRIMARY KEY (provider, city, model_run, point_kind)
+    )
+  `);
+
+  // Run-to-run movement of each city/date distribution, written when a new
+  // model run replaces the previous one
+  db.run(`
+    CREATE TABLE IF NOT EXISTS run_shifts (
+      provider TEXT NOT NULL,
+      city TEXT NOT NULL,
+      date TEXT NOT NULL,
+      metric TEXT NOT NULL,
+      previous_run INTEGER NOT NULL,
+      model_run INTEGER NOT NULL,
+      previous_mean REAL NOT NULL,
+      mean REAL NOT NULL,
+      mean_shift REAL NOT NULL,
+      spread_shift REAL NOT NULL,
+      recorded_at INTEGER NOT NULL,
+      PRIMARY KEY (provider, city, date, metric, model_run)
+    )
+  `);
+
+  // Event-level arbitrage baskets, one row per event and side; a basket seen
+  // again on a later scan updates its prices and last_seen_at
+  db.run(`
+    CREATE TABLE IF NOT EXISTS arb_baskets (
+      event_id TEXT NOT NULL,
+      side TEXT NOT NULL,
+      city TEXT NOT NULL,
+      date TEXT NOT NULL,
+      metric TEXT NOT NULL,
+      legs TEXT NOT NULL,
+      cost REAL NOT NULL,
+      payout REAL NOT NULL,
+      profit REAL NOT NULL,
+      sets INTEGER NOT NULL,
+      size REAL NOT NULL,
+      first_seen_at INTEGER NOT NULL,
+      last_seen_at INTEGER NOT NULL,
+      PRIMARY KEY (event_id, side)
+    )
+  `);
+
+  // Market-implied vs model distribution per event, latest scan only
+  db.run(`
+    CREATE TABLE IF NOT EXISTS event_comparisons (
+      event_id TEXT PRIMARY KEY,
+      city TEXT NOT NULL,
+      date TEXT NOT NULL,
+      metric TEXT NOT NULL,
+      unit TEXT NOT NULL,
+      market_mean REAL NOT NULL,
+      market_sd REAL NOT NULL,
+      market_skew REAL NOT NULL,
+      model_mean REAL NOT NULL,
+      model_sd REAL NOT NULL,
+      model_skew REAL NOT NULL,
+      kl_divergence REAL NOT NULL,
+      mean_diff REAL NOT NULL,
+      spread_diff REAL NOT NULL,
+      structure TEXT NOT NULL,
+      brackets TEXT NOT NULL,
+      computed_at INTEGER NOT NULL
+    )
+  `);
+
+  // Last ensemble fetch success/failure per provider and city, so status and
+  // the dashboards can tell a failing source from a quiet one
+  db.run(`
+    CREATE TABLE IF NOT EXISTS forecast_fetches (
+      provider TEXT NOT NULL,
+      city TEXT NOT NULL,
+      last_success_at INTEGER,
+      last_error_at INTEGER,
+      last_error TEXT,
+      PRIMARY KEY (provider, city)
+    )
+  `);
+
+  db.run(`
+    CREATE TABLE IF NOT EXISTS bias_coefficients (
+      station TEXT NOT NULL,
+      model TEXT NOT NULL,
+      metric TEXT NOT NULL,
+      lead_days INTEGER NOT NULL,
+      season TEXT NOT NULL,
+      intercept REAL NOT NULL,
+      slope REAL NOT NULL,
+      samples INTEGER NOT NULL,
+      rmse_before REAL NOT NULL,
+      rmse_after REAL NOT NULL,
+      fitted_at INTEGER NOT NULL,
+      PRIMARY KEY (station, model, metric, lead_days, season)
+    )
+  `);
+
+  // Learned consensus weights, one row per city/lead/model (lead -1 = pooled)
+  db.run(`
+    CREATE TABLE IF NOT EXISTS model_weights (
+      city TEXT NOT NULL,
+      lead_days INTEGER NOT NULL,
+      model TEXT NOT NULL,
+      weight REAL NOT NULL,
+      crps REAL NOT NULL,
+      mixture_crps REAL NOT NULL,
+      default_crps REAL NOT NULL,
+      samples INTEGER NOT NULL,
+      fitted_at INTEGER NOT NULL,
+      PRIMARY KEY (city, lead_days, model)
+    )
+  `);
+
+  db.run(`
+    CREATE TABLE IF NOT EXISTS calibration_models (
+      tier TEXT NOT NULL,
+      lead_bucket TEXT NOT NULL,
+      method TEXT NOT NULL,
+      params TEXT NOT NULL,
+      samples INTEGER NOT NULL,
+      fitted_at INTEGER NOT NULL,
+      PRIMARY KEY (tier, lead_bucket)
+    )
+  `);
 }
@@ -1,27 +1,168 @@
 // --- City & Weather ---
 
+export type TempUnit = "F" | "C";
+
+// "nws-cli": NWS CLI daily climate report (US stations, local standard time)
+// "metar": max/min of the station's hourly METARs over the local civil day
+//          (how Wunderground-resolved international markets settle)
+export type SettlementSource = "nws-cli" | "metar";
+
 export interface CityConfig {
   name: string;
   slug: string; // for matching market titles
   polymarketSlug: string; // slug used in Polymarket event URLs
   lat: number;
   lon: number;
-  nwsGridId: string; // NWS grid office
-  nwsGridX: number;
-  nwsGridY: number;
-  iowaStation: string; // Iowa State CLI station ID (ICAO)
+  timezone: string; // IANA zone of the settlement station, e.g. "America/New_York"
+  unit: TempUnit; // unit the markets are quoted and settled in
+  settlementSource: SettlementSource;
+  nwsGridId?: string; // NWS grid office — US cities only
+  nwsGridX?: number;
+  nwsGridY?: number;
+  iowaStation: string; // settlement station ICAO ID, as served by Iowa State Mesonet
+  stationLat: number; // settlement station location — where forecasts are taken
+  stationLon: number;
+  stationElevationM: number; // station elevation (m), target of the lapse-rate adjustment
+  aliases: string[]; // lowercase title spellings besides the name and slug
+}
+
+// "count" = share of members in the bracket; "kde" = kernel density integrated over it
+export type ProbabilityMode = "count" | "kde";
+
+// An ensemble model served by Open-Meteo. Entries live in FORECAST_PROVIDERS
+// (src/config.ts); the fetcher, consensus and signal engine take any number.
+export interface ForecastProvider {
+  name: string; // short id used in logs, config and the DB, e.g. "gfs"
+  label: string; // display name, e.g. "GFS"
+  model: string; // Open-Meteo `models` parameter, e.g. "gfs_seamless"
+  members: number; // expected ensemble size (control + perturbed)
+  runIntervalMs: number; // one model cycle: a new run lands this often
+  runDelayMs: number; // how long after init time Open-Meteo serves a run (fallback when meta is down)
+  metaModel: string; // Open-Meteo data directory whose static/meta.json reports the latest run
+  forecastDays: number; // horizon Open-Meteo serves for the model, requested in full
+  weight: number; // default consensus weight
+  probabilityMode: ProbabilityMode;
+  bandwidthScale: number; // KDE bandwidth multiplier on Silverman's rule
 }
 
 export interface EnsembleForecast {
   city: string;
+  model: string; // ForecastProvider.name
+  modelRun: number; // init time of the run (ms UTC), from Open-Meteo's run metadata
   fetchedAt: number;
+  point?: ForecastPoint; // where the run was requested
   daily: DailyForecast[];
 }
 
+// "station" = the settlement station's coordinates, lapse-rate adjusted to
+// its elevation; "centroid" = the city's lat/lon, unadjusted
+export type ForecastPointKind = "station" | "centroid";
+
+export interface ForecastPoint {
+  kind: ForecastPointKind;
+  lat: number;
+  lon: number;
+  gridElevationM: number | null; // model cell elevation Open-Meteo reported
+  targetElevationM: number | null; // elevation members were adjusted to, null = unadjusted
+}
+
 export interface DailyForecast {
   date: string; // YYYY-MM-DD
-  highs: number[]; // 31 members, Fahrenheit
-  lows: number[]; // 31 members, Fahrenheit
+  highs: number[]; // one per member, in the city's unit, unrounded (0.1° precision)
+  lows: number[]; // one per member, in the city's unit, unrounded (0.1° precision)
+  observedHigh?: number; // running max so far when conditioned on same-day observations
+  observedLow?: number; // running min so far
+}
+
+// Climatological distribution a forecast is blended with at long leads
+// (see weather/climatology.ts): settled values from the same time of year
+export interface ClimatologyPrior {
+  weight: number; // share of the blend, 0 = ensemble only
+  highs: number[]; // past settled highs, city unit
+  lows: number[];
+}
+
+// Station observations so far in a climate day (ASOS/METAR via Iowa State)
+export interface ObservedExtremes {
+  station: string;
+  date: string; // climate day the observations belong to
+  high: number; // running max, city unit, unrounded
+  low: number; // running min
+  observations: number;
+  asOf: number; // time of the latest report (ms UTC)
+}
+
+// NWS gridpoint forecast (US cities only). Temperatures in Fahrenheit.
+export interface NWSPeriod {
+  name: string; // "Tuesday Night"; empty for hourly periods
+  startTime: string; // ISO 8601 with the station's local offset
+  endTime: string;
+  temperature: number;
+  isDaytime: boolean;
+}
+
+export interface NWSForecast {
+  city: string;
+  updatedAt: number; // NWS updateTime (ms), stored as the snapshot's model run
+  fetchedAt: number;
+  periods: NWSPeriod[]; // 12-hour day/night periods
+  hourly: NWSPeriod[]; // one per hour, empty when the hourly endpoint failed
+}
+
+// Latest run a provider is serving
+export interface ModelRunInfo {
+  provider: string;
+  initTime: number; // ms UTC (00z/06z/12z/18z cycle)
+  availableAt: number | null; // when Open-Meteo finished publishing it, if known
+  source: "meta" | "schedule"; // schedule = estimated from cycle length and delay
+}
+
+// How one city/date/metric distribution moved between consecutive runs
+export interface RunShift {
+  provider: string;
+  city: string;
+  date: string;
+  metric: "high" | "low";
+  previousRun: number;
+  modelRun: number;
+  previousMean: number;
+  mean: number;
+  meanShift: number; // mean - previousMean, city unit
+  spreadShift: number; // change in member standard deviation
+  recordedAt: number;
+}
+
+// Outcome of the last ensemble fetch attempts for one provider/city
+export interface ForecastFetchState {
+  provider: string;
+  city: string;
+  lastSuccessAt: number | null;
+  lastErrorAt: number | null;
+  lastError: string | null;
+}
+
+// fresh: the newest run is in hand; stale: a newer run is overdue (confidence
+// penalised); excluded: too old to use; missing: nothing stored at all
+export type ForecastStatus = "fresh" | "stale" | "excluded" | "missing";
+
+export interface ForecastHealth extends ForecastFetchState {
+  status: ForecastStatus;
+  modelRun: number | null; // init time of the newest run held
+  staleHours: number | null; // past the time that run was due to be replaced
+}
+
+// provider name -> city slug -> forecast
+export type ProviderEnsembles = Map<string, Map<string, EnsembleForecast>>;
+
+// A forecast as persisted in the `forecasts` table, shared across processes
+export interface ForecastSnapshot {
+  provider: string; // ForecastProvider.name, or "nws"
+  city: string;
+  modelRun: number; // ms UTC
+  fetchedAt: number;
+  pointKind?: ForecastPointKind; // on read; "centroid" for NWS gridpoint snapshots, which carry no point
+  point?: ForecastPoint; // where the forecast was taken (ensembles only)
+  payload: unknown; // provider-specific JSON (DailyForecast[] for ensembles)
 }
 
 export interface BucketProbability {
@@ -36,11 +177,26 @@ export interface BucketProbability {
 
 // --- Market ---
 
+// "listing" pages through Gamma's weather events (slug probing as the
+// fallback); "slugs" only probes the slugs built for each city and date
+export type MarketDiscovery = "listing" | "slugs";
+
+// A weather event discovery found but cannot trade
+export interface UnmappedEvent {
+  slug: string;
+  title: string;
+  reason: "not a temperature event" | "unknown city";
+}
+
 export interface RawMarket {
   conditionId: string;
   questionId: string;
   title: string;
   slug: string;
+  eventId: string; // Gamma event the bracket belongs to
+  negRisk: boolean; // the event's brackets are mutually exclusive (exactly one resolves YES)
+  bestBid?: number; // YES best bid / ask from Gamma, when quoted
+  bestAsk?: number;
   outcomes: string[];
   outcomePrices: string[];
   tokens: MarketToken[];
@@ -62,6 +218,7 @@ export interface ParsedMarket {
   city: string;
   date: string; // YYYY-MM-DD
   metric: "high" | "low";
+  unit: TempUnit; // bracket bounds are in this unit
   bracketMin: number;
   bracketMax: number;
   bracketType: "above" | "below" | "between";
@@ -69,22 +226,121 @@ export interface ParsedMarket {
   noTokenId: string;
   yesPrice: number;
   noPrice: number;
+  yesBid?: number; // YES best bid / ask when quoted; NO quotes are their complements
+  yesAsk?: number;
+  eventId: string;
+  negRisk: boolean;
   volume: number;
   endDateIso: string;
 }
 
+// One temperature event: its bracket markets, lowest first
+export interface WeatherEvent {
+  id: string;
+  city: string;
+  date: string;
+  metric: "high" | "low";
+  unit: TempUnit;
+  negRisk: boolean;
+  brackets: ParsedMarket[];
+  partitionIssues: string[]; // empty when the brackets cover every temperature exactly once
+}
+
+export interface DistributionMoments {
+  mean: number; // city unit
+  sd: number;
+  skew: number;
+}
+
+// How the market's distribution for an event differs from the model's:
+// too-narrow / too-wide (spread), shifted (mean), aligned (no structural gap)
+export type EventStructure = "too-narrow" | "too-wide" | "shifted" | "aligned";
+
+export interface EventComparison {
+  eventId: string;
+  city: string;
+  date: string;
+  metric: "high" | "low";
+  unit: TempUnit;
+  market: DistributionMoments; // from normalised YES prices
+  model: DistributionMoments; // from consensus bracket probabilities
+  klDivergence: number; // KL(model ‖ market), nats
+  meanDiff: number; // market - model
+  spreadDiff: number; // market sd - model sd
+  structure: EventStructure;
+  brackets: Array<{ conditionId: string; center: number; market: number; model: number }>;
+  computedAt: number;
+}
+
+// One leg per bracket of an event, all on the same side: a YES basket pays
+// 1 per set (one bracket wins), a NO basket pays brackets - 1
+export interface ArbBasket {
+  id: string;
+  eventId: string;
+  city: string;
+  date: string;
+  metric: "high" | "low";
+  side: "YES" | "NO";
+  legs: Array<{ conditionId: string; tokenId: string; price: number }>;
+  cost: number; // per set, sum of leg asks
+  payout: number; // per set
+  profit: number; // per set, payout - cost
+  sets: number; // whole sets sized
+  size: number; // USDC, sets * cost
+  createdAt: number;
+}
+
 // --- Engine ---
 
+export type ConfidenceTier = "LOCK" | "STRONG" | "SAFE" | "NEAR-SAFE" | "SKIP";
+
+// How a market's bracket moved across successive runs (see engine/momentum.ts)
+export interface ForecastMomentum {
+  runs: number; // most runs any provider contributed
+  probabilityShift: number; // YES probability, latest run minus previous, weighted across providers
+  meanShift: number; // ensemble mean, latest run minus previous, city unit
+  pattern: "trending" | "steady" | "flip-flop";
+  unpriced: boolean; // the shift points the same way as the model-vs-price gap
+}
+
+// "off" reports momentum only; "skip-flip-flop" drops markets whose runs
+// reversed; "require-trend" trades only unpriced trending markets
+export type MomentumFilter = "off" | "skip-flip-flop" | "require-trend";
+
+// The NWS point forecast a signal's consensus was checked against
+export interface NWSParticipation {
+  temp: number; // climate-day high/low for the market's metric, °F
+  source: "hourly" | "period"; // hourly max/min over the climate day, or the 12-hour period forecast
+  inRange: boolean; // inside the members' central range (see engine/consensus.ts)
+}
+
+// What walking an order book's asks for a size would fill
+export interface BookFill {
+  usdc: number; // spent
+  shares: number;
+  vwap: number; // usdc / shares
+  bestAsk: number;
+  worstPrice: number; // last level touched — the limit price that sweeps the fill
+  levels: number;
+}
+
 export interface Signal {
   id: string;
   market: ParsedMarket;
-  modelProbability: number;
-  marketPrice: number;
+  rawProbability: number; // consensus YES probability before calibration
+  consensusTier: ConfidenceTier;
+  modelProbability: number; // calibrated probability of the side taken
+  marketPrice: number; // VWAP of the book fill when books were walked, else the Gamma price
   edge: number; // modelProbability - marketPrice
   side: "YES" | "NO";
   size: number; // USDC
   kelly: number; // raw Kelly fraction
   confidence: "LOCK" | "STRONG" | "SAFE" | "NEAR-SAFE";
+  leadTimeHours: number; // from signal time to the start of the market's climate day, 0 once it has begun
+  momentum?: ForecastMomentum; // absent until two runs cover the date
+  nws?: NWSParticipation; // absent when NWS had no forecast for the market
+  structural?: EventStructure; // set when the trade goes with its event's structural disagreement
+  fill?: BookFill; // the ask walk the size was taken from, when priced against the book
   createdAt: number;
 }
 
@@ -108,6 +364,7 @@ export interface Position {
   potentialPayout: number;
   modelProbability: number;
   edge: number;
+  leadTimeHours?: number; // at entry; absent on positions opened before it was recorded
   status: PositionStatus;
   entryTime: number;
   settleTime?: number;
@@ -121,12 +378,69 @@ export interface Position {
 export interface CLIReport {
   station: string;
   date: string;
-  high: number; // Fahrenheit
-  low: number; // Fahrenheit
+  high: number; // in the city's unit
+  low: number; // in the city's unit
+}
+
+// --- Bias correction ---
+
+export type Season = "DJF" | "MAM" | "JJA" | "SON";
+
+// One fitted MOS correction: observed ≈ intercept + slope * ensemble mean
+export interface BiasCoefficient {
+  station: string; // CityConfig.iowaStation
+  model: string; // ForecastProvider.name
+  metric: "high" | "low";
+  leadDays: number; // whole days from model run to the start of the climate day
+  season: Season;
+  intercept: number;
+  slope: number; // 1 for additive fits
+  samples: number;
+  rmseBefore: number;
+  rmseAfter: number;
+  fittedAt: number;
+}
+
+// --- Model weights ---
+
+// Learned consensus weight of one model for a city and lead time, fitted by
+// minimizing the CRPS of the weighted member mixture (see engine/weights.ts).
+// leadDays -1 = every lead pooled, the fallback for leads without a fit.
+export interface ModelWeight {
+  city: string; // CityConfig.slug
+  leadDays: number;
+  model: string; // ForecastProvider.name
+  weight: number; // the group's weights sum to 1
+  crps: number; // this model alone, city unit
+  mixtureCrps: number; // group's learned blend
+  defaultCrps: number; // group's blend at default provider weights
+  samples: number;
+  fittedAt: number;
+}
+
+// --- Calibration ---
+
+export type CalibrationMethod = "isotonic" | "platt" | "identity";
+
+// Maps raw consensus probability → calibrated probability for one
+// confidence tier and lead-time bucket ("ALL" = pooled fallback)
+export interface CalibrationModel {
+  tier: ConfidenceTier | "ALL";
+  leadBucket: string;
+  method: CalibrationMethod;
+  // isotonic: sorted knots; platt: p' = sigmoid(a * logit(p) + b)
+  params: { x: number[]; y: number[] } | { a: number; b: number } | Record<string, never>;
+  samples: number;
+  fittedAt: number;
 }
 
 // --- Config ---
 
+// Per-lead-time override of one trading parameter: the first entry whose
+// maxHours exceeds the lead applies; leads past the last fall back to the
+// flat setting
+export type LeadSchedule = Array<{ maxHours: number; value: number }>;
+
 export interface AppConfig {
   mode: "paper" | "live";
   bankrollUsdc: number;
@@ -134,6 +448,18 @@ export interface AppConfig {
   minEdgePct: number;
   kellyFraction: number;
   maxOpenPositions: number;
+  maxLeadDays: number; // markets whose climate day starts further out are not traded or discovered
+  minEdgePctByLead: LeadSchedule; // empty = minEdgePct at every lead
+  kellyFractionByLead: LeadSchedule;
+  maxPositionPctByLead: LeadSchedule;
+  forecastModels: string[]; // ForecastProvider names to fetch and blend
+  probabilityMode?: ProbabilityMode; // overrides every provider's mode when set
+  forecastPoint: ForecastPointKind; // where ensembles are requested
+  momentumFilter?: MomentumFilter; // unset = "off"
+  marketDiscovery?: MarketDiscovery; // unset = "listing"
+  climatologyPrior: boolean; // blend long-lead ensembles with settled climatology
+  marketStream: boolean; // daemon follows CLOB books over the market WebSocket
+  marketStreamRecord?: string; // append every stream message to this JSONL file
   polygonPrivateKey?: string;
   polymarketApiKey?: string;
   polymarketApiSecret?: string;
@@ -0,0 +1,272 @@
+import { logger } from "../logger.js";
+import { getForecastSnapshots, getSettlements, getBiasCoefficients } from "../store/db.js";
+import { climateDayWindow, dayBasis } from "./climate-day.js";
+import type {
+  BiasCoefficient,
+  CityConfig,
+  DailyForecast,
+  EnsembleForecast,
+  ForecastPointKind,
+  ProviderEnsembles,
+  Season,
+} from "../types.js";
+
+// Model output statistics (MOS) bias correction.
+//
+// Ensembles forecast a grid cell; settlement is a single station (KORD,
+// KNYC's Central Park sensor, ...). The difference shows up as a systematic
+// offset per station, model, season and lead time. We learn it from stored
+// forecasts vs. settled CLI values and shift members before probabilities
+// are computed.
+
+const MIN_ADDITIVE_SAMPLES = 10;
+const MIN_LINEAR_SAMPLES = 30;
+const SLOPE_BOUNDS: [number, number] = [0.5, 1.5]; // guard against overfit on short history
+
+export type BiasFitMode = "additive" | "linear" | "auto";
+
+export interface ForecastPair {
+  station: string;
+  model: string;
+  metric: "high" | "low";
+  leadDays: number;
+  season: Season;
+  point: ForecastPointKind; // where the snapshot was requested
+  forecast: number; // ensemble mean
+  observed: number;
+}
+
+export interface PointErrorSummary {
+  model: string;
+  metric: "high" | "low";
+  point: ForecastPointKind;
+  samples: number;
+  meanError: number; // forecast - observed
+  rmse: number;
+}
+
+// station|model|metric|leadDays|season -> coefficient
+export type BiasTable = Map<string, BiasCoefficient>;
+
+function biasKey(station: string, model: string, metric: string, leadDays: number, season: Season): string {
+  return `${station}|${model}|${metric}|${leadDays}|${season}`;
+}
+
+export function seasonOf(date: string): Season {
+  const month = Number(date.slice(5, 7));
+  if (month === 12 || month <= 2) return "DJF";
+  if (month <= 5) return "MAM";
+  if (month <= 8) return "JJA";
+  return "SON";
+}
+
+// A city's climate day on the window it settles on: local standard time
+// for NWS CLI stations, civil time for METAR-settled ones
+type DayCity = Pick<CityConfig, "timezone" | "settlementSource">;
+
+/**
+ * Lead-time bucket: whole days from model init to the start of the climate day.
+ */
+export function leadDaysFor(modelRun: number, date: string, city: DayCity): number {
+  const hours = (climateDayWindow(date, city.timezone, dayBasis(city)).start - modelRun) / (60 * 60 * 1000);
+  return Math.max(0, Math.floor(hours / 24));
+}
+
+/**
+ * Whether a snapshot day had already ended when the run was initialised —
+ * the `past_days` day every ensemble request carries. That day is mostly
+ * analysis, not forecast, so it is no sample for bias or weight fitting.
+ */
+export function isAnalysisDay(modelRun: number, date: string, city: DayCity): boolean {
+  return climateDayWindow(date, city.timezone, dayBasis(city)).end <= modelRun;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+function rmse(errors: number[]): number {
+  return Math.sqrt(errors.reduce((a, e) => a + e * e, 0) / errors.length);
+}
+
+/**
+ * Pair every stored forecast snapshot with the settled observation for each
+ * date it covers. Each snapshot contributes one pair per (date, metric);
+ * days that had ended before the run are skipped.
+ */
+export function collectForecastPairs(cities: CityConfig[], models: string[]): ForecastPair[] {
+  const pairs: ForecastPair[] = [];
+
+  for (const city of cities) {
+    const observed = new Map(getSettlements(city.iowaStation).map((r) => [r.date, r]));
+    if (observed.size === 0) continue;
+
+    for (const model of models) {
+      for (const snapshot of getForecastSnapshots(model, city.slug)) {
+        for (const day of snapshot.payload as DailyForecast[]) {
+          const obs = observed.get(day.date);
+          if (!obs || day.highs.length === 0) continue;
+          if (isAnalysisDay(snapshot.modelRun, day.date, city)) continue;
+
+          const leadDays = leadDaysFor(snapshot.modelRun, day.date, city);
+          const season = seasonOf(day.date);
+          const point = snapshot.pointKind ?? "centroid";
+          const base = { station: city.iowaStation, model, leadDays, season, point };
+          pairs.push({ ...base, metric: "high", forecast: mean(day.highs), observed: obs.high });
+          pairs.push({ ...base, metric: "low", forecast: mean(day.lows), observed: obs.low });
+        }
+      }
+    }
+  }
+
+  return pairs;
+}
+
+/**
+ * Raw forecast error by model × metric × forecast point, for comparing
+ * station-point and centroid requests over the same history.
+ */
+export function summarizePointErrors(pairs: ForecastPair[]): PointErrorSummary[] {
+  const groups = new Map<string, ForecastPair[]>();
+  for (const p of pairs) {
+    const key = `${p.model}|${p.metric}|${p.point}`;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(p);
+  }
+
+  return [...groups.values()]
+    .map((group) => {
+      const errors = group.map((p) => p.forecast - p.observed);
+      const { model, metric, point } = group[0];
+      return { model, metric, point, samples: group.length, meanError: mean(errors), rmse: rmse(errors) };
+    })
+    .sort((a, b) => a.model.localeCompare(b.model) || a.metric.localeCompare(b.metric) || a.point.localeCompare(b.point));
+}
+
+/**
+ * Fit one correction per station/model/metric/lead/season group.
+ * "auto" fits a line when there is enough history, else a constant offset.
+ * Groups below the minimum sample count get no correction.
+ */
+export function fitBiasCoefficients(
+  pairs: ForecastPair[],
+  mode: BiasFitMode = "auto",
+  now = Date.now(),
+): BiasCoefficient[] {
+  const groups = new Map<string, ForecastPair[]>();
+  for (const p of pairs) {
+    const key = biasKey(p.station, p.model, p.metric, p.leadDays, p.season);
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(p);
+  }
+
+  const coefs: BiasCoefficient[] = [];
+  for (const group of groups.values()) {
+    const n = group.length;
+    if (n < MIN_ADDITIVE_SAMPLES) continue;
+
+    const xs = group.map((p) => p.forecast);
+    const ys = group.map((p) => p.observed);
+    const xMean = mean(xs);
+    const yMean = mean(ys);
+
+    let slope = 1;
+    const linear = mode === "linear" || (mode === "auto" && n >= MIN_LINEAR_SAMPLES);
+    if (linear) {
+      let sxy = 0;
+      let sxx = 0;
+      for (let i = 0; i < n; i++) {
+        sxy += (xs[i] - xMean) * (ys[i] - yMean);
+        sxx += (xs[i] - xMean) ** 2;
+      }
+      if (sxx > 0) {
+        slope = Math.min(SLOPE_BOUNDS[1], Math.max(SLOPE_BOUNDS[0], sxy / sxx));
+      }
+    }
+    const intercept = yMean - slope * xMean;
+
+    const { station, model, metric, leadDays, season } = group[0];
+    coefs.push({
+      station,
+      model,
+      metric,
+      leadDays,
+      season,
+      intercept,
+      slope,
+      samples: n,
+      rmseBefore: rmse(group.map((p) => p.forecast - p.observed)),
+      rmseAfter: rmse(group.map((p) => intercept + slope * p.forecast - p.observed)),
+      fittedAt: now,
+    });
+  }
+
+  return coefs;
+}
+
+export function buildBiasTable(coefs: BiasCoefficient[]): BiasTable {
+  const table: BiasTable = new Map();
+  for (const c of coefs) {
+    table.set(biasKey(c.station, c.model, c.metric, c.leadDays, c.season), c);
+  }
+  return table;
+}
+
+export function loadBiasTable(): BiasTable {
+  return buildBiasTable(getBiasCoefficients());
+}
+
+/**
+ * Shift members by the fitted correction of their ensemble mean. Member
+ * anomalies around the mean are kept, so spread is unchanged:
+ *   member' = member + (intercept + (slope - 1) * mean)
+ */
+function correctMembers(values: number[], coef: BiasCoefficient | undefined): number[] {
+  if (!coef || values.length === 0) return values;
+  const shift = coef.intercept + (coef.slope - 1) * mean(values);
+  return values.map((v) => Math.round((v + shift) * 10) / 10);
+}
+
+/**
+ * Return a bias-corrected copy of an ensemble. Days without a fitted
+ * coefficient pass through unchanged.
+ */
+export function correctEnsemble(ensemble: EnsembleForecast, city: CityConfig, table: BiasTable): EnsembleForecast {
+  if (table.size === 0) return ensemble;
+
+  const daily = ensemble.daily.map((day) => {
+    const leadDays = leadDaysFor(ensemble.modelRun, day.date, city);
+    const season = seasonOf(day.date);
+    return {
+      ...day,
+      highs: correctMembers(day.highs, table.get(biasKey(city.iowaStation, ensemble.model, "high", leadDays, season))),
+      lows: correctMembers(day.lows, table.get(biasKey(city.iowaStation, ensemble.model, "low", leadDays, season))),
+    };
+  });
+
+  return { ...ensemble, daily };
+}
+
+/**
+ * Bias-correct every provider's ensembles. Cached forecasts are not mutated.
+ */
+export function correctProviderEnsembles(
+  ensembles: ProviderEnsembles,
+  cities: CityConfig[],
+  table: BiasTable,
+): ProviderEnsembles {
+  if (table.size === 0) return ensembles;
+
+  const corrected: ProviderEnsembles = new Map();
+  for (const [model, byCity] of ensembles) {
+    const out = new Map<string, EnsembleForecast>();
+    for (const [slug, ensemble] of byCity) {
+      const city = cities.find((c) => c.slug === slug);
+      out.set(slug, city ? correctEnsemble(ensemble, city, table) : ensemble);
+    }
+    corrected.set(model, out);
+  }
+
+  logger.debug({ coefficients: table.size }, "Bias correction applied");
+  return corrected;
+}
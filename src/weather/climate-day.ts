@@ -0,0 +1,130 @@
+// Climate-day boundaries for settlement stations.
+//
+// NWS CLI reports (what Polymarket settles US markets on) cover midnight to
+// midnight local STANDARD time all year round. During DST the window
+// therefore runs 1am-1am on the wall clock. Everything here works in UTC
+// milliseconds and converts through the station's standard offset, never
+// its DST offset.
+//
+// International markets settle on the station's hourly observations over
+// the local CIVIL calendar day instead (DST included, so 23h or 25h on
+// changeover dates). Pass basis "civil" for those.
+
+import type { CityConfig } from "../types.js";
+
+export type DayBasis = "standard" | "civil";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+const standardOffsets = new Map<string, number>(); // `${tz}:${year}` -> minutes
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let fmt = formatters.get(timezone);
+  if (!fmt) {
+    fmt = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timezone, fmt);
+  }
+  return fmt;
+}
+
+/**
+ * Wall-clock UTC offset in minutes at an instant (DST included).
+ * America/New_York in July → -240.
+ */
+export function utcOffsetMinutes(timezone: string, utcMs: number): number {
+  const parts: Record<string, number> = {};
+  for (const p of getFormatter(timezone).formatToParts(new Date(utcMs))) {
+    if (p.type !== "literal") parts[p.type] = Number(p.value);
+  }
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return Math.round((asUtc - Math.floor(utcMs / 1000) * 1000) / 60000);
+}
+
+/**
+ * Standard-time UTC offset in minutes for a year.
+ * DST always moves clocks forward, so standard time is the smaller of the
+ * January and July offsets — this holds in both hemispheres.
+ */
+export function standardOffsetMinutes(timezone: string, year: number): number {
+  const key = `${timezone}:${year}`;
+  const cached = standardOffsets.get(key);
+  if (cached !== undefined) return cached;
+
+  const jan = utcOffsetMinutes(timezone, Date.UTC(year, 0, 1, 12));
+  const jul = utcOffsetMinutes(timezone, Date.UTC(year, 6, 1, 12));
+  const offset = Math.min(jan, jul);
+  standardOffsets.set(key, offset);
+  return offset;
+}
+
+/**
+ * Which clock a city's settlement day follows.
+ */
+export function dayBasis(city: Pick<CityConfig, "settlementSource">): DayBasis {
+  return city.settlementSource === "nws-cli" ? "standard" : "civil";
+}
+
+// UTC instant of local civil midnight starting `date`. The offset is
+// re-read at the first guess so DST changeovers land on the right side.
+function civilMidnight(y: number, m: number, d: number, timezone: string): number {
+  const wall = Date.UTC(y, m - 1, d);
+  const guess = wall - utcOffsetMinutes(timezone, wall) * 60000;
+  return wall - utcOffsetMinutes(timezone, guess) * 60000;
+}
+
+/**
+ * UTC window [start, end) of the climate day `date` (YYYY-MM-DD).
+ */
+export function climateDayWindow(
+  date: string,
+  timezone: string,
+  basis: DayBasis = "standard",
+): { start: number; end: number } {
+  const [y, m, d] = date.split("-").map(Number);
+  if (basis === "civil") {
+    const next = new Date(Date.UTC(y, m - 1, d + 1));
+    return {
+      start: civilMidnight(y, m, d, timezone),
+      end: civilMidnight(next.getUTCFullYear(), next.getUTCMonth() + 1, next.getUTCDate(), timezone),
+    };
+  }
+  const start = Date.UTC(y, m - 1, d) - standardOffsetMinutes(timezone, y) * 60000;
+  return { start, end: start + DAY_MS };
+}
+
+/**
+ * Climate day (YYYY-MM-DD, local standard or civil time) an instant falls in.
+ */
+export function climateDate(utcMs: number, timezone: string, basis: DayBasis = "standard"): string {
+  const offset = basis === "civil"
+    ? utcOffsetMinutes(timezone, utcMs)
+    : standardOffsetMinutes(timezone, new Date(utcMs).getUTCFullYear());
+  return new Date(utcMs + offset * 60000).toISOString().slice(0, 10);
+}
+
+/**
+ * Parse an Open-Meteo GMT timestamp ("2026-02-17T05:00", no zone suffix).
+ */
+export function parseGmtTimestamp(time: string): number {
+  return Date.parse(time.endsWith("Z") ? time : `${time}Z`);
+}
+
+/**
+ * Hours in a climate day — always 24 on the standard basis, 23 or 25 on
+ * civil DST changeover dates.
+ */
+export function climateDayHours(date: string, timezone: string, basis: DayBasis = "standard"): number {
+  const { start, end } = climateDayWindow(date, timezone, basis);
+  return Math.round((end - start) / HOUR_MS);
+}
@@ -0,0 +1,120 @@
+import { logger } from "../logger.js";
+import { getSettlements } from "../store/db.js";
+import type { CityConfig, ClimatologyPrior, CLIReport } from "../types.js";
+
+// Climatological prior.
+//
+// Past settled highs/lows from the same few weeks of the year, per station.
+// Ensembles beyond a few days are under-dispersed — members agree with each
+// other more than with the outcome — so at long leads we blend their
+// distribution with climatology, with more weight the further out the day.
+// History comes from `bun run backfill`; without it nothing is blended.
+
+const WINDOW_DAYS = 7; // days either side of the target date's day of year
+const MIN_YEARS = 3;
+const MIN_SAMPLES = 40;
+const PRIOR_START_LEAD = 3; // whole days; shorter leads are ensemble only
+const PRIOR_WEIGHT_PER_DAY = 0.08;
+const MAX_PRIOR_WEIGHT = 0.4;
+const PERCENTILES = [5, 10, 25, 50, 75, 90, 95];
+
+// station -> settled history, oldest first
+export type ClimatologyTable = Map<string, CLIReport[]>;
+
+// Daily normal and spread for one station, date of year and metric
+export interface Climatology {
+  date: string; // the date it was computed for
+  metric: "high" | "low";
+  samples: number;
+  years: number;
+  mean: number;
+  sd: number;
+  percentiles: Record<number, number>; // 5, 10, 25, 50, 75, 90, 95
+  values: number[]; // the pooled settled values
+}
+
+// Day of year on a non-leap calendar, so Feb 29 sits with Mar 1
+function dayOfYear(date: string): number {
+  const month = Number(date.slice(5, 7));
+  const day = Math.min(Number(date.slice(8, 10)), month === 2 ? 28 : 31);
+  return Math.round((Date.UTC(2001, month - 1, day) - Date.UTC(2001, 0, 1)) / 86400000);
+}
+
+function percentile(sorted: number[], p: number): number {
+  const pos = (p / 100) * (sorted.length - 1);
+  const i = Math.floor(pos);
+  return i + 1 < sorted.length ? sorted[i] + (pos - i) * (sorted[i + 1] - sorted[i]) : sorted[i];
+}
+
+export function loadClimatology(cities: CityConfig[]): ClimatologyTable {
+  const table: ClimatologyTable = new Map();
+  for (const city of cities) {
+    if (!table.has(city.iowaStation)) table.set(city.iowaStation, getSettlements(city.iowaStation));
+  }
+  logger.debug({ stations: table.size }, "Climatology loaded");
+  return table;
+}
+
+/**
+ * Normal and percentiles of settled values within ±WINDOW_DAYS of the date's
+ * day of year, from years before the date's own. Null below MIN_YEARS years
+ * or MIN_SAMPLES values.
+ */
+export function computeClimatology(history: CLIReport[], date: string, metric: "high" | "low"): Climatology | null {
+  const target = dayOfYear(date);
+  const year = date.slice(0, 4);
+  const pooled = history.filter((r) => {
+    if (r.date.slice(0, 4) >= year) return false;
+    const d = Math.abs(dayOfYear(r.date) - target);
+    return Math.min(d, 365 - d) <= WINDOW_DAYS;
+  });
+
+  const years = new Set(pooled.map((r) => r.date.slice(0, 4))).size;
+  if (years < MIN_YEARS || pooled.length < MIN_SAMPLES) return null;
+
+  const values = pooled.map((r) => (metric === "high" ? r.high : r.low));
+  const sorted = [...values].sort((a, b) => a - b);
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  const sd = Math.sqrt(values.reduce((a, v) => a + (v - mean) ** 2, 0) / values.length);
+
+  return {
+    date,
+    metric,
+    samples: values.length,
+    years,
+    mean,
+    sd,
+    percentiles: Object.fromEntries(PERCENTILES.map((p) => [p, percentile(sorted, p)])),
+    values,
+  };
+}
+
+/**
+ * Share of the blend given to climatology at a lead: 0 through
+ * PRIOR_START_LEAD - 1 days, then rising by PRIOR_WEIGHT_PER_DAY per day up
+ * to MAX_PRIOR_WEIGHT.
+ */
+export function priorWeight(leadDays: number): number {
+  if (leadDays < PRIOR_START_LEAD) return 0;
+  return Math.min(MAX_PRIOR_WEIGHT, (leadDays - PRIOR_START_LEAD + 1) * PRIOR_WEIGHT_PER_DAY);
+}
+
+/**
+ * Prior for a city's climate day at a given lead, or null when the lead is
+ * short or the station has too little history.
+ */
+export function climatologyPrior(
+  table: ClimatologyTable,
+  city: CityConfig,
+  date: string,
+  leadDays: number,
+): ClimatologyPrior | null {
+  const weight = priorWeight(leadDays);
+  if (weight === 0) return null;
+
+  const history = table.get(city.iowaStation) ?? [];
+  const highs = computeClimatology(history, date, "high");
+  const lows = computeClimatology(history, date, "low");
+  if (!highs || !lows) return null;
+  return { weight, highs: highs.values, lows: lows.values };
+}
@@ -1,51 +1,211 @@
 import { logger } from "../logger.js";
 import { fetchWithRetry } from "../utils/retry.js";
-import type { CityConfig, EnsembleForecast, DailyForecast } from "../types.js";
+import { climateDate, climateDayHours, dayBasis, parseGmtTimestamp, type DayBasis } from "./climate-day.js";
+import { getLatestForecastSnapshot, upsertForecastSnapshot, insertRunShifts, recordForecastFetch } from "../store/db.js";
+import { computeRunShifts, fetchLatestRun } from "./runs.js";
+import type {
+  CityConfig,
+  EnsembleForecast,
+  DailyForecast,
+  ForecastPoint,
+  ForecastPointKind,
+  ForecastProvider,
+  ForecastSnapshot,
+  ProviderEnsembles,
+  RunShift,
+  TempUnit,
+} from "../types.js";
 
-const ENSEMBLE_MEMBERS = 31;
-const CACHE_TTL_MS = 6 * 60 * 60 * 1000; // 6 hours (GFS updates 4x daily)
+const cache = new Map<string, EnsembleForecast>(); // `${provider}:${city}:${point}` -> forecast
 
-const cache = new Map<string, EnsembleForecast>();
+// Points per Open-Meteo request: one call per model for the city registry,
+// while a 51-member, 16-day response stays a manageable size
+const MAX_LOCATIONS_PER_REQUEST = 10;
+const BATCH_DELAY_MS = 200; // between a model's requests, against 429s
+
+// Standard-atmosphere lapse rate. Model cells are kilometres wide, so the
+// cell's mean elevation can sit well above or below the airport thermometer.
+export const LAPSE_RATE_C_PER_M = 0.0065;
 
 function celsiusToFahrenheit(c: number): number {
   return c * 9 / 5 + 32;
 }
 
-export async function fetchEnsemble(city: CityConfig): Promise<EnsembleForecast> {
-  const cached = cache.get(city.slug);
-  if (cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) {
-    return cached;
+/**
+ * Forget the runs held in memory. The forecasts table is untouched, so the
+ * next fetch reads through to it as a freshly started process would.
+ */
+export function clearEnsembleCache(): void {
+  cache.clear();
+}
+
+/**
+ * Where to request a city's ensemble. "station" is the settlement station —
+ * the thermometer the market resolves on — and is the default; "centroid"
+ * is the city's lat/lon, kept for comparing the two in `bias points`.
+ */
+export function forecastPoint(city: CityConfig, kind: ForecastPointKind): Omit<ForecastPoint, "gridElevationM"> {
+  switch (kind) {
+    case "station":
+      return { kind, lat: city.stationLat, lon: city.stationLon, targetElevationM: city.stationElevationM };
+    case "centroid":
+      return { kind, lat: city.lat, lon: city.lon, targetElevationM: null };
+    default:
+      throw new Error(`Unknown forecast point "${kind}" (expected station or centroid)`);
+  }
+}
+
+/**
+ * °C shift that moves a temperature from the model cell's elevation to the
+ * target's. Zero when either elevation is unknown.
+ */
+export function lapseRateAdjustment(gridElevationM: number | null, targetElevationM: number | null): number {
+  if (gridElevationM === null || targetElevationM === null) return 0;
+  return -LAPSE_RATE_C_PER_M * (targetElevationM - gridElevationM);
+}
+
+/**
+ * The run held for a provider/city if it is `expectedRun` or newer — the
+ * in-memory map for the daemon, then the `forecasts` table so one-shot
+ * commands share runs across processes — plus the newest run held either
+ * way, which a fresh fetch is compared against for run shifts.
+ */
+function cachedEnsemble(
+  provider: ForecastProvider,
+  city: CityConfig,
+  pointKind: ForecastPointKind,
+  expectedRun: number,
+): { current: EnsembleForecast | null; previous: EnsembleForecast | null } {
+  const key = `${provider.name}:${city.slug}:${pointKind}`;
+  const cached = cache.get(key);
+  if (cached && cached.modelRun >= expectedRun) {
+    return { current: cached, previous: cached };
+  }
+
+  const stored = getLatestForecastSnapshot(provider.name, city.slug, pointKind);
+  if (stored && stored.modelRun >= expectedRun) {
+    const forecast = snapshotForecast(stored);
+    cache.set(key, forecast);
+    logger.debug({ city: city.name, model: provider.name }, "Ensemble forecast loaded from store");
+    return { current: forecast, previous: forecast };
   }
 
+  return { current: null, previous: cached ?? (stored ? snapshotForecast(stored) : null) };
+}
+
+/**
+ * One Open-Meteo ensemble request covering several points. The API takes
+ * comma-separated coordinate lists and answers with one result per point,
+ * in order (a bare object for a single point).
+ */
+async function requestEnsembles(
+  provider: ForecastProvider,
+  targets: Array<Omit<ForecastPoint, "gridElevationM">>,
+): Promise<OpenMeteoEnsembleResponse[]> {
   const url = new URL("https://ensemble-api.open-meteo.com/v1/ensemble");
-  url.searchParams.set("latitude", String(city.lat));
-  url.searchParams.set("longitude", String(city.lon));
+  url.searchParams.set("latitude", targets.map((t) => t.lat).join(","));
+  url.searchParams.set("longitude", targets.map((t) => t.lon).join(","));
+  url.searchParams.set("elevation", targets.map(() => "nan").join(",")); // no downscaling: we apply the lapse rate ourselves
   url.searchParams.set("hourly", "temperature_2m");
-  url.searchParams.set("models", "gfs_seamless");
-  url.searchParams.set("forecast_days", "7");
+  url.searchParams.set("models", provider.model);
+  url.searchParams.set("forecast_days", String(provider.forecastDays));
+  url.searchParams.set("past_days", "1"); // so today's climate day is complete east of UTC
   url.searchParams.set("temperature_unit", "celsius");
-
-  logger.debug({ city: city.name }, "Fetching GFS ensemble");
+  url.searchParams.set("timezone", "GMT"); // bucketed into climate days below
 
   const res = await fetchWithRetry(url.toString());
   if (!res.ok) {
-    throw new Error(`Open-Meteo ensemble API error: ${res.status} ${res.statusText}`);
+    throw new Error(`Open-Meteo ensemble API error (${provider.name}): ${res.status} ${res.statusText}`);
   }
 
-  const data = await res.json() as OpenMeteoEnsembleResponse;
-  const forecast = parseEnsembleResponse(city, data);
+  const data = await res.json() as OpenMeteoEnsembleResponse | OpenMeteoEnsembleResponse[];
+  const results = Array.isArray(data) ? data : [data];
+  if (results.length !== targets.length) {
+    throw new Error(`Open-Meteo ensemble API (${provider.name}): ${results.length} results for ${targets.length} locations`);
+  }
+  return results;
+}
 
-  cache.set(city.slug, forecast);
-  logger.info({ city: city.name, days: forecast.daily.length }, "Ensemble forecast cached");
+/**
+ * Cache and store a freshly fetched run; how it moved each date's
+ * distribution against the previous run goes to `run_shifts`.
+ */
+function storeEnsemble(
+  provider: ForecastProvider,
+  city: CityConfig,
+  pointKind: ForecastPointKind,
+  forecast: EnsembleForecast,
+  previous: EnsembleForecast | null,
+  runSource: string,
+): void {
+  if (previous && previous.modelRun < forecast.modelRun) {
+    const shifts = computeRunShifts(provider.name, city.slug, previous, forecast);
+    insertRunShifts(shifts);
+    const largest = shifts.reduce<RunShift | null>(
+      (max, s) => (!max || Math.abs(s.meanShift) > Math.abs(max.meanShift) ? s : max),
+      null,
+    );
+    logger.info(
+      {
+        city: city.name,
+        model: provider.name,
+        run: new Date(forecast.modelRun).toISOString().slice(0, 13) + "z",
+        source: runSource,
+        largestShift: largest ? `${largest.date} ${largest.metric} ${largest.meanShift > 0 ? "+" : ""}${largest.meanShift}°${city.unit}` : undefined,
+      },
+      "New model run",
+    );
+  }
 
-  return forecast;
+  cache.set(`${provider.name}:${city.slug}:${pointKind}`, forecast);
+  upsertForecastSnapshot({
+    provider: provider.name,
+    city: city.slug,
+    modelRun: forecast.modelRun,
+    fetchedAt: forecast.fetchedAt,
+    point: forecast.point,
+    payload: forecast.daily,
+  });
+  logger.info(
+    { city: city.name, model: provider.name, days: forecast.daily.length, point: forecast.point },
+    "Ensemble forecast cached",
+  );
 }
 
-function parseEnsembleResponse(city: CityConfig, data: OpenMeteoEnsembleResponse): EnsembleForecast {
+function snapshotForecast(snapshot: ForecastSnapshot): EnsembleForecast {
+  return {
+    city: snapshot.city,
+    model: snapshot.provider,
+    modelRun: snapshot.modelRun,
+    fetchedAt: snapshot.fetchedAt,
+    point: snapshot.point,
+    daily: snapshot.payload as DailyForecast[],
+  };
+}
+
+/**
+ * Newest run held for a provider/city — this process's cache, else the
+ * forecasts table — to stand in when a fetch fails. How stale it is is
+ * judged at signal time (src/weather/health.ts).
+ */
+function lastGoodEnsemble(provider: ForecastProvider, city: CityConfig, pointKind: ForecastPointKind): EnsembleForecast | null {
+  const cached = cache.get(`${provider.name}:${city.slug}:${pointKind}`);
+  if (cached) return cached;
+  const stored = getLatestForecastSnapshot(provider.name, city.slug, pointKind);
+  return stored ? snapshotForecast(stored) : null;
+}
+
+function parseEnsembleResponse(
+  provider: ForecastProvider,
+  city: CityConfig,
+  data: OpenMeteoEnsembleResponse,
+  modelRun: number,
+  target: Omit<ForecastPoint, "gridElevationM">,
+): EnsembleForecast {
   const hourly = data.hourly;
-  const times = hourly.time; // ISO timestamps
+  const times = hourly.time; // GMT timestamps
 
-  // Collect all member keys: temperature_2m_member01 ... temperature_2m_member30, plus temperature_2m (member 0)
+  // Collect all member keys: temperature_2m (control) plus temperature_2m_member01..NN
   const memberKeys: string[] = [];
   for (const key of Object.keys(hourly)) {
     if (key === "temperature_2m" || key.startsWith("temperature_2m_member")) {
@@ -53,68 +213,202 @@ function parseEnsembleResponse(city: CityConfig, data: OpenMeteoEnsembleResponse
     }
   }
 
-  if (memberKeys.length < ENSEMBLE_MEMBERS) {
-    logger.warn({ city: city.name, members: memberKeys.length }, "Fewer ensemble members than expected");
+  if (memberKeys.length < provider.members) {
+    logger.warn(
+      { city: city.name, model: provider.name, members: memberKeys.length, expected: provider.members },
+      "Fewer ensemble members than expected",
+    );
   }
 
-  // Group hourly temps by date
-  const byDate = new Map<string, number[][]>(); // date -> member[] -> hourly temps
+  const gridElevationM = typeof data.elevation === "number" && Number.isFinite(data.elevation) ? data.elevation : null;
+  const shift = lapseRateAdjustment(gridElevationM, target.targetElevationM);
+  const series = memberKeys.map((k) =>
+    (hourly as Record<string, Array<number | null>>)[k].map((v) => (v == null ? v : v + shift)),
+  );
+  const daily = aggregateDaily(times, series, city.timezone, city.unit, dayBasis(city));
+
+  return {
+    city: city.slug,
+    model: provider.name,
+    modelRun,
+    fetchedAt: Date.now(),
+    point: {
+      ...target,
+      gridElevationM,
+      targetElevationM: gridElevationM === null ? null : target.targetElevationM, // null = not adjusted
+    },
+    daily,
+  };
+}
+
+/**
+ * Reduce hourly member temperatures (°C, GMT timestamps) to per-member daily
+ * highs and lows over each station climate day — midnight to midnight local
+ * standard time for NWS CLI stations, local civil time for METAR-settled
+ * ones. Values are converted to `unit` here; °C cities stay in °C so bracket
+ * math never round-trips through °F rounding. Days the hourly series does
+ * not fully cover (the ragged ends of the request) are dropped.
+ */
+export function aggregateDaily(
+  times: string[],
+  series: Array<Array<number | null>>,
+  timezone: string,
+  unit: TempUnit = "F",
+  basis: DayBasis = "standard",
+): DailyForecast[] {
+  const byDate = new Map<string, { hours: number; members: number[][] }>();
+  const convert = unit === "F" ? celsiusToFahrenheit : (c: number) => c;
 
   for (let i = 0; i < times.length; i++) {
-    const date = times[i].slice(0, 10); // YYYY-MM-DD
-    if (!byDate.has(date)) {
-      byDate.set(date, memberKeys.map(() => []));
+    const date = climateDate(parseGmtTimestamp(times[i]), timezone, basis);
+    let day = byDate.get(date);
+    if (!day) {
+      day = { hours: 0, members: series.map(() => []) };
+      byDate.set(date, day);
     }
-    const members = byDate.get(date)!;
-    for (let m = 0; m < memberKeys.length; m++) {
-      const val = (hourly as Record<string, number[]>)[memberKeys[m]][i];
+    day.hours++;
+    for (let m = 0; m < series.length; m++) {
+      const val = series[m][i];
       if (val != null) {
-        members[m].push(celsiusToFahrenheit(val));
+        day.members[m].push(convert(val));
       }
     }
   }
 
   // Extract daily high/low per member
   const daily: DailyForecast[] = [];
-  for (const [date, members] of byDate) {
+  for (const [date, day] of byDate) {
+    const hours = climateDayHours(date, timezone, basis);
+    if (day.hours < hours) continue; // partial window
     const highs: number[] = [];
     const lows: number[] = [];
-    for (const temps of members) {
-      if (temps.length === 0) continue;
-      highs.push(Math.round(Math.max(...temps)));
-      lows.push(Math.round(Math.min(...temps)));
+    for (const temps of day.members) {
+      if (temps.length < hours) continue; // member missing hours
+      // Keep tenths: probability.ts applies the station rounding rule
+      highs.push(Math.round(Math.max(...temps) * 10) / 10);
+      lows.push(Math.round(Math.min(...temps) * 10) / 10);
     }
     if (highs.length > 0) {
       daily.push({ date, highs, lows });
     }
   }
 
-  return {
-    city: city.slug,
-    fetchedAt: Date.now(),
-    daily,
-  };
+  return daily;
 }
 
 // Open-Meteo response shape
 interface OpenMeteoEnsembleResponse {
+  elevation?: number; // model cell elevation when the request passes elevation=nan
   hourly: {
     time: string[];
     [key: string]: number[] | string[];
   };
 }
 
-export async function fetchAllEnsembles(cities: CityConfig[]): Promise<Map<string, EnsembleForecast>> {
+/**
+ * Fetch one provider's ensembles for a set of cities from Open-Meteo.
+ *
+ * Cities already holding the provider's latest run are served from cache;
+ * the rest go out together, up to MAX_LOCATIONS_PER_REQUEST points per
+ * request, so a refresh is one call per model rather than one per city.
+ * A failed request is retried city by city; a city whose own fetch fails
+ * keeps its last good run.
+ */
+export async function fetchAllEnsembles(
+  provider: ForecastProvider,
+  cities: CityConfig[],
+  pointKind: ForecastPointKind = "station",
+): Promise<Map<string, EnsembleForecast>> {
   const results = new Map<string, EnsembleForecast>();
-  // Sequential with delay to avoid 429 rate limits from Open-Meteo
+  const latest = await fetchLatestRun(provider);
+
+  const due: Array<{ city: CityConfig; previous: EnsembleForecast | null }> = [];
   for (const city of cities) {
+    const { current, previous } = cachedEnsemble(provider, city, pointKind, latest.initTime);
+    if (current) results.set(city.slug, current);
+    else due.push({ city, previous });
+  }
+
+  for (let i = 0; i < due.length; i += MAX_LOCATIONS_PER_REQUEST) {
+    const batch = due.slice(i, i + MAX_LOCATIONS_PER_REQUEST);
+    const targets = batch.map(({ city }) => forecastPoint(city, pointKind));
+    if (i > 0) await Bun.sleep(BATCH_DELAY_MS);
+
+    logger.debug(
+      { model: provider.name, cities: batch.map(({ city }) => city.slug), point: pointKind },
+      "Fetching ensembles",
+    );
+
+    const accept = ({ city, previous }: (typeof batch)[number], response: OpenMeteoEnsembleResponse, j: number) => {
+      try {
+        const forecast = parseEnsembleResponse(provider, city, response, latest.initTime, targets[j]);
+        storeEnsemble(provider, city, pointKind, forecast, previous, latest.source);
+        results.set(city.slug, forecast);
+        recordForecastFetch(provider.name, city.slug, null);
+      } catch (err) {
+        useLastGood(provider, city, pointKind, err, results);
+      }
+    };
+
+    let responses: OpenMeteoEnsembleResponse[];
     try {
-      const forecast = await fetchEnsemble(city);
-      results.set(city.slug, forecast);
+      responses = await requestEnsembles(provider, targets);
     } catch (err) {
-      logger.error({ city: city.name, err }, "Failed to fetch ensemble");
+      if (batch.length === 1) {
+        useLastGood(provider, batch[0].city, pointKind, err, results);
+        continue;
+      }
+      // One bad point fails the whole request: retry city by city so only
+      // the cities that still fail fall back to their last good run
+      logger.warn({ model: provider.name, cities: batch.length, err }, "Batched ensemble request failed — retrying per city");
+      for (let j = 0; j < batch.length; j++) {
+        await Bun.sleep(BATCH_DELAY_MS);
+        try {
+          const [response] = await requestEnsembles(provider, [targets[j]]);
+          accept(batch[j], response, j);
+        } catch (cityErr) {
+          useLastGood(provider, batch[j].city, pointKind, cityErr, results);
+        }
+      }
+      continue;
     }
-    await new Promise((r) => setTimeout(r, 200));
+
+    batch.forEach((entry, j) => accept(entry, responses[j], j));
+  }
+  return results;
+}
+
+function useLastGood(
+  provider: ForecastProvider,
+  city: CityConfig,
+  pointKind: ForecastPointKind,
+  err: unknown,
+  results: Map<string, EnsembleForecast>,
+): void {
+  recordForecastFetch(provider.name, city.slug, err instanceof Error ? err.message : String(err));
+  const lastGood = lastGoodEnsemble(provider, city, pointKind);
+  if (lastGood) {
+    results.set(city.slug, lastGood);
+    logger.warn(
+      { city: city.name, model: provider.name, run: new Date(lastGood.modelRun).toISOString().slice(0, 13) + "z", err },
+      "Failed to fetch ensemble — using last good run",
+    );
+  } else {
+    logger.error({ city: city.name, model: provider.name, err }, "Failed to fetch ensemble");
+  }
+}
+
+/**
+ * Fetch every provider's ensembles for every city.
+ */
+export async function fetchProviderEnsembles(
+  providers: ForecastProvider[],
+  cities: CityConfig[],
+  pointKind: ForecastPointKind = "station",
+): Promise<ProviderEnsembles> {
+  const results: ProviderEnsembles = new Map();
+  for (const provider of providers) {
+    results.set(provider.name, await fetchAllEnsembles(provider, cities, pointKind));
   }
   return results;
 }
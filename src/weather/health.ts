@@ -0,0 +1,101 @@
+import { getForecastFetchStates, getLatestForecastSnapshot } from "../store/db.js";
+import type { CityConfig, ForecastHealth, ForecastPointKind, ForecastProvider } from "../types.js";
+
+// Forecast freshness.
+//
+// When a fetch fails the last good run stays in use (see fetchAllEnsembles),
+// so a city does not go dark because one request did. But an old run is a
+// worse forecast and the market has usually priced the newer one, so the
+// consensus tier pays for staleness and a run past MAX_STALE_HOURS is not
+// used at all.
+
+const HOUR_MS = 60 * 60 * 1000;
+const STALE_GRACE_HOURS = 2; // publication running late is not a failure
+const STALE_STEP_HOURS = 12; // one tier step per started 12h of staleness
+export const MAX_STALE_HOURS = 24;
+
+/**
+ * Hours a run has outlived its replacement: a run is due to be superseded
+ * runIntervalMs (one cycle) + runDelayMs (publication lag) after its init time.
+ * 0 while it is still the newest run the provider should be serving.
+ */
+export function staleHours(provider: ForecastProvider, modelRun: number, now = Date.now()): number {
+  const dueAt = modelRun + provider.runIntervalMs + provider.runDelayMs;
+  const hours = (now - dueAt) / HOUR_MS - STALE_GRACE_HOURS;
+  return hours > 0 ? Math.round(hours * 10) / 10 : 0;
+}
+
+/**
+ * Consensus tier steps a model's staleness costs: one per started
+ * STALE_STEP_HOURS. Only meaningful up to MAX_STALE_HOURS; beyond that the
+ * model is excluded.
+ */
+export function stalePenalty(hours: number): number {
+  return Math.ceil(hours / STALE_STEP_HOURS);
+}
+
+export function isExcluded(hours: number): boolean {
+  return hours > MAX_STALE_HOURS;
+}
+
+/**
+ * Freshness of every provider's newest stored run per city, with the last
+ * fetch outcome. Read from the database so one-shot commands see what the
+ * daemon has been fetching.
+ */
+export function forecastHealth(
+  providers: ForecastProvider[],
+  cities: CityConfig[],
+  pointKind: ForecastPointKind,
+  now = Date.now(),
+): ForecastHealth[] {
+  const fetches = new Map(getForecastFetchStates().map((f) => [`${f.provider}:${f.city}`, f]));
+  const health: ForecastHealth[] = [];
+
+  for (const provider of providers) {
+    for (const city of cities) {
+      const fetch = fetches.get(`${provider.name}:${city.slug}`);
+      const snapshot = getLatestForecastSnapshot(provider.name, city.slug, pointKind);
+      const stale = snapshot ? staleHours(provider, snapshot.modelRun, now) : null;
+      health.push({
+        provider: provider.name,
+        city: city.slug,
+        status: stale === null ? "missing" : isExcluded(stale) ? "excluded" : stale > 0 ? "stale" : "fresh",
+        modelRun: snapshot?.modelRun ?? null,
+        staleHours: stale,
+        lastSuccessAt: fetch?.lastSuccessAt ?? null,
+        lastErrorAt: fetch?.lastErrorAt ?? null,
+        lastError: fetch?.lastError ?? null,
+      });
+    }
+  }
+  return health;
+}
+
+/**
+ * Per-provider roll-up of `forecastHealth`: city counts by status, the
+ * oldest run held and the most recent error.
+ */
+export function summarizeHealth(health: ForecastHealth[]): Array<{
+  provider: string;
+  counts: Record<ForecastHealth["status"], number>;
+  oldestRun: number | null;
+  lastError: { city: string; at: number; message: string } | null;
+}> {
+  const providers = [...new Set(health.map((h) => h.provider))];
+  return providers.map((provider) => {
+    const rows = health.filter((h) => h.provider === provider);
+    const counts = { fresh: 0, stale: 0, excluded: 0, missing: 0 };
+    for (const h of rows) counts[h.status]++;
+    const runs = rows.flatMap((h) => (h.modelRun !== null ? [h.modelRun] : []));
+    const failed = rows
+      .filter((h) => h.lastErrorAt !== null && (h.lastSuccessAt === null || h.lastErrorAt > h.lastSuccessAt))
+      .sort((a, b) => b.lastErrorAt! - a.lastErrorAt!)[0];
+    return {
+      provider,
+      counts,
+      oldestRun: runs.length > 0 ? Math.min(...runs) : null,
+      lastError: failed ? { city: failed.city, at: failed.lastErrorAt!, message: failed.lastError ?? "" } : null,
+    };
+  });
+}
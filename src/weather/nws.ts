@@ -1,69 +1,121 @@
 import { logger } from "../logger.js";
 import { fetchWithRetry } from "../utils/retry.js";
-import type { CityConfig } from "../types.js";
+import { getLatestForecastSnapshot, upsertForecastSnapshot } from "../store/db.js";
+import { climateDayHours, climateDayWindow, dayBasis } from "./climate-day.js";
+import type { CityConfig, NWSForecast, NWSParticipation, NWSPeriod, ParsedMarket } from "../types.js";
 
 const CACHE_TTL_MS = 60 * 60 * 1000; // 1 hour
 
-interface NWSForecast {
-  city: string;
-  fetchedAt: number;
-  periods: NWSPeriod[];
-}
-
-interface NWSPeriod {
-  name: string;
-  startTime: string;
-  endTime: string;
-  temperature: number; // Fahrenheit
-  isDaytime: boolean;
-}
+// forecasts-table provider per gridpoint endpoint
+const ENDPOINTS = {
+  periods: { provider: "nws", path: "forecast" },
+  hourly: { provider: "nws-hourly", path: "forecast/hourly" },
+} as const;
 
 const cache = new Map<string, NWSForecast>();
 
 /**
- * Fetch NWS hourly gridpoint forecast as a tiebreaker signal.
- * This is the official NWS point forecast, not ensemble data.
+ * One gridpoint endpoint's periods, from the forecasts table when a process
+ * fetched them within the hour, else from api.weather.gov.
  */
-export async function fetchNWSForecast(city: CityConfig): Promise<NWSForecast | null> {
-  const cached = cache.get(city.slug);
-  if (cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) {
-    return cached;
+async function loadPeriods(
+  city: CityConfig,
+  endpoint: keyof typeof ENDPOINTS,
+): Promise<{ updatedAt: number; fetchedAt: number; periods: NWSPeriod[] } | null> {
+  const { provider, path } = ENDPOINTS[endpoint];
+
+  const stored = getLatestForecastSnapshot(provider, city.slug, "centroid"); // gridpoint snapshots carry no point
+  if (stored && Date.now() - stored.fetchedAt < CACHE_TTL_MS) {
+    return { updatedAt: stored.modelRun, fetchedAt: stored.fetchedAt, periods: stored.payload as NWSPeriod[] };
   }
 
   try {
-    const url = `https://api.weather.gov/gridpoints/${city.nwsGridId}/${city.nwsGridX},${city.nwsGridY}/forecast`;
+    const url = `https://api.weather.gov/gridpoints/${city.nwsGridId}/${city.nwsGridX},${city.nwsGridY}/${path}`;
     const res = await fetchWithRetry(url, {
       headers: { "User-Agent": "WeatherClaw/1.0 (weather-bot)" },
     });
 
     if (!res.ok) {
-      logger.warn({ city: city.name, status: res.status }, "NWS API error");
+      logger.warn({ city: city.name, endpoint, status: res.status }, "NWS API error");
       return null;
     }
 
     const data = (await res.json()) as NWSApiResponse;
     if (!data.properties?.periods) return null;
 
-    const forecast: NWSForecast = {
-      city: city.slug,
-      fetchedAt: Date.now(),
-      periods: data.properties.periods.map((p) => ({
-        name: p.name,
-        startTime: p.startTime,
-        endTime: p.endTime,
-        temperature: p.temperature,
-        isDaytime: p.isDaytime,
-      })),
-    };
-
-    cache.set(city.slug, forecast);
-    logger.debug({ city: city.name, periods: forecast.periods.length }, "NWS forecast cached");
-
-    return forecast;
+    const fetchedAt = Date.now();
+    const updatedAt = Date.parse(data.properties.updateTime ?? "") || fetchedAt;
+    const periods = data.properties.periods.map((p) => ({
+      name: p.name,
+      startTime: p.startTime,
+      endTime: p.endTime,
+      temperature: p.temperature,
+      isDaytime: p.isDaytime,
+    }));
+
+    upsertForecastSnapshot({ provider, city: city.slug, modelRun: updatedAt, fetchedAt, payload: periods });
+    return { updatedAt, fetchedAt, periods };
   } catch (err) {
-    logger.error({ city: city.name, err }, "NWS fetch failed");
+    logger.error({ city: city.name, endpoint, err }, "NWS fetch failed");
+    return null;
+  }
+}
+
+/**
+ * Forget the forecasts held in memory; the forecasts table still serves
+ * them for the rest of the hour.
+ */
+export function clearNWSCache(): void {
+  cache.clear();
+}
+
+/**
+ * Fetch the NWS gridpoint forecast — 12-hour periods plus the hourly
+ * breakdown — as a check on the ensembles.
+ * This is the official NWS point forecast, not ensemble data.
+ */
+export async function fetchNWSForecast(city: CityConfig): Promise<NWSForecast | null> {
+  // International cities have no NWS grid — no check, not an error
+  if (!city.nwsGridId || city.nwsGridX === undefined || city.nwsGridY === undefined) {
     return null;
   }
+
+  const cached = cache.get(city.slug);
+  if (cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) {
+    return cached;
+  }
+
+  const periods = await loadPeriods(city, "periods");
+  const hourly = await loadPeriods(city, "hourly");
+  if (!periods && !hourly) return null;
+
+  const forecast: NWSForecast = {
+    city: city.slug,
+    updatedAt: periods?.updatedAt ?? hourly!.updatedAt,
+    fetchedAt: Math.min(periods?.fetchedAt ?? Infinity, hourly?.fetchedAt ?? Infinity),
+    periods: periods?.periods ?? [],
+    hourly: hourly?.periods ?? [],
+  };
+  cache.set(city.slug, forecast);
+  logger.debug({ city: city.name, periods: forecast.periods.length, hourly: forecast.hourly.length }, "NWS forecast cached");
+  return forecast;
+}
+
+/**
+ * NWS forecasts for every city with a market, keyed by city slug. Cities
+ * without an NWS grid or forecast are left out.
+ */
+export async function fetchNWSForecasts(
+  markets: ParsedMarket[],
+  cities: CityConfig[],
+): Promise<Map<string, NWSForecast>> {
+  const results = new Map<string, NWSForecast>();
+  for (const city of cities) {
+    if (!city.nwsGridId || !markets.some((m) => m.city === city.slug)) continue;
+    const forecast = await fetchNWSForecast(city);
+    if (forecast) results.set(city.slug, forecast);
+  }
+  return results;
 }
 
 /**
@@ -81,8 +133,62 @@ export function getNWSHigh(forecast: NWSForecast, date: string): number | null {
   return null;
 }
 
+/**
+ * Get NWS predicted overnight low for a specific date: the night period
+ * ending that morning, which is when the climate-day minimum usually occurs.
+ */
+export function getNWSLow(forecast: NWSForecast, date: string): number | null {
+  for (const p of forecast.periods) {
+    if (!p.isDaytime && p.endTime.slice(0, 10) === date) {
+      return p.temperature;
+    }
+  }
+  return null;
+}
+
+/**
+ * Max/min of the hourly forecast over the station's climate day — the same
+ * window the market settles on, which the 12-hour periods only approximate.
+ * Null unless every hour of the day is covered (today's past hours are
+ * dropped from the feed).
+ */
+export function getNWSHourlyExtreme(
+  forecast: NWSForecast,
+  city: CityConfig,
+  date: string,
+  metric: "high" | "low",
+): number | null {
+  const basis = dayBasis(city);
+  const { start, end } = climateDayWindow(date, city.timezone, basis);
+  const temps = forecast.hourly
+    .filter((p) => {
+      const t = Date.parse(p.startTime);
+      return t >= start && t < end;
+    })
+    .map((p) => p.temperature);
+  if (temps.length < climateDayHours(date, city.timezone, basis)) return null;
+  return metric === "high" ? Math.max(...temps) : Math.min(...temps);
+}
+
+/**
+ * NWS high/low for a market's climate day: the hourly extreme when the day
+ * is fully covered, else the 12-hour period forecast.
+ */
+export function getNWSTemp(
+  forecast: NWSForecast,
+  city: CityConfig,
+  date: string,
+  metric: "high" | "low",
+): Omit<NWSParticipation, "inRange"> | null {
+  const hourly = getNWSHourlyExtreme(forecast, city, date, metric);
+  if (hourly !== null) return { temp: hourly, source: "hourly" };
+  const period = metric === "high" ? getNWSHigh(forecast, date) : getNWSLow(forecast, date);
+  return period !== null ? { temp: period, source: "period" } : null;
+}
+
 interface NWSApiResponse {
   properties?: {
+    updateTime?: string;
     periods?: Array<{
       name: string;
       startTime: string;
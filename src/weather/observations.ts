@@ -0,0 +1,169 @@
+import { logger } from "../logger.js";
+import { fetchWithRetry } from "../utils/retry.js";
+import { climateDate, climateDayWindow, dayBasis } from "./climate-day.js";
+import type {
+  CityConfig,
+  DailyForecast,
+  EnsembleForecast,
+  ObservedExtremes,
+  ParsedMarket,
+  TempUnit,
+} from "../types.js";
+
+// Intraday observations for same-day markets.
+//
+// Once a climate day is under way part of its high and low is already on the
+// record: if KNYC has reached 58°F by 2pm, the reported high cannot settle
+// below 58. We pull the station's ASOS/METAR reports so far from the Iowa
+// State archive and condition the ensemble on the running max and min.
+
+const CACHE_TTL_MS = 10 * 60 * 1000; // METARs arrive hourly (plus specials)
+const ASOS_URL = "https://mesonet.agron.iastate.edu/cgi-bin/request/asos.py";
+
+const cache = new Map<string, { fetchedAt: number; extremes: ObservedExtremes | null }>();
+
+export interface AsosObservation {
+  time: number; // ms UTC
+  temp: number;
+}
+
+/**
+ * Reports from an IEM ASOS "onlycomma" CSV (station,valid,<temp>), limited to
+ * [start, end). Missing values are skipped.
+ */
+export function parseAsosObservations(csv: string, start: number, end: number): AsosObservation[] {
+  const observations: AsosObservation[] = [];
+  for (const line of csv.trim().split("\n").slice(1)) {
+    const [, valid, temp] = line.split(",");
+    if (!valid || !temp || temp === "M") continue;
+    const time = Date.parse(`${valid.replace(" ", "T")}Z`);
+    if (time >= start && time < end) observations.push({ time, temp: Number(temp) });
+  }
+  return observations;
+}
+
+/**
+ * Routine and special reports for a station over [start, end), in `unit`.
+ * US stations report tenths of °C, which IEM carries through to tmpf.
+ */
+export async function fetchAsosObservations(
+  station: string,
+  start: number,
+  end: number,
+  unit: TempUnit,
+): Promise<AsosObservation[]> {
+  const url = new URL(ASOS_URL);
+  url.searchParams.set("station", station);
+  url.searchParams.set("data", unit === "F" ? "tmpf" : "tmpc");
+  url.searchParams.set("sts", `${new Date(start).toISOString().slice(0, 16)}Z`);
+  url.searchParams.set("ets", `${new Date(end).toISOString().slice(0, 16)}Z`);
+  url.searchParams.set("tz", "Etc/UTC");
+  url.searchParams.set("format", "onlycomma");
+  url.searchParams.set("latlon", "no");
+  url.searchParams.set("missing", "M");
+  url.searchParams.append("report_type", "3"); // routine
+  url.searchParams.append("report_type", "4"); // specials
+
+  const res = await fetchWithRetry(url.toString(), {}, 2, 2000);
+  if (!res.ok) {
+    throw new Error(`ASOS API error for ${station}: ${res.status} ${res.statusText}`);
+  }
+  return parseAsosObservations(await res.text(), start, end);
+}
+
+/**
+ * Running max/min of the climate day in progress at `now`, or null before
+ * the first report (or when the archive is unreachable).
+ */
+export async function fetchObservedExtremes(city: CityConfig, now = Date.now()): Promise<ObservedExtremes | null> {
+  const basis = dayBasis(city);
+  const date = climateDate(now, city.timezone, basis);
+  const key = `${city.iowaStation}:${date}`;
+
+  const cached = cache.get(key);
+  if (cached && now - cached.fetchedAt < CACHE_TTL_MS) {
+    return cached.extremes;
+  }
+
+  const { start } = climateDayWindow(date, city.timezone, basis);
+  let extremes: ObservedExtremes | null = null;
+  try {
+    const observations = await fetchAsosObservations(city.iowaStation, start, now, city.unit);
+    extremes = summarizeObservations(city.iowaStation, date, observations);
+  } catch (err) {
+    logger.warn({ city: city.name, err }, "Observation fetch failed");
+  }
+
+  cache.set(key, { fetchedAt: now, extremes });
+  if (extremes) {
+    logger.debug(
+      { city: city.name, date, high: extremes.high, low: extremes.low, observations: extremes.observations },
+      "Observations so far",
+    );
+  }
+  return extremes;
+}
+
+export function summarizeObservations(
+  station: string,
+  date: string,
+  observations: AsosObservation[],
+): ObservedExtremes | null {
+  if (observations.length === 0) return null;
+  const temps = observations.map((o) => o.temp);
+  return {
+    station,
+    date,
+    high: Math.max(...temps),
+    low: Math.min(...temps),
+    observations: observations.length,
+    asOf: Math.max(...observations.map((o) => o.time)),
+  };
+}
+
+/**
+ * Observations for every city with a market on the climate day currently in
+ * progress, keyed by city slug. Cities without reports yet are left out.
+ */
+export async function fetchSameDayObservations(
+  markets: ParsedMarket[],
+  cities: CityConfig[],
+  now = Date.now(),
+): Promise<Map<string, ObservedExtremes>> {
+  const results = new Map<string, ObservedExtremes>();
+  for (const city of cities) {
+    const today = climateDate(now, city.timezone, dayBasis(city));
+    if (!markets.some((m) => m.city === city.slug && m.date === today)) continue;
+    const extremes = await fetchObservedExtremes(city, now);
+    if (extremes) results.set(city.slug, extremes);
+  }
+  return results;
+}
+
+/**
+ * Condition one day's members on what has been observed: the final high is
+ * at least the running max and the final low at most the running min, so
+ * members on the wrong side are raised/lowered to the observation. The
+ * observed values are kept on the day so probabilities can also rule out
+ * brackets the kernel would otherwise leak into.
+ */
+export function conditionDay(day: DailyForecast, observed: ObservedExtremes): DailyForecast {
+  return {
+    ...day,
+    highs: day.highs.map((h) => Math.max(h, observed.high)),
+    lows: day.lows.map((l) => Math.min(l, observed.low)),
+    observedHigh: observed.high,
+    observedLow: observed.low,
+  };
+}
+
+/**
+ * Copy of an ensemble with the observed climate day conditioned. Other days
+ * pass through; the input is not mutated.
+ */
+export function conditionEnsemble(ensemble: EnsembleForecast, observed: ObservedExtremes): EnsembleForecast {
+  return {
+    ...ensemble,
+    daily: ensemble.daily.map((day) => (day.date === observed.date ? conditionDay(day, observed) : day)),
+  };
+}
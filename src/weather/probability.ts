@@ -1,14 +1,168 @@
-import type { DailyForecast, BucketProbability, EnsembleForecast } from "../types.js";
+import type { ClimatologyPrior, DailyForecast, BucketProbability, EnsembleForecast, ProbabilityMode, TempUnit } from "../types.js";
+
+// Kernel bandwidth floor in the members' unit (0.3 °C ≈ 0.5 °F). Keeps a
+// tightly clustered ensemble from collapsing back into point masses.
+const MIN_BANDWIDTH: Record<TempUnit, number> = { F: 0.5, C: 0.3 };
+const OVERLAP_GRID_POINTS = 400;
+
+export interface ProbabilityOptions {
+  mode: ProbabilityMode;
+  bandwidthScale?: number; // multiplier on Silverman's rule, 1.0 = plain Silverman
+  prior?: ClimatologyPrior; // blended in by getModelProbability
+  unit?: TempUnit; // of the members, for the bandwidth floor; °F when unset
+}
+
+const COUNT: ProbabilityOptions = { mode: "count" };
+
+/**
+ * Settlement stations report whole degrees, rounded half up.
+ */
+export function roundReported(temp: number): number {
+  return Math.floor(temp + 0.5);
+}
+
+/**
+ * Silverman's rule-of-thumb bandwidth, scaled and floored.
+ */
+export function kdeBandwidth(values: number[], scale = 1.0, unit: TempUnit = "F"): number {
+  const n = values.length;
+  if (n < 2) return MIN_BANDWIDTH[unit];
+  const mean = values.reduce((a, b) => a + b, 0) / n;
+  const sd = Math.sqrt(values.reduce((a, v) => a + (v - mean) ** 2, 0) / (n - 1));
+  const sorted = [...values].sort((a, b) => a - b);
+  const iqr = sorted[Math.floor(0.75 * (n - 1))] - sorted[Math.floor(0.25 * (n - 1))];
+  const spread = iqr > 0 ? Math.min(sd, iqr / 1.34) : sd;
+  return Math.max(MIN_BANDWIDTH[unit], scale * 0.9 * spread * Math.pow(n, -0.2));
+}
+
+// Standard normal CDF (Abramowitz & Stegun 7.1.26, |error| < 1.5e-7)
+function normalCdf(z: number): number {
+  if (z === Infinity) return 1;
+  if (z === -Infinity) return 0;
+  const t = 1 / (1 + 0.3275911 * Math.abs(z) / Math.SQRT2);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-(z * z) / 2);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Probability that the REPORTED (rounded) temperature lands in [min, max),
+ * from a Gaussian kernel density over unrounded member values.
+ * A reported r satisfies min <= r < max exactly when the true value lies in
+ * [min - 0.5, max - 0.5), so that is the interval we integrate.
+ */
+export function kdeProbability(
+  values: number[],
+  bracketMin: number,
+  bracketMax: number,
+  bandwidthScale = 1.0,
+  unit: TempUnit = "F",
+): number {
+  if (values.length === 0) return 0;
+  const h = kdeBandwidth(values, bandwidthScale, unit);
+  const lo = bracketMin - 0.5;
+  const hi = bracketMax - 0.5;
+  let sum = 0;
+  for (const v of values) {
+    sum += normalCdf((hi - v) / h) - normalCdf((lo - v) / h);
+  }
+  return sum / values.length;
+}
+
+function kernelDensity(values: number[], h: number, x: number): number {
+  let sum = 0;
+  for (const v of values) sum += Math.exp(-(((x - v) / h) ** 2) / 2);
+  return sum / (values.length * h * Math.sqrt(2 * Math.PI));
+}
+
+/**
+ * Overlapping coefficient of two ensembles' kernel densities: the area under
+ * the lower of the two curves. 1 = same distribution, 0 = disjoint.
+ */
+export function distributionOverlap(a: number[], b: number[], bandwidthScale = 1.0, unit: TempUnit = "F"): number {
+  if (a.length === 0 || b.length === 0) return 0;
+  const ha = kdeBandwidth(a, bandwidthScale, unit);
+  const hb = kdeBandwidth(b, bandwidthScale, unit);
+  const pad = 4 * Math.max(ha, hb);
+  const lo = Math.min(...a, ...b) - pad;
+  const step = (Math.max(...a, ...b) + pad - lo) / OVERLAP_GRID_POINTS;
+  let area = 0;
+  for (let i = 0; i < OVERLAP_GRID_POINTS; i++) {
+    const x = lo + (i + 0.5) * step;
+    area += Math.min(kernelDensity(a, ha, x), kernelDensity(b, hb, x)) * step;
+  }
+  return Math.min(1, area);
+}
+
+function countProbability(values: number[], bracketMin: number, bracketMax: number): number {
+  if (values.length === 0) return 0;
+  return values.filter((t) => {
+    const r = roundReported(t);
+    return r >= bracketMin && r < bracketMax;
+  }).length / values.length;
+}
+
+function unconditionedProbability(
+  values: number[],
+  bracketMin: number,
+  bracketMax: number,
+  options: ProbabilityOptions,
+): number {
+  // KDE needs a spread to estimate; fall back to counting below 2 members
+  if (options.mode === "kde" && values.length >= 2) {
+    return kdeProbability(values, bracketMin, bracketMax, options.bandwidthScale, options.unit);
+  }
+  return countProbability(values, bracketMin, bracketMax);
+}
+
+/**
+ * Reported values still possible given same-day observations, as [min, max):
+ * the high settles at or above the rounded running max, the low at or below
+ * the rounded running min. Unbounded when the day is not conditioned.
+ */
+export function feasibleRange(forecast: DailyForecast, metric: "high" | "low"): [number, number] {
+  if (metric === "high" && forecast.observedHigh !== undefined) {
+    return [roundReported(forecast.observedHigh), Infinity];
+  }
+  if (metric === "low" && forecast.observedLow !== undefined) {
+    return [-Infinity, roundReported(forecast.observedLow) + 1];
+  }
+  return [-Infinity, Infinity];
+}
+
+/**
+ * P(bracket | reported value in the feasible range). Brackets the
+ * observations have already ruled out are 0, and kernel mass leaking past
+ * the observed bound is renormalized away.
+ */
+function bracketProbability(
+  values: number[],
+  bracketMin: number,
+  bracketMax: number,
+  options: ProbabilityOptions,
+  feasible: [number, number] = [-Infinity, Infinity],
+): number {
+  if (feasible[0] === -Infinity && feasible[1] === Infinity) {
+    return unconditionedProbability(values, bracketMin, bracketMax, options);
+  }
+  const lo = Math.max(bracketMin, feasible[0]);
+  const hi = Math.min(bracketMax, feasible[1]);
+  if (lo >= hi) return 0;
+  const total = unconditionedProbability(values, feasible[0], feasible[1], options);
+  return total > 0 ? unconditionedProbability(values, lo, hi, options) / total : 0;
+}
 
 /**
  * Calculate probability that a temperature falls within a bracket.
  * Supports variable bracket widths to match Polymarket formats.
+ * `memberCount` is always the raw member count, whatever the mode.
  */
 export function calcBucketProbability(
   forecast: DailyForecast,
   metric: "high" | "low",
   bracketMin: number,
   bracketMax: number,
+  options: ProbabilityOptions = COUNT,
 ): BucketProbability {
   const temps = metric === "high" ? forecast.highs : forecast.lows;
   const total = temps.length;
@@ -24,7 +178,10 @@ export function calcBucketProbability(
     };
   }
 
-  const inBucket = temps.filter((t) => t >= bracketMin && t < bracketMax).length;
+  const inBucket = temps.filter((t) => {
+    const r = roundReported(t);
+    return r >= bracketMin && r < bracketMax;
+  }).length;
 
   return {
     city: "",
@@ -32,7 +189,7 @@ export function calcBucketProbability(
     metric,
     bracketMin,
     bracketMax,
-    probability: inBucket / total,
+    probability: bracketProbability(temps, bracketMin, bracketMax, options, feasibleRange(forecast, metric)),
     memberCount: inBucket,
   };
 }
@@ -44,10 +201,10 @@ export function calcAboveProbability(
   forecast: DailyForecast,
   metric: "high" | "low",
   threshold: number,
+  options: ProbabilityOptions = COUNT,
 ): number {
   const temps = metric === "high" ? forecast.highs : forecast.lows;
-  if (temps.length === 0) return 0;
-  return temps.filter((t) => t >= threshold).length / temps.length;
+  return bracketProbability(temps, threshold, Infinity, options, feasibleRange(forecast, metric));
 }
 
 /**
@@ -57,14 +214,17 @@ export function calcBelowProbability(
   forecast: DailyForecast,
   metric: "high" | "low",
   threshold: number,
+  options: ProbabilityOptions = COUNT,
 ): number {
   const temps = metric === "high" ? forecast.highs : forecast.lows;
-  if (temps.length === 0) return 0;
-  return temps.filter((t) => t < threshold).length / temps.length;
+  return bracketProbability(temps, -Infinity, threshold, options, feasibleRange(forecast, metric));
 }
 
 /**
- * Get model probability for a parsed market bracket.
+ * Get model probability for a parsed market bracket. With a climatology
+ * prior the result is the mixture
+ *   (1 - w) * P_ensemble + w * P_climatology
+ * with the prior's values priced the same way as the members.
  */
 export function getModelProbability(
   ensemble: EnsembleForecast,
@@ -73,16 +233,30 @@ export function getModelProbability(
   bracketType: "above" | "below" | "between",
   bracketMin: number,
   bracketMax: number,
+  options: ProbabilityOptions = COUNT,
 ): number | null {
   const day = ensemble.daily.find((d) => d.date === date);
   if (!day) return null;
 
+  let probability: number;
   switch (bracketType) {
     case "above":
-      return calcAboveProbability(day, metric, bracketMin);
+      probability = calcAboveProbability(day, metric, bracketMin, options);
+      break;
     case "below":
-      return calcBelowProbability(day, metric, bracketMax);
+      probability = calcBelowProbability(day, metric, bracketMax, options);
+      break;
     case "between":
-      return calcBucketProbability(day, metric, bracketMin, bracketMax).probability;
+      probability = calcBucketProbability(day, metric, bracketMin, bracketMax, options).probability;
+      break;
   }
+
+  const prior = options.prior;
+  const values = prior ? (metric === "high" ? prior.highs : prior.lows) : [];
+  if (!prior || prior.weight <= 0 || values.length === 0) return probability;
+
+  const lo = bracketType === "below" ? -Infinity : bracketMin;
+  const hi = bracketType === "above" ? Infinity : bracketMax;
+  const climatology = bracketProbability(values, lo, hi, options, feasibleRange(day, metric));
+  return (1 - prior.weight) * probability + prior.weight * climatology;
 }
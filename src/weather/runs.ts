@@ -0,0 +1,141 @@
+import { logger } from "../logger.js";
+import { fetchWithRetry } from "../utils/retry.js";
+import type { DailyForecast, ForecastProvider, ModelRunInfo, ProviderEnsembles, RunShift } from "../types.js";
+
+// Model-run awareness.
+//
+// Open-Meteo publishes each model's latest run in a small meta.json next to
+// the data. Polling it tells us which 00z/06z/12z/18z cycle a fetch returns,
+// and when a new one lands — the minutes before the market reprices on it
+// are when the edge is largest.
+
+const META_API = "https://ensemble-api.open-meteo.com/data";
+const META_CACHE_TTL_MS = 60 * 1000; // the daemon polls once per market scan
+
+const metaCache = new Map<string, { fetchedAt: number; run: ModelRunInfo }>();
+
+/**
+ * Init time of the newest run Open-Meteo should be serving by the clock:
+ * runs start every runIntervalMs (00z/06z/...) and appear runDelayMs later.
+ * Only used when the run metadata cannot be fetched.
+ */
+export function latestModelRun(provider: ForecastProvider, now = Date.now()): number {
+  const cycle = provider.runIntervalMs;
+  return Math.floor((now - provider.runDelayMs) / cycle) * cycle;
+}
+
+/**
+ * Parse an Open-Meteo meta.json. Times there are unix seconds.
+ */
+export function parseRunMeta(provider: ForecastProvider, meta: OpenMeteoMeta): ModelRunInfo | null {
+  const init = meta.last_run_initialisation_time;
+  if (typeof init !== "number" || !Number.isFinite(init)) return null;
+  const available = meta.last_run_availability_time;
+  return {
+    provider: provider.name,
+    initTime: init * 1000,
+    availableAt: typeof available === "number" ? available * 1000 : null,
+    source: "meta",
+  };
+}
+
+/**
+ * Latest run a provider is serving. Falls back to the schedule estimate (and
+ * says so in `source`) when the metadata is unreachable.
+ */
+export async function fetchLatestRun(provider: ForecastProvider, now = Date.now()): Promise<ModelRunInfo> {
+  const cached = metaCache.get(provider.name);
+  if (cached && now - cached.fetchedAt < META_CACHE_TTL_MS) {
+    return cached.run;
+  }
+
+  let run: ModelRunInfo | null = null;
+  try {
+    const res = await fetchWithRetry(`${META_API}/${provider.metaModel}/static/meta.json`, {}, 2, 1000);
+    if (res.ok) {
+      run = parseRunMeta(provider, (await res.json()) as OpenMeteoMeta);
+    } else {
+      logger.warn({ model: provider.name, status: res.status }, "Open-Meteo run metadata error");
+    }
+  } catch (err) {
+    logger.warn({ model: provider.name, err }, "Open-Meteo run metadata fetch failed");
+  }
+
+  run ??= { provider: provider.name, initTime: latestModelRun(provider, now), availableAt: null, source: "schedule" };
+  metaCache.set(provider.name, { fetchedAt: now, run });
+  return run;
+}
+
+/**
+ * Providers whose latest published run is newer than every forecast held in
+ * `ensembles` — a refetch now picks up a run the market may not have priced.
+ */
+export async function detectNewRuns(
+  providers: ForecastProvider[],
+  ensembles: ProviderEnsembles,
+  now = Date.now(),
+): Promise<ModelRunInfo[]> {
+  const fresh: ModelRunInfo[] = [];
+  for (const provider of providers) {
+    const byCity = ensembles.get(provider.name);
+    if (!byCity || byCity.size === 0) continue; // nothing held yet; the regular refresh fetches it
+    const held = Math.max(...[...byCity.values()].map((e) => e.modelRun));
+    const latest = await fetchLatestRun(provider, now);
+    if (latest.initTime > held) fresh.push(latest);
+  }
+  return fresh;
+}
+
+function meanAndSd(values: number[]): { mean: number; sd: number } {
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  const sd = Math.sqrt(values.reduce((a, v) => a + (v - mean) ** 2, 0) / values.length);
+  return { mean, sd };
+}
+
+/**
+ * Per date and metric, how the member distribution moved from one run to the
+ * next. Dates only one of the runs covers are skipped.
+ */
+export function computeRunShifts(
+  provider: string,
+  city: string,
+  previous: { modelRun: number; daily: DailyForecast[] },
+  next: { modelRun: number; daily: DailyForecast[] },
+  now = Date.now(),
+): RunShift[] {
+  const shifts: RunShift[] = [];
+  const before = new Map(previous.daily.map((d) => [d.date, d]));
+
+  for (const day of next.daily) {
+    const prev = before.get(day.date);
+    if (!prev) continue;
+    for (const metric of ["high", "low"] as const) {
+      const a = metric === "high" ? prev.highs : prev.lows;
+      const b = metric === "high" ? day.highs : day.lows;
+      if (a.length === 0 || b.length === 0) continue;
+      const p = meanAndSd(a);
+      const n = meanAndSd(b);
+      shifts.push({
+        provider,
+        city,
+        date: day.date,
+        metric,
+        previousRun: previous.modelRun,
+        modelRun: next.modelRun,
+        previousMean: Math.round(p.mean * 10) / 10,
+        mean: Math.round(n.mean * 10) / 10,
+        meanShift: Math.round((n.mean - p.mean) * 100) / 100,
+        spreadShift: Math.round((n.sd - p.sd) * 100) / 100,
+        recordedAt: now,
+      });
+    }
+  }
+
+  return shifts;
+}
+
+// Open-Meteo static/meta.json (fields we use)
+interface OpenMeteoMeta {
+  last_run_initialisation_time?: number;
+  last_run_availability_time?: number;
+}
@@ -0,0 +1,100 @@
+import { describe, test, expect } from "bun:test";
+import { groupEvents, partitionIssues } from "../src/market/events.js";
+import { findArbBaskets, priceEvent } from "../src/engine/arbitrage.js";
+import type { AppConfig, ParsedMarket } from "../src/types.js";
+
+const CONFIG = { bankrollUsdc: 100, maxPositionPct: 0.05 } as AppConfig;
+
+function bracket(type: ParsedMarket["bracketType"], min: number, max: number, bid: number, ask: number, overrides: Partial<ParsedMarket> = {}): ParsedMarket {
+  return {
+    conditionId: `c-${min}-${max}`,
+    title: "",
+    city: "nyc",
+    date: "2026-07-14",
+    metric: "high",
+    unit: "F",
+    bracketMin: min,
+    bracketMax: max,
+    bracketType: type,
+    yesTokenId: `yes-${min}`,
+    noTokenId: `no-${min}`,
+    yesPrice: (bid + ask) / 2,
+    noPrice: 1 - (bid + ask) / 2,
+    yesBid: bid,
+    yesAsk: ask,
+    eventId: "event-1",
+    negRisk: true,
+    volume: 5000,
+    endDateIso: "2026-07-15T00:00:00Z",
+    ...overrides,
+  };
+}
+
+// ≤85, 86-87, 88-89, ≥90 — listed out of order
+function event(quotes: Array<[number, number]>, overrides: Partial<ParsedMarket> = {}): ParsedMarket[] {
+  return [
+    bracket("between", 88, 90, ...quotes[2], overrides),
+    bracket("below", -Infinity, 86, ...quotes[0], overrides),
+    bracket("above", 90, Infinity, ...quotes[3], overrides),
+    bracket("between", 86, 88, ...quotes[1], overrides),
+  ];
+}
+
+describe("groupEvents", () => {
+  test("groups brackets by event, lowest first, and checks the partition", () => {
+    const [e] = groupEvents(event([[0.1, 0.12], [0.3, 0.32], [0.4, 0.42], [0.15, 0.17]]));
+    expect(e.brackets.map((b) => b.bracketMin)).toEqual([-Infinity, 86, 88, 90]);
+    expect(e.partitionIssues).toEqual([]);
+    expect(e.negRisk).toBe(true);
+  });
+
+  test("reports gaps, overlaps and missing tails", () => {
+    const sorted = (ms: ParsedMarket[]) => [...ms].sort((a, b) => a.bracketMin - b.bracketMin);
+    expect(partitionIssues(sorted([
+      bracket("below", -Infinity, 86, 0, 0),
+      bracket("between", 88, 90, 0, 0),
+      bracket("between", 89, 91, 0, 0),
+    ]))).toEqual(["no upper tail above 89-90", "gap between ≤85 and 88-89", "88-89 overlaps 89-90"]);
+  });
+});
+
+describe("event pricing and baskets", () => {
+  test("a fairly priced event has no flags and no basket", () => {
+    const [e] = groupEvents(event([[0.1, 0.12], [0.3, 0.32], [0.4, 0.42], [0.15, 0.17]]));
+    const pricing = priceEvent(e);
+    expect(pricing.yesAskSum).toBe(1.03);
+    expect(pricing.noAskSum).toBe(3.05);
+    expect(pricing.flags).toEqual([]);
+    expect(findArbBaskets([e], CONFIG)).toEqual([]);
+  });
+
+  test("YES asks under 1 → a YES basket sized in whole sets", () => {
+    const [e] = groupEvents(event([[0.08, 0.1], [0.28, 0.3], [0.36, 0.38], [0.12, 0.14]]));
+    expect(priceEvent(e).flags).toContain("yes-asks-under-1");
+    const [basket] = findArbBaskets([e], CONFIG, 0);
+    expect(basket.side).toBe("YES");
+    expect(basket.cost).toBe(0.92);
+    expect(basket.profit).toBe(0.08);
+    expect(basket.sets).toBe(5); // $5 budget / 0.92
+    expect(basket.legs.map((l) => l.tokenId)).toEqual(["yes--Infinity", "yes-86", "yes-88", "yes-90"]);
+  });
+
+  test("YES bids over 1 → NO asks under brackets - 1 → a NO basket", () => {
+    const [e] = groupEvents(event([[0.12, 0.14], [0.33, 0.35], [0.42, 0.44], [0.18, 0.2]]));
+    const pricing = priceEvent(e);
+    expect(pricing.flags).toContain("no-asks-under-payout");
+    const [basket] = findArbBaskets([e], CONFIG);
+    expect(basket.side).toBe("NO");
+    expect(basket.payout).toBe(3);
+    expect(basket.cost).toBe(2.95);
+    expect(basket.legs[0].price).toBe(0.88);
+  });
+
+  test("no basket without a full partition, neg-risk or quotes", () => {
+    const cheap: Array<[number, number]> = [[0.08, 0.1], [0.28, 0.3], [0.36, 0.38], [0.12, 0.14]];
+    const [gap] = groupEvents(event(cheap).filter((m) => m.bracketMin !== 86));
+    expect(findArbBaskets([gap], CONFIG)).toEqual([]);
+    expect(findArbBaskets(groupEvents(event(cheap, { negRisk: false })), CONFIG)).toEqual([]);
+    expect(findArbBaskets(groupEvents(event(cheap, { yesAsk: undefined })), CONFIG)).toEqual([]);
+  });
+});
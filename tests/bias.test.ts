@@ -0,0 +1,151 @@
+import { describe, test, expect } from "bun:test";
+import { Database } from "bun:sqlite";
+import {
+  collectForecastPairs,
+  fitBiasCoefficients,
+  buildBiasTable,
+  correctEnsemble,
+  seasonOf,
+  leadDaysFor,
+  isAnalysisDay,
+  summarizePointErrors,
+  type ForecastPair,
+} from "../src/weather/bias.js";
+import { setDb, upsertForecastSnapshot, upsertSettlement } from "../src/store/db.js";
+import type { CityConfig, EnsembleForecast } from "../src/types.js";
+
+const CITY: CityConfig = {
+  name: "Chicago",
+  slug: "chicago",
+  polymarketSlug: "chicago",
+  lat: 41.8781,
+  lon: -87.6298,
+  timezone: "America/Chicago",
+  unit: "F",
+  settlementSource: "nws-cli",
+  nwsGridId: "LOT",
+  nwsGridX: 76,
+  nwsGridY: 73,
+  iowaStation: "KORD",
+  stationLat: 41.9786,
+  stationLon: -87.9048,
+  stationElevationM: 205,
+  aliases: ["o'hare"],
+};
+
+function pairs(n: number, observed: (forecast: number) => number): ForecastPair[] {
+  return Array.from({ length: n }, (_, i) => {
+    const forecast = 30 + i;
+    return {
+      station: "KORD", model: "gfs", metric: "high" as const,
+      leadDays: 1, season: "DJF" as const, point: "station" as const, forecast, observed: observed(forecast),
+    };
+  });
+}
+
+describe("seasonOf / leadDaysFor", () => {
+  test("meteorological seasons", () => {
+    expect(seasonOf("2026-12-01")).toBe("DJF");
+    expect(seasonOf("2026-02-28")).toBe("DJF");
+    expect(seasonOf("2026-03-01")).toBe("MAM");
+    expect(seasonOf("2026-08-31")).toBe("JJA");
+    expect(seasonOf("2026-11-30")).toBe("SON");
+  });
+
+  test("lead days count from model run to climate-day start", () => {
+    // Chicago Feb 17 climate day starts 06Z; a 00Z Feb 16 run is 30h ahead → 1 day
+    expect(leadDaysFor(Date.UTC(2026, 1, 16, 0), "2026-02-17", CITY)).toBe(1);
+    expect(leadDaysFor(Date.UTC(2026, 1, 17, 0), "2026-02-17", CITY)).toBe(0);
+  });
+
+  test("METAR-settled cities count on the civil day they settle on", () => {
+    // London's civil Jul 14 runs 23Z Jul 13 to 23Z Jul 14 (BST); the standard-time day an hour later
+    const london = { timezone: "Europe/London", settlementSource: "metar" as const };
+    expect(leadDaysFor(Date.UTC(2026, 6, 13, 0), "2026-07-14", london)).toBe(0);
+    expect(leadDaysFor(Date.UTC(2026, 6, 13, 0), "2026-07-14", { ...london, settlementSource: "nws-cli" })).toBe(1);
+    expect(isAnalysisDay(Date.UTC(2026, 6, 14, 23), "2026-07-14", london)).toBe(true);
+    expect(isAnalysisDay(Date.UTC(2026, 6, 14, 23), "2026-07-14", { ...london, settlementSource: "nws-cli" })).toBe(false);
+  });
+});
+
+describe("fitBiasCoefficients", () => {
+  test("additive fit recovers a constant offset", () => {
+    const [c] = fitBiasCoefficients(pairs(12, (f) => f - 2), "additive");
+    expect(c.slope).toBe(1);
+    expect(c.intercept).toBeCloseTo(-2, 10);
+    expect(c.rmseBefore).toBeCloseTo(2, 10);
+    expect(c.rmseAfter).toBeCloseTo(0, 10);
+  });
+
+  test("auto fits a line once there is enough history", () => {
+    const [c] = fitBiasCoefficients(pairs(40, (f) => 5 + 0.9 * f), "auto");
+    expect(c.slope).toBeCloseTo(0.9, 10);
+    expect(c.intercept).toBeCloseTo(5, 8);
+  });
+
+  test("auto stays additive on short history", () => {
+    const [c] = fitBiasCoefficients(pairs(15, (f) => 5 + 0.9 * f), "auto");
+    expect(c.slope).toBe(1);
+  });
+
+  test("skips groups below the minimum sample count", () => {
+    expect(fitBiasCoefficients(pairs(5, (f) => f + 1))).toHaveLength(0);
+  });
+});
+
+describe("correctEnsemble", () => {
+  const ensemble: EnsembleForecast = {
+    city: "chicago",
+    model: "gfs",
+    modelRun: Date.UTC(2026, 1, 16, 0),
+    fetchedAt: 0,
+    daily: [{ date: "2026-02-17", highs: [40, 42, 44], lows: [20, 22, 24] }],
+  };
+
+  test("shifts members by the fitted correction, keeping spread", () => {
+    const table = buildBiasTable(fitBiasCoefficients(pairs(12, (f) => f - 2), "additive"));
+    const corrected = correctEnsemble(ensemble, CITY, table);
+    expect(corrected.daily[0].highs).toEqual([38, 40, 42]);
+    expect(corrected.daily[0].lows).toEqual([20, 22, 24]); // no low coefficient
+    expect(ensemble.daily[0].highs).toEqual([40, 42, 44]); // input untouched
+  });
+
+  test("no coefficient for the lead time → unchanged", () => {
+    const table = buildBiasTable(fitBiasCoefficients(pairs(12, (f) => f - 2), "additive"));
+    const later = { ...ensemble, modelRun: Date.UTC(2026, 1, 13, 0) };
+    expect(correctEnsemble(later, CITY, table).daily[0].highs).toEqual([40, 42, 44]);
+  });
+});
+
+describe("summarizePointErrors", () => {
+  test("splits error by request point", () => {
+    const station = pairs(10, (f) => f - 1);
+    const centroid = pairs(10, (f) => f - 3).map((p) => ({ ...p, point: "centroid" as const }));
+    const rows = summarizePointErrors([...station, ...centroid]);
+    expect(rows.map((r) => r.point)).toEqual(["centroid", "station"]);
+    expect(rows[0].meanError).toBeCloseTo(3);
+    expect(rows[1].rmse).toBeCloseTo(1);
+  });
+});
+
+describe("collectForecastPairs", () => {
+  test("the past_days analysis day is not a lead-0 sample", () => {
+    setDb(new Database(":memory:"));
+    upsertSettlement({ station: "KORD", date: "2026-02-16", high: 30, low: 20 });
+    upsertSettlement({ station: "KORD", date: "2026-02-17", high: 35, low: 25 });
+    // 12Z Feb 17 run: Chicago's Feb 16 climate day ended at 06Z
+    upsertForecastSnapshot({
+      provider: "gfs",
+      city: "chicago",
+      modelRun: Date.UTC(2026, 1, 17, 12),
+      fetchedAt: Date.UTC(2026, 1, 17, 17),
+      payload: [
+        { date: "2026-02-16", highs: [30, 30], lows: [20, 20] },
+        { date: "2026-02-17", highs: [36, 38], lows: [24, 24] },
+      ],
+    });
+
+    const collected = collectForecastPairs([CITY], ["gfs"]);
+    expect(collected.map((p) => [p.metric, p.leadDays, p.forecast])).toEqual([["high", 0, 37], ["low", 0, 24]]);
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, test, expect } from "bun:test";
+import {
+  fitIsotonic,
+  fitPlatt,
+  fitCalibrationModels,
+  buildCalibrator,
+  applyCalibrationModel,
+  leadBucket,
+  brierScore,
+  logLoss,
+  reliabilityBins,
+  type CalibrationSample,
+} from "../src/engine/calibration.js";
+
+// Overconfident history: raw p settles YES at 0.5 + (p - 0.5) / 2
+function overconfident(n: number, tier = "STRONG", leadHours = 30): CalibrationSample[] {
+  const samples: CalibrationSample[] = [];
+  for (let i = 0; i < n; i++) {
+    const probability = (i % 10) / 10 + 0.05;
+    const rate = 0.5 + (probability - 0.5) / 2;
+    // Deterministic outcomes at the target rate within each decile
+    const k = Math.floor(i / 10);
+    samples.push({ probability, outcome: (k * 0.618) % 1 < rate ? 1 : 0, tier, leadHours, createdAt: i });
+  }
+  return samples;
+}
+
+describe("fitIsotonic", () => {
+  test("pools adjacent violators into a non-decreasing map", () => {
+    const fit = fitIsotonic([
+      { probability: 0.1, outcome: 0 },
+      { probability: 0.2, outcome: 1 },
+      { probability: 0.3, outcome: 0 },
+      { probability: 0.4, outcome: 1 },
+    ]);
+    expect(fit.y).toEqual([0, 0.5, 1]);
+    expect(fit.x[1]).toBeCloseTo(0.25);
+    for (let i = 1; i < fit.y.length; i++) {
+      expect(fit.y[i]).toBeGreaterThanOrEqual(fit.y[i - 1]);
+    }
+  });
+});
+
+describe("fitPlatt", () => {
+  test("shrinks an overconfident forecaster toward 50%", () => {
+    const { a } = fitPlatt(overconfident(400));
+    expect(a).toBeGreaterThan(0);
+    expect(a).toBeLessThan(1);
+  });
+
+  test("stays finite on perfectly separated history", () => {
+    const samples = Array.from({ length: 40 }, (_, i) => ({
+      probability: i < 20 ? 0.2 : 0.8,
+      outcome: (i < 20 ? 0 : 1) as 0 | 1,
+    }));
+    const { a, b } = fitPlatt(samples);
+    expect(Number.isFinite(a)).toBe(true);
+    expect(Number.isFinite(b)).toBe(true);
+  });
+});
+
+describe("applyCalibrationModel", () => {
+  test("interpolates between isotonic knots and clamps the ends", () => {
+    const model = {
+      tier: "ALL" as const, leadBucket: "all", method: "isotonic" as const,
+      params: { x: [0.2, 0.8], y: [0, 1] }, samples: 50, fittedAt: 0,
+    };
+    expect(applyCalibrationModel(model, 0.5)).toBeCloseTo(0.5);
+    expect(applyCalibrationModel(model, 0.05)).toBe(0.01);
+    expect(applyCalibrationModel(model, 0.95)).toBe(0.99);
+  });
+});
+
+describe("fitCalibrationModels / buildCalibrator", () => {
+  test("no models below the minimum history", () => {
+    expect(fitCalibrationModels(overconfident(10))).toEqual([]);
+  });
+
+  test("fits tier × lead groups plus a pooled fallback", () => {
+    const samples = [...overconfident(200, "STRONG", 30), ...overconfident(20, "LOCK", 5)];
+    const models = fitCalibrationModels(samples, "platt");
+    const keys = models.map((m) => `${m.tier}|${m.leadBucket}`);
+    expect(keys).toContain("ALL|all");
+    expect(keys).toContain("STRONG|24-72h");
+    expect(keys).not.toContain("LOCK|0-24h"); // too few samples
+
+    const calibrator = buildCalibrator(models);
+    expect(calibrator.calibrate(0.95, "STRONG", 30)).toBeLessThan(0.95);
+    // Falls back to the pooled model
+    expect(calibrator.calibrate(0.95, "LOCK", 5)).toBeLessThan(0.95);
+  });
+
+  test("calibrated probabilities score better on overconfident history", () => {
+    const samples = overconfident(500);
+    const calibrator = buildCalibrator(fitCalibrationModels(samples, "isotonic"));
+    const outcomes = samples.map((s) => s.outcome);
+    const raw = samples.map((s) => s.probability);
+    const calibrated = samples.map((s) => calibrator.calibrate(s.probability, s.tier, s.leadHours));
+    expect(brierScore(calibrated, outcomes)).toBeLessThan(brierScore(raw, outcomes));
+    expect(logLoss(calibrated, outcomes)).toBeLessThan(logLoss(raw, outcomes));
+  });
+
+  test("an empty calibrator returns raw probabilities", () => {
+    expect(buildCalibrator([]).calibrate(0.73, "SAFE", 10)).toBe(0.73);
+  });
+});
+
+describe("leadBucket", () => {
+  test("buckets by hours to the climate day", () => {
+    expect(leadBucket(0)).toBe("0-24h");
+    expect(leadBucket(24)).toBe("24-72h");
+    expect(leadBucket(100)).toBe("72h+");
+  });
+});
+
+describe("scores", () => {
+  test("Brier and log loss of a perfect forecast", () => {
+    expect(brierScore([1, 0], [1, 0])).toBe(0);
+    expect(logLoss([1, 0], [1, 0])).toBeCloseTo(0, 5);
+    expect(brierScore([0.5, 0.5], [1, 0])).toBe(0.25);
+  });
+
+  test("reliability bins group by predicted probability", () => {
+    const bins = reliabilityBins([0.05, 0.08, 0.92, 1], [0, 1, 1, 1]);
+    expect(bins).toHaveLength(2);
+    expect(bins[0]).toMatchObject({ lower: 0, count: 2, observedRate: 0.5 });
+    expect(bins[1].lower).toBeCloseTo(0.9);
+    expect(bins[1].count).toBe(2);
+  });
+});
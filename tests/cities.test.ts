@@ -0,0 +1,90 @@
+import { describe, test, expect } from "bun:test";
+import { validateCityRegistry, selectEnabledCities, buildAliasMap } from "../src/cities.js";
+import { ALL_CITIES } from "../src/config.js";
+
+function entry(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    name: "Denver",
+    slug: "denver",
+    polymarketSlug: "denver",
+    lat: 39.7392,
+    lon: -104.9903,
+    timezone: "America/Denver",
+    unit: "F",
+    settlementSource: "nws-cli",
+    nwsGridId: "BOU",
+    nwsGridX: 62,
+    nwsGridY: 60,
+    iowaStation: "kden",
+    stationLat: 39.8466,
+    stationLon: -104.6562,
+    stationElevationM: 1656,
+    aliases: ["Mile High"],
+    ...overrides,
+  };
+}
+
+describe("validateCityRegistry", () => {
+  test("the shipped cities.json is valid", () => {
+    expect(ALL_CITIES.length).toBeGreaterThan(0);
+  });
+
+  test("normalizes station and aliases, defaults enabled", () => {
+    const [city] = validateCityRegistry([entry()]);
+    expect(city.iowaStation).toBe("KDEN");
+    expect(city.aliases).toEqual(["mile high"]);
+    expect(city.enabled).toBe(true);
+  });
+
+  test("international cities need no NWS grid", () => {
+    const [city] = validateCityRegistry([
+      entry({ nwsGridId: undefined, nwsGridX: undefined, nwsGridY: undefined, unit: "C", settlementSource: "metar" }),
+    ]);
+    expect(city.nwsGridId).toBeUndefined();
+  });
+
+  test("reports the path of the bad field", () => {
+    expect(() => validateCityRegistry([entry(), entry({ slug: "boulder", aliases: [], lat: 123 })])).toThrow("cities.json[1].lat");
+    expect(() => validateCityRegistry([entry({ timezone: "Mars/Olympus" })])).toThrow("unknown IANA timezone");
+    expect(() => validateCityRegistry([entry({ unit: "K" })])).toThrow("[0].unit");
+    expect(() => validateCityRegistry({ cities: [] })).toThrow("expected an array");
+  });
+
+  test("partial NWS grid is rejected", () => {
+    expect(() => validateCityRegistry([entry({ nwsGridY: undefined })])).toThrow("must be set together");
+  });
+
+  test("duplicate slugs and shared aliases are rejected", () => {
+    expect(() => validateCityRegistry([entry(), entry()])).toThrow("duplicate slug");
+    expect(() => validateCityRegistry([entry(), entry({ slug: "boulder" })])).toThrow("already belongs to denver");
+  });
+});
+
+describe("selectEnabledCities", () => {
+  const cities = validateCityRegistry([
+    entry(),
+    entry({ slug: "boulder", aliases: [] }),
+    entry({ slug: "aspen", aliases: [], enabled: false }),
+  ]);
+
+  test("file flags by default", () => {
+    expect(selectEnabledCities(cities).map((c) => c.slug)).toEqual(["denver", "boulder"]);
+  });
+
+  test("ENABLED_CITIES overrides the file, DISABLED_CITIES subtracts", () => {
+    expect(selectEnabledCities(cities, "aspen,denver").map((c) => c.slug)).toEqual(["denver", "aspen"]);
+    expect(selectEnabledCities(cities, undefined, "boulder").map((c) => c.slug)).toEqual(["denver"]);
+  });
+
+  test("unknown slugs are a config error", () => {
+    expect(() => selectEnabledCities(cities, undefined, "vail")).toThrow('unknown city "vail"');
+  });
+});
+
+describe("buildAliasMap", () => {
+  test("maps slug, name and aliases", () => {
+    const map = buildAliasMap(validateCityRegistry([entry()]));
+    expect(map["denver"]).toBe("denver");
+    expect(map["mile high"]).toBe("denver");
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, test, expect } from "bun:test";
+import {
+  climateDate,
+  climateDayWindow,
+  standardOffsetMinutes,
+  utcOffsetMinutes,
+} from "../src/weather/climate-day.js";
+import { aggregateDaily, forecastPoint, lapseRateAdjustment } from "../src/weather/ensemble.js";
+import { getCity } from "../src/config.js";
+
+const iso = (ms: number) => new Date(ms).toISOString();
+
+describe("standardOffsetMinutes", () => {
+  test("US zones use their winter offset all year", () => {
+    expect(standardOffsetMinutes("America/New_York", 2026)).toBe(-300);
+    expect(standardOffsetMinutes("America/Chicago", 2026)).toBe(-360);
+    expect(standardOffsetMinutes("America/Los_Angeles", 2026)).toBe(-480);
+  });
+
+  test("southern hemisphere picks the non-DST offset", () => {
+    // Sydney is +11 in January (DST), +10 in July
+    expect(standardOffsetMinutes("Australia/Sydney", 2026)).toBe(600);
+  });
+
+  test("wall-clock offset still reflects DST", () => {
+    expect(utcOffsetMinutes("America/New_York", Date.UTC(2026, 6, 1, 12))).toBe(-240);
+    expect(utcOffsetMinutes("America/New_York", Date.UTC(2026, 0, 1, 12))).toBe(-300);
+  });
+});
+
+describe("climateDayWindow", () => {
+  test("Seattle winter day runs 08Z-08Z", () => {
+    const w = climateDayWindow("2026-02-17", "America/Los_Angeles");
+    expect(iso(w.start)).toBe("2026-02-17T08:00:00.000Z");
+    expect(iso(w.end)).toBe("2026-02-18T08:00:00.000Z");
+  });
+
+  test("Seattle summer day ignores DST (still 08Z, i.e. 1am PDT)", () => {
+    const w = climateDayWindow("2026-07-04", "America/Los_Angeles");
+    expect(iso(w.start)).toBe("2026-07-04T08:00:00.000Z");
+  });
+
+  test("Miami day runs 05Z-05Z year round", () => {
+    expect(iso(climateDayWindow("2026-01-10", "America/New_York").start)).toBe("2026-01-10T05:00:00.000Z");
+    expect(iso(climateDayWindow("2026-08-10", "America/New_York").start)).toBe("2026-08-10T05:00:00.000Z");
+  });
+
+  test("windows are exactly 24h across the spring-forward date", () => {
+    const w = climateDayWindow("2026-03-08", "America/New_York");
+    expect(w.end - w.start).toBe(24 * 60 * 60 * 1000);
+  });
+});
+
+describe("climateDayWindow — civil basis (METAR-settled cities)", () => {
+  test("London summer day follows BST midnight", () => {
+    const w = climateDayWindow("2026-07-04", "Europe/London", "civil");
+    expect(iso(w.start)).toBe("2026-07-03T23:00:00.000Z");
+    expect(iso(w.end)).toBe("2026-07-04T23:00:00.000Z");
+  });
+
+  test("spring-forward day is 23 hours long", () => {
+    const w = climateDayWindow("2026-03-29", "Europe/London", "civil");
+    expect(iso(w.start)).toBe("2026-03-29T00:00:00.000Z");
+    expect(w.end - w.start).toBe(23 * 60 * 60 * 1000);
+  });
+
+  test("Seoul has no DST", () => {
+    const w = climateDayWindow("2026-07-04", "Asia/Seoul", "civil");
+    expect(iso(w.start)).toBe("2026-07-03T15:00:00.000Z");
+    expect(climateDate(Date.UTC(2026, 6, 3, 15), "Asia/Seoul", "civil")).toBe("2026-07-04");
+  });
+});
+
+describe("climateDate", () => {
+  test("late-evening UTC instant belongs to the previous local day", () => {
+    // 2026-07-05T06:30Z = 11:30pm PDT Jul 4 = 10:30pm PST → Jul 4
+    expect(climateDate(Date.UTC(2026, 6, 5, 6, 30), "America/Los_Angeles")).toBe("2026-07-04");
+    // 2026-07-05T07:30Z = 12:30am PDT Jul 5 but still 11:30pm PST → Jul 4
+    expect(climateDate(Date.UTC(2026, 6, 5, 7, 30), "America/Los_Angeles")).toBe("2026-07-04");
+    expect(climateDate(Date.UTC(2026, 6, 5, 8, 0), "America/Los_Angeles")).toBe("2026-07-05");
+  });
+});
+
+describe("aggregateDaily", () => {
+  // 72 GMT hours starting 2026-07-04T00:00, temps in °C
+  const times = Array.from({ length: 72 }, (_, i) => iso(Date.UTC(2026, 6, 4, i)).slice(0, 16));
+
+  test("high comes from the local-standard-time window, not the UTC date", () => {
+    // 30°C spike at 2026-07-05T03:00Z: that's Jul 4 evening in Seattle
+    const member = times.map((t) => (t === "2026-07-05T03:00" ? 30 : 10));
+    const daily = aggregateDaily(times, [member], "America/Los_Angeles");
+    const jul4 = daily.find((d) => d.date === "2026-07-04");
+    const jul5 = daily.find((d) => d.date === "2026-07-05");
+    expect(jul4!.highs).toEqual([86]);
+    expect(jul5!.highs).toEqual([50]);
+  });
+
+  test("drops partial windows at the ends of the series", () => {
+    const member = times.map(() => 10);
+    const dates = aggregateDaily(times, [member], "America/Los_Angeles").map((d) => d.date);
+    // Jul 3 (first 8h only) and Jul 6 (last 16h only) are incomplete
+    expect(dates).toEqual(["2026-07-04", "2026-07-05"]);
+  });
+
+  test("drops members with missing hours", () => {
+    const full = times.map(() => 10);
+    const gappy = times.map((_, i) => (i === 20 ? null : 12));
+    const daily = aggregateDaily(times, [full, gappy], "America/Los_Angeles");
+    const jul4 = daily.find((d) => d.date === "2026-07-04")!;
+    expect(jul4.highs).toEqual([50]);
+  });
+
+  test("°C cities keep members in Celsius", () => {
+    const member = times.map((t) => (t === "2026-07-05T03:00" ? 30 : 10));
+    const daily = aggregateDaily(times, [member], "America/Los_Angeles", "C");
+    expect(daily.find((d) => d.date === "2026-07-04")!.highs).toEqual([30]);
+  });
+
+  test("civil days on a DST changeover need only 23 hours", () => {
+    // 2026-03-29 in London: 00Z-23Z
+    const spring = Array.from({ length: 48 }, (_, i) => iso(Date.UTC(2026, 2, 29, i)).slice(0, 16));
+    const member = spring.map(() => 8);
+    const dates = aggregateDaily(spring, [member], "Europe/London", "C", "civil").map((d) => d.date);
+    expect(dates).toContain("2026-03-29");
+  });
+});
+
+describe("forecast point", () => {
+  test("station point carries the station elevation, centroid is unadjusted", () => {
+    const chicago = getCity("chicago")!;
+    expect(forecastPoint(chicago, "station")).toMatchObject({ lat: chicago.stationLat, targetElevationM: 205 });
+    expect(forecastPoint(chicago, "centroid").targetElevationM).toBeNull();
+  });
+
+  test("a station below its model cell is warmer", () => {
+    expect(lapseRateAdjustment(305, 205)).toBeCloseTo(0.65);
+    expect(lapseRateAdjustment(null, 205)).toBe(0);
+    expect(lapseRateAdjustment(305, null)).toBe(0);
+  });
+});
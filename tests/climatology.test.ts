@@ -0,0 +1,70 @@
+import { describe, test, expect } from "bun:test";
+import { climatologyPrior, computeClimatology, priorWeight, type ClimatologyTable } from "../src/weather/climatology.js";
+import { getModelProbability } from "../src/weather/probability.js";
+import { getCity } from "../src/config.js";
+import type { CLIReport, EnsembleForecast } from "../src/types.js";
+
+const NYC = getCity("nyc")!;
+
+// Five years of July: high = 80 + (day % 5), low = high - 15
+function history(years = [2021, 2022, 2023, 2024, 2025]): CLIReport[] {
+  return years.flatMap((y) =>
+    Array.from({ length: 31 }, (_, d) => {
+      const high = 80 + (d % 5);
+      return { station: NYC.iowaStation, date: `${y}-07-${String(d + 1).padStart(2, "0")}`, high, low: high - 15 };
+    }),
+  );
+}
+
+describe("computeClimatology", () => {
+  test("pools ±7 days of earlier years", () => {
+    const c = computeClimatology(history(), "2026-07-15", "high")!;
+    expect(c.years).toBe(5);
+    expect(c.samples).toBe(5 * 15);
+    expect(c.mean).toBeCloseTo(82, 0);
+    expect(c.percentiles[50]).toBe(82);
+    expect(c.percentiles[5]).toBe(80);
+    expect(c.percentiles[95]).toBe(84);
+  });
+
+  test("never uses the date's own year", () => {
+    const c = computeClimatology(history(), "2024-07-15", "high")!;
+    expect(c.years).toBe(3); // 2021-2023
+  });
+
+  test("too few years → null", () => {
+    expect(computeClimatology(history([2024, 2025]), "2026-07-15", "high")).toBeNull();
+  });
+});
+
+describe("climatology prior", () => {
+  test("weight grows with lead and is capped", () => {
+    expect(priorWeight(0)).toBe(0);
+    expect(priorWeight(2)).toBe(0);
+    expect(priorWeight(3)).toBeCloseTo(0.08, 10);
+    expect(priorWeight(5)).toBeCloseTo(0.24, 10);
+    expect(priorWeight(14)).toBe(0.4);
+  });
+
+  test("short leads and stations without history get no prior", () => {
+    const table: ClimatologyTable = new Map([[NYC.iowaStation, history()]]);
+    expect(climatologyPrior(table, NYC, "2026-07-15", 1)).toBeNull();
+    expect(climatologyPrior(new Map(), NYC, "2026-07-15", 6)).toBeNull();
+    expect(climatologyPrior(table, NYC, "2026-07-15", 6)!.highs).toHaveLength(75);
+  });
+
+  test("getModelProbability mixes ensemble and climatology by weight", () => {
+    // every member at 90F: ensemble says 100% above 88F, climatology 0%
+    const ensemble: EnsembleForecast = {
+      city: "nyc", model: "gfs", modelRun: 0, fetchedAt: 0,
+      daily: [{ date: "2026-07-15", highs: Array(20).fill(90), lows: Array(20).fill(75) }],
+    };
+    const table: ClimatologyTable = new Map([[NYC.iowaStation, history()]]);
+    const prior = climatologyPrior(table, NYC, "2026-07-15", 5)!;
+    const p = getModelProbability(ensemble, "2026-07-15", "high", "above", 88, Infinity, { mode: "count", prior });
+    expect(p).toBeCloseTo(1 - 0.24, 10);
+    // 80-81F is two of the five climatological values
+    const bucket = getModelProbability(ensemble, "2026-07-15", "high", "between", 80, 82, { mode: "count", prior });
+    expect(bucket).toBeCloseTo(0.24 * (2 / 5), 2);
+  });
+});
@@ -0,0 +1,222 @@
+import { describe, test, expect } from "bun:test";
+import { calculateConsensus, type ModelInput } from "../src/engine/consensus.js";
+import type { EnsembleForecast, ForecastProvider } from "../src/types.js";
+
+function makeProvider(name: string, weight: number): ForecastProvider {
+  return {
+    name, label: name.toUpperCase(), model: name, members: 10, runIntervalMs: 0, runDelayMs: 0, metaModel: name, forecastDays: 16,
+    weight, probabilityMode: "count", bandwidthScale: 1.0,
+  };
+}
+
+// `inBracket` of 10 members at 42F, the rest at 50F
+function makeInput(name: string, weight: number, inBracket: number): ModelInput {
+  const highs = [...Array(inBracket).fill(42), ...Array(10 - inBracket).fill(50)];
+  const ensemble: EnsembleForecast = {
+    city: "nyc",
+    model: name,
+    modelRun: 0,
+    fetchedAt: Date.now(),
+    daily: [{ date: "2026-02-17", highs, lows: highs.map((h) => h - 15) }],
+  };
+  return { provider: makeProvider(name, weight), ensemble };
+}
+
+function consensus(inputs: ModelInput[], nwsTemp: number | null = null) {
+  return calculateConsensus(inputs, nwsTemp, "2026-02-17", "high", "between", 42, 44);
+}
+
+describe("calculateConsensus", () => {
+  test("returns null when no model covers the date", () => {
+    expect(consensus([])).toBeNull();
+    const input = makeInput("gfs", 1.0, 8);
+    expect(calculateConsensus([input], null, "2099-01-01", "high", "between", 42, 44)).toBeNull();
+  });
+
+  test("single model → SAFE at its own probability", () => {
+    const r = consensus([makeInput("gfs", 1.0, 8)])!;
+    expect(r.confidence).toBe("SAFE");
+    expect(r.consensusProbability).toBeCloseTo(0.8, 10);
+    expect(r.models).toHaveLength(1);
+  });
+
+  test("weights any number of models by provider weight", () => {
+    const r = consensus([
+      makeInput("gfs", 1.0, 8),
+      makeInput("ecmwf", 1.2, 6),
+      makeInput("icon", 1.0, 7),
+      makeInput("gem", 0.8, 9),
+    ])!;
+    const expected = (0.8 * 1.0 + 0.6 * 1.2 + 0.7 * 1.0 + 0.9 * 0.8) / 4.0;
+    expect(r.consensusProbability).toBeCloseTo(expected, 10);
+    expect(r.models.map((m) => m.model)).toEqual(["gfs", "ecmwf", "icon", "gem"]);
+    expect(r.agreement.probabilityGap).toBe(0.3);
+  });
+
+  test("a learned weight overrides the provider default", () => {
+    const gfs = makeInput("gfs", 1.0, 8);
+    const ecmwf = makeInput("ecmwf", 1.2, 6);
+    gfs.weight = 0.25;
+    ecmwf.weight = 0.75;
+    const r = consensus([gfs, ecmwf])!;
+    expect(r.consensusProbability).toBeCloseTo(0.8 * 0.25 + 0.6 * 0.75, 10);
+    expect(r.models.map((m) => m.weight)).toEqual([0.25, 0.75]);
+  });
+
+  test("a model weighted to 0 is left out of the agreement measures", () => {
+    const ecmwf = makeInput("ecmwf", 1.2, 2);
+    ecmwf.weight = 0;
+    const r = consensus([makeInput("gfs", 1.0, 8), ecmwf, makeInput("icon", 1.0, 8)])!;
+    const alone = consensus([makeInput("gfs", 1.0, 8), makeInput("icon", 1.0, 8)])!;
+    expect(r.agreement).toEqual(alone.agreement);
+    expect(r.agreement.probabilityGap).toBe(0);
+    expect(r.confidence).toBe(alone.confidence);
+  });
+
+  test("models 60pp apart → SKIP", () => {
+    const r = consensus([makeInput("gfs", 1.0, 8), makeInput("ecmwf", 1.2, 2)])!;
+    expect(r.agreement.probabilityGap).toBe(0.6);
+    expect(r.confidence).toBe("SKIP");
+    expect(r.kellyMultiplier).toBe(0);
+  });
+
+  test("kde providers still report the raw count for comparison", () => {
+    const input = makeInput("gfs", 1.0, 8);
+    input.provider.probabilityMode = "kde";
+    const r = consensus([input])!;
+    expect(r.models[0].countProbability).toBeCloseTo(0.8, 10);
+    expect(r.countProbability).toBeCloseTo(0.8, 10);
+    expect(r.consensusProbability).not.toBeCloseTo(0.8, 3);
+  });
+
+  test("skips models without data for the date", () => {
+    const stale = makeInput("gem", 0.8, 9);
+    stale.ensemble.daily = [];
+    const r = consensus([makeInput("gfs", 1.0, 8), stale])!;
+    expect(r.models).toHaveLength(1);
+    expect(r.confidence).toBe("SAFE");
+  });
+
+  test("prices lows off the members' daily minimums", () => {
+    // lows are highs - 15: 8 of 10 members at 27F
+    const r = calculateConsensus([makeInput("gfs", 1.0, 8)], null, "2026-02-17", "low", "between", 27, 29)!;
+    expect(r.consensusProbability).toBeCloseTo(0.8, 10);
+  });
+});
+
+// `n` members evenly spaced over center ± halfWidth
+function spreadInput(name: string, center: number, halfWidth: number, n = 21): ModelInput {
+  const highs = Array.from({ length: n }, (_, i) => center - halfWidth + (2 * halfWidth * i) / (n - 1));
+  const input = makeInput(name, 1.0, 0);
+  input.ensemble.daily = [{ date: "2026-02-17", highs, lows: highs.map((h) => h - 15) }];
+  return input;
+}
+
+describe("calculateConsensus — agreement", () => {
+  test("the probability gap between models sets the tier", () => {
+    // below 44F: each model's share of members at 42F
+    const tier = (a: number, b: number) =>
+      calculateConsensus([makeInput("gfs", 1.0, a), makeInput("ecmwf", 1.2, b)], null, "2026-02-17", "high", "below", 0, 44)!.confidence;
+    expect(tier(8, 8)).toBe("LOCK");
+    expect(tier(8, 7)).toBe("STRONG");
+    expect(tier(8, 6)).toBe("SAFE");
+    expect(tier(8, 5)).toBe("NEAR-SAFE");
+    expect(tier(8, 4)).toBe("SKIP");
+  });
+
+  test("every model giving a narrow bracket a small share is not a LOCK", () => {
+    // ±6F ensembles, 2F bracket: all low single-digit-to-teens, spread > 1.5 bracket widths
+    const r = calculateConsensus(
+      [spreadInput("gfs", 50, 6), spreadInput("ecmwf", 50.5, 6)],
+      null, "2026-02-17", "high", "between", 44, 46,
+    )!;
+    expect(r.models.every((m) => m.probability < 0.2)).toBe(true);
+    expect(r.agreement.probabilityGap).toBeLessThanOrEqual(0.05);
+    expect(r.agreement.spread).toBeGreaterThan(3);
+    expect(r.confidence).toBe("SAFE");
+  });
+
+  test("same probability from disjoint distributions costs a step on a between bracket", () => {
+    const inputs = [spreadInput("gfs", 40, 1), spreadInput("ecmwf", 48, 1)];
+    const between = calculateConsensus(inputs, null, "2026-02-17", "high", "between", 30, 60)!;
+    expect(between.agreement.overlap!).toBeLessThan(0.1);
+    expect(between.confidence).toBe("STRONG");
+    // an open bracket only cares which side of the threshold they fall
+    const above = calculateConsensus(inputs, null, "2026-02-17", "high", "above", 30, Infinity)!;
+    expect(above.confidence).toBe("LOCK");
+  });
+
+  test("matching distributions overlap almost fully", () => {
+    const r = consensus([spreadInput("gfs", 43, 2), spreadInput("ecmwf", 43, 2)])!;
+    expect(r.agreement.overlap!).toBeGreaterThan(0.95);
+  });
+
+  test("NWS outside the members' central range costs a step", () => {
+    const inputs = [spreadInput("gfs", 43, 2), spreadInput("ecmwf", 43, 2)];
+    // lows are highs - 15: 26-30F
+    const agree = calculateConsensus(inputs, 28, "2026-02-17", "low", "below", 0, 40)!;
+    expect(agree.agreement.nwsInRange).toBe(true);
+    expect(agree.confidence).toBe("LOCK");
+    const disagree = calculateConsensus(inputs, 35, "2026-02-17", "low", "below", 0, 40)!;
+    expect(disagree.agreement.nwsInRange).toBe(false);
+    expect(disagree.confidence).toBe("STRONG");
+  });
+});
+
+describe("calculateConsensus — forecast momentum", () => {
+  const momentum = (pattern: "trending" | "steady" | "flip-flop", unpriced = true) =>
+    ({ runs: 3, probabilityShift: 0.2, meanShift: 1.5, pattern, unpriced });
+  const run = (m: ReturnType<typeof momentum> | null, inputs = [makeInput("gfs", 1.0, 8)]) =>
+    calculateConsensus(inputs, null, "2026-02-17", "high", "between", 42, 44, m)!;
+
+  test("an unpriced trend raises the tier one step", () => {
+    const r = run(momentum("trending"));
+    expect(r.confidence).toBe("STRONG");
+    expect(r.kellyMultiplier).toBe(1.2);
+    expect(r.momentumAdjustment).toBe(1);
+  });
+
+  test("a trend the market already followed changes nothing", () => {
+    expect(run(momentum("trending", false)).confidence).toBe("SAFE");
+    expect(run(momentum("steady")).confidence).toBe("SAFE");
+  });
+
+  test("flip-flopping runs lower the tier", () => {
+    const r = run(momentum("flip-flop"));
+    expect(r.confidence).toBe("NEAR-SAFE");
+    expect(r.momentumAdjustment).toBe(-1);
+  });
+
+  test("never promotes a disagreement skip", () => {
+    const inputs = [makeInput("gfs", 1.0, 8), makeInput("ecmwf", 1.2, 2)];
+    const r = calculateConsensus(inputs, null, "2026-02-17", "high", "between", 42, 44, momentum("trending"))!;
+    expect(r.confidence).toBe("SKIP");
+  });
+});
+
+describe("calculateConsensus — forecast freshness", () => {
+  const stale = (name: string, hours: number): ModelInput => ({ ...makeInput(name, 1.0, 8), staleHours: hours });
+  const run = (inputs: ModelInput[], missing: string[] = []) =>
+    calculateConsensus(inputs, null, "2026-02-17", "high", "below", 0, 44, null, missing)!;
+
+  test("fresh agreeing models keep their tier", () => {
+    const r = run([stale("gfs", 0), stale("ecmwf", 0)]);
+    expect(r.confidence).toBe("LOCK");
+    expect(r.freshness).toEqual({ staleModels: [], missingModels: [], adjustment: 0 });
+  });
+
+  test("the stalest model costs one step per started 12 hours", () => {
+    expect(run([stale("gfs", 0), stale("ecmwf", 3)]).confidence).toBe("STRONG");
+    const r = run([stale("gfs", 6), stale("ecmwf", 20)]);
+    expect(r.confidence).toBe("SAFE");
+    expect(r.freshness.staleModels).toEqual(["gfs", "ecmwf"]);
+    expect(r.freshness.adjustment).toBe(-2);
+  });
+
+  test("a missing configured model costs a step", () => {
+    const r = run([stale("gfs", 0)], ["ecmwf"]);
+    expect(r.confidence).toBe("NEAR-SAFE");
+    expect(r.kellyMultiplier).toBe(0.7);
+    expect(r.freshness.missingModels).toEqual(["ecmwf"]);
+  });
+});
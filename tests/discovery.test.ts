@@ -0,0 +1,131 @@
+import { describe, test, expect, afterEach, spyOn } from "bun:test";
+import { fetchWeatherMarkets, mapWeatherEvent } from "../src/market/discovery.js";
+import { CITIES } from "../src/config.js";
+import { logger } from "../src/logger.js";
+
+describe("mapWeatherEvent", () => {
+  test("maps temperature event titles to enabled cities by alias", () => {
+    expect(mapWeatherEvent({ title: "Highest temperature in New York City on October 20?" }))
+      .toEqual({ city: "nyc", metric: "high", month: "october", day: 20 });
+    expect(mapWeatherEvent({ title: "Lowest temperature in Seoul on November 3?" }))
+      .toEqual({ city: "seoul", metric: "low", month: "november", day: 3 });
+  });
+
+  test("falls back to the slug when the title does not say", () => {
+    expect(mapWeatherEvent({ title: "Chicago lows", slug: "lowest-temperature-in-chicago-on-january-5-2027" }))
+      .toEqual({ city: "chicago", metric: "low", month: "january", day: 5 });
+  });
+
+  test("reports why an event cannot be traded", () => {
+    expect(mapWeatherEvent({ title: "Highest temperature in Denver on October 20?" })).toEqual({ reason: "unknown city" });
+    expect(mapWeatherEvent({ title: "Will NYC get 2 inches of snow in December?" })).toEqual({ reason: "not a temperature event" });
+    expect(mapWeatherEvent({ slug: "hurricane-landfall-by-october-31" })).toEqual({ reason: "not a temperature event" });
+  });
+});
+
+// Title date `days` out, in the local calendar discovery's horizon uses
+function dayTitle(days: number): string {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  return `${date.toLocaleString("en-US", { month: "long" })} ${date.getDate()}`;
+}
+
+function weatherEvent(slug: string, title: string) {
+  return {
+    id: slug,
+    slug,
+    title,
+    negRisk: true,
+    markets: [{ conditionId: `${slug}-c`, question: title, clobTokenIds: ["yes", "no"], outcomePrices: ["0.5", "0.5"] }],
+  };
+}
+
+function filler(count: number) {
+  return Array.from({ length: count }, (_, i) => weatherEvent(`snow-${i}`, `Will it snow ${i} inches?`));
+}
+
+describe("fetchWeatherMarkets", () => {
+  const realFetch = globalThis.fetch;
+  let listingPages: number;
+  let slugProbes: string[];
+
+  // `page(n)` answers listing page n; slug probes answer from `bySlug`
+  function stubGamma(page: (n: number) => Response, bySlug: Record<string, unknown> = {}) {
+    listingPages = 0;
+    slugProbes = [];
+    globalThis.fetch = (async (input: string | URL | Request) => {
+      const url = new URL(String(input));
+      const slug = url.searchParams.get("slug");
+      if (slug !== null) {
+        slugProbes.push(slug);
+        return Response.json(bySlug[slug] ? [bySlug[slug]] : []);
+      }
+      listingPages++;
+      return page(Number(url.searchParams.get("offset")) / 100);
+    }) as typeof fetch;
+  }
+
+  afterEach(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  test("paging stops at a short page", async () => {
+    const today = weatherEvent("nyc-today", `Highest temperature in NYC on ${dayTitle(0)}?`);
+    stubGamma((n) => Response.json(n === 0 ? filler(100) : [today]));
+    const markets = await fetchWeatherMarkets(1);
+    expect(listingPages).toBe(2);
+    expect(markets.map((m) => m.slug)).toEqual(["nyc-today"]);
+  });
+
+  test("paging stops at MAX_PAGES", async () => {
+    const today = weatherEvent("chicago-today", `Lowest temperature in Chicago on ${dayTitle(0)}?`);
+    stubGamma((n) => Response.json(n === 0 ? [today, ...filler(99)] : filler(100)));
+    await fetchWeatherMarkets(1);
+    expect(listingPages).toBe(20);
+  });
+
+  test("events outside the horizon are left out", async () => {
+    stubGamma(() => Response.json([
+      weatherEvent("nyc-tomorrow", `Highest temperature in NYC on ${dayTitle(1)}?`),
+      weatherEvent("nyc-later", `Highest temperature in NYC on ${dayTitle(30)}?`),
+    ]));
+    const markets = await fetchWeatherMarkets(2);
+    expect(markets.map((m) => m.slug)).toEqual(["nyc-tomorrow"]);
+    expect(slugProbes).toEqual([]);
+  });
+
+  test("an unknown-city temperature event is warned about once per slug; other weather events are not", async () => {
+    const warn = spyOn(logger, "warn");
+    try {
+      stubGamma(() => Response.json([
+        weatherEvent("miami-today", `Highest temperature in Miami on ${dayTitle(0)}?`),
+        weatherEvent("denver-today", `Highest temperature in Denver on ${dayTitle(0)}?`),
+        ...filler(2),
+      ]));
+      await fetchWeatherMarkets(1);
+      await fetchWeatherMarkets(1);
+      const unmapped = warn.mock.calls.filter((c) => c[1] === "Unmapped weather event");
+      expect(unmapped.map((c) => (c[0] as { slug: string }).slug)).toEqual(["denver-today"]);
+    } finally {
+      warn.mockRestore();
+    }
+  });
+
+  test("slug probing runs when the listing fails", async () => {
+    const today = weatherEvent("probed", "Highest temperature in Seoul");
+    stubGamma(() => new Response("gone", { status: 404 }));
+    expect(await fetchWeatherMarkets(0)).toEqual([]);
+    expect(slugProbes).toHaveLength(2 * CITIES.length); // highest and lowest, today only
+
+    const probed = slugProbes.find((s) => s.startsWith("highest-temperature-in-seoul-on-"))!;
+    stubGamma(() => new Response("gone", { status: 404 }), { [probed]: today });
+    expect((await fetchWeatherMarkets(0)).map((m) => m.slug)).toEqual(["probed"]);
+  });
+
+  test("slug probing runs when the listing maps nothing", async () => {
+    stubGamma(() => Response.json(filler(3)));
+    await fetchWeatherMarkets(0);
+    expect(listingPages).toBe(1);
+    expect(slugProbes.length).toBeGreaterThan(0);
+  });
+});
@@ -9,6 +9,7 @@ function makeMarket(overrides: Partial<ParsedMarket> = {}): ParsedMarket {
     city: "nyc",
     date: "2026-02-17",
     metric: "high",
+    unit: "F",
     bracketMin: 42,
     bracketMax: 44,
     bracketType: "between",
@@ -16,6 +17,8 @@ function makeMarket(overrides: Partial<ParsedMarket> = {}): ParsedMarket {
     noTokenId: "no-1",
     yesPrice: 0.14,
     noPrice: 0.86,
+    eventId: "event-1",
+    negRisk: true,
     volume: 5000,
     endDateIso: "2026-02-18T00:00:00Z",
     ...overrides,
@@ -32,6 +35,8 @@ const HIGHS = [
 
 const ENSEMBLE: EnsembleForecast = {
   city: "nyc",
+  model: "gfs",
+  modelRun: 0,
   fetchedAt: Date.now(),
   daily: [{ date: "2026-02-17", highs: HIGHS, lows: HIGHS.map((h) => h - 15) }],
 };
@@ -0,0 +1,165 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import { clearEnsembleCache, fetchAllEnsembles, forecastPoint } from "../src/weather/ensemble.js";
+import { FORECAST_PROVIDERS, getCity } from "../src/config.js";
+import { getForecastFetchStates, setDb, upsertForecastSnapshot } from "../src/store/db.js";
+import type { CityConfig, ForecastProvider } from "../src/types.js";
+
+const GFS = FORECAST_PROVIDERS.find((p) => p.name === "gfs")!;
+const NYC = getCity("nyc")!;
+const RUN = Date.UTC(2026, 6, 14, 12);
+const OLD_RUN = Date.UTC(2026, 6, 14, 6);
+
+// Providers get their own name per test: run metadata and ensembles are
+// cached in module state keyed by it
+let providerCount = 0;
+function provider(): ForecastProvider {
+  return { ...GFS, name: `gfs-test-${++providerCount}` };
+}
+
+// NYC clones whose station latitude (30 + i) is also the temperature its
+// stubbed ensemble reports, so a forecast shows which response it came from
+function cities(count: number): CityConfig[] {
+  return Array.from({ length: count }, (_, i) => ({ ...NYC, slug: `city-${i}`, name: `City ${i}`, stationLat: 30 + i }));
+}
+
+function hourly(tempC: number) {
+  const time = Array.from({ length: 96 }, (_, h) => new Date(Date.UTC(2026, 6, 13) + h * 3600_000).toISOString().slice(0, 16));
+  return { hourly: { time, temperature_2m: time.map(() => tempC) } };
+}
+
+interface EnsembleCall {
+  lats: number[];
+}
+
+let calls: EnsembleCall[];
+const realFetch = globalThis.fetch;
+
+/**
+ * Stub Open-Meteo: meta.json reports RUN; ensemble requests answer per
+ * latitude through `answer` (default: one result per point, 30 + i °C).
+ */
+function stubOpenMeteo(answer: (lats: number[]) => Response = (lats) => Response.json(lats.map((lat) => hourly(lat - 30)))) {
+  globalThis.fetch = (async (input: string | URL | Request) => {
+    const url = new URL(String(input));
+    if (url.pathname.endsWith("/meta.json")) {
+      return Response.json({ last_run_initialisation_time: RUN / 1000 });
+    }
+    const lats = url.searchParams.get("latitude")!.split(",").map(Number);
+    calls.push({ lats });
+    return answer(lats);
+  }) as typeof fetch;
+}
+
+function storeRun(p: ForecastProvider, city: CityConfig, modelRun: number, high: number): void {
+  upsertForecastSnapshot({
+    provider: p.name,
+    city: city.slug,
+    modelRun,
+    fetchedAt: modelRun,
+    point: { ...forecastPoint(city, "station"), gridElevationM: null },
+    payload: [{ date: "2026-07-14", highs: [high], lows: [high] }],
+  });
+}
+
+beforeEach(() => {
+  setDb(new Database(":memory:"));
+  calls = [];
+});
+
+afterEach(() => {
+  globalThis.fetch = realFetch;
+});
+
+describe("fetchAllEnsembles", () => {
+  test("due cities go out in batches of at most 10 points", async () => {
+    stubOpenMeteo();
+    const results = await fetchAllEnsembles(provider(), cities(12));
+    expect(calls.map((c) => c.lats.length)).toEqual([10, 2]);
+    expect(results.size).toBe(12);
+  });
+
+  test("each response is mapped back to the city at its position", async () => {
+    stubOpenMeteo();
+    const list = cities(12);
+    const results = await fetchAllEnsembles(provider(), list);
+    for (const [i, city] of list.entries()) {
+      const forecast = results.get(city.slug)!;
+      expect(forecast.modelRun).toBe(RUN);
+      expect(forecast.daily[0].highs[0]).toBeCloseTo(i * 9 / 5 + 32, 1);
+    }
+  });
+
+  test("cities holding the latest run are served from store, the rest fetched", async () => {
+    stubOpenMeteo();
+    const p = provider();
+    const list = cities(3);
+    storeRun(p, list[1], RUN, 99);
+    const results = await fetchAllEnsembles(p, list);
+    expect(calls).toEqual([{ lats: [30, 32] }]);
+    expect(results.get("city-1")!.daily[0].highs).toEqual([99]);
+    expect(results.get("city-2")!.modelRun).toBe(RUN);
+  });
+
+  test("a result count that does not match the request fails it", async () => {
+    stubOpenMeteo(() => Response.json([hourly(0), hourly(0)]));
+    const p = provider();
+    const results = await fetchAllEnsembles(p, cities(3));
+    expect(results.size).toBe(0);
+    const states = getForecastFetchStates().filter((s) => s.provider === p.name);
+    expect(states).toHaveLength(3);
+    for (const s of states) expect(s.lastError).toContain("2 results for 1 locations");
+  });
+
+  test("a failed batch is retried per city; only the city that still fails keeps its last good run", async () => {
+    // city-1's point is rejected, taking any request that includes it down
+    stubOpenMeteo((lats) =>
+      lats.includes(31)
+        ? new Response("bad point", { status: 400 })
+        : Response.json(lats.length === 1 ? hourly(lats[0] - 30) : lats.map((lat) => hourly(lat - 30))),
+    );
+    const p = provider();
+    const list = cities(3);
+    storeRun(p, list[1], OLD_RUN, 99);
+
+    const results = await fetchAllEnsembles(p, list);
+    expect(calls.map((c) => c.lats)).toEqual([[30, 31, 32], [30], [31], [32]]);
+    expect(results.get("city-0")!.modelRun).toBe(RUN);
+    expect(results.get("city-2")!.modelRun).toBe(RUN);
+    expect(results.get("city-1")!.modelRun).toBe(OLD_RUN);
+
+    const failed = getForecastFetchStates().find((s) => s.provider === p.name && s.city === "city-1")!;
+    expect(failed.lastError).toContain("400");
+    expect(failed.lastSuccessAt).toBeNull();
+  });
+});
+
+describe("ensemble read-through cache", () => {
+  test("a second process is served the same run from the forecasts table", async () => {
+    stubOpenMeteo();
+    const p = provider();
+    const list = cities(2);
+    await fetchAllEnsembles(p, list);
+    expect(calls).toHaveLength(1);
+
+    clearEnsembleCache();
+    const results = await fetchAllEnsembles(p, list);
+    expect(calls).toHaveLength(1);
+    expect(results.get("city-1")!.modelRun).toBe(RUN);
+    expect(results.get("city-1")!.daily[0].highs[0]).toBeCloseTo(1 * 9 / 5 + 32, 1);
+  });
+
+  test("a newer run than the table holds is fetched", async () => {
+    stubOpenMeteo();
+    const p = provider();
+    const list = cities(2);
+    storeRun(p, list[0], OLD_RUN, 99);
+    storeRun(p, list[1], OLD_RUN, 99);
+    clearEnsembleCache();
+
+    const results = await fetchAllEnsembles(p, list);
+    expect(calls).toEqual([{ lats: [30, 31] }]);
+    expect(results.get("city-0")!.modelRun).toBe(RUN);
+    expect(results.get("city-0")!.daily[0].highs[0]).toBeCloseTo(32, 1);
+  });
+});
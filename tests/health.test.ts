@@ -0,0 +1,45 @@
+import { describe, test, expect } from "bun:test";
+import { isExcluded, stalePenalty, staleHours, summarizeHealth } from "../src/weather/health.js";
+import { getProvider } from "../src/config.js";
+import type { ForecastHealth } from "../src/types.js";
+
+const HOUR = 60 * 60 * 1000;
+const GFS = getProvider("gfs")!; // 6h cycle, 5h publication lag
+
+describe("forecast staleness", () => {
+  const run = Date.UTC(2026, 6, 14, 0);
+
+  test("a run is fresh until its replacement is overdue", () => {
+    expect(staleHours(GFS, run, run + 5 * HOUR)).toBe(0);
+    expect(staleHours(GFS, run, run + 13 * HOUR)).toBe(0); // 2h grace for late publication
+    expect(staleHours(GFS, run, run + 17 * HOUR)).toBe(4);
+  });
+
+  test("penalty steps and the exclusion cutoff", () => {
+    expect(stalePenalty(0)).toBe(0);
+    expect(stalePenalty(0.5)).toBe(1);
+    expect(stalePenalty(12)).toBe(1);
+    expect(stalePenalty(12.1)).toBe(2);
+    expect(isExcluded(24)).toBe(false);
+    expect(isExcluded(24.1)).toBe(true);
+  });
+});
+
+describe("summarizeHealth", () => {
+  const row = (city: string, status: ForecastHealth["status"], extra: Partial<ForecastHealth> = {}): ForecastHealth => ({
+    provider: "gfs", city, status, modelRun: 1000, staleHours: 0,
+    lastSuccessAt: 10, lastErrorAt: null, lastError: null, ...extra,
+  });
+
+  test("counts cities by status and reports only errors newer than the last success", () => {
+    const [gfs] = summarizeHealth([
+      row("nyc", "fresh"),
+      row("chicago", "stale", { modelRun: 500, lastErrorAt: 20, lastError: "503" }),
+      row("miami", "missing", { modelRun: null, lastSuccessAt: null, lastErrorAt: 30, lastError: "timeout" }),
+      row("denver", "fresh", { lastErrorAt: 5, lastError: "recovered" }),
+    ]);
+    expect(gfs.counts).toEqual({ fresh: 2, stale: 1, excluded: 0, missing: 1 });
+    expect(gfs.oldestRun).toBe(500);
+    expect(gfs.lastError).toEqual({ city: "miami", at: 30, message: "timeout" });
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, test, expect } from "bun:test";
+import {
+  bracketCenters,
+  bracketStructure,
+  compareDistributions,
+  distributionMoments,
+  klDivergence,
+} from "../src/engine/implied.js";
+import type { ParsedMarket, WeatherEvent } from "../src/types.js";
+
+function bracket(type: ParsedMarket["bracketType"], min: number, max: number, price: number): ParsedMarket {
+  return {
+    conditionId: `c-${min}`,
+    title: "",
+    city: "nyc",
+    date: "2026-07-14",
+    metric: "high",
+    unit: "F",
+    bracketMin: min,
+    bracketMax: max,
+    bracketType: type,
+    yesTokenId: `yes-${min}`,
+    noTokenId: `no-${min}`,
+    yesPrice: price,
+    noPrice: 1 - price,
+    eventId: "event-1",
+    negRisk: true,
+    volume: 5000,
+    endDateIso: "2026-07-15T00:00:00Z",
+  };
+}
+
+// ≤83, 84-85, 86-87, 88-89, ≥90 priced at `prices`
+function event(prices: number[]): WeatherEvent {
+  return {
+    id: "event-1",
+    city: "nyc",
+    date: "2026-07-14",
+    metric: "high",
+    unit: "F",
+    negRisk: true,
+    brackets: [
+      bracket("below", -Infinity, 84, prices[0]),
+      bracket("between", 84, 86, prices[1]),
+      bracket("between", 86, 88, prices[2]),
+      bracket("between", 88, 90, prices[3]),
+      bracket("above", 90, Infinity, prices[4]),
+    ],
+    partitionIssues: [],
+  };
+}
+
+describe("distribution moments", () => {
+  test("tails sit one bracket width beyond the edge", () => {
+    expect(bracketCenters(event([0, 0, 1, 0, 0]).brackets)).toEqual([82.5, 84.5, 86.5, 88.5, 90.5]);
+  });
+
+  test("mean, sd and skew over bracket centres", () => {
+    const centers = [82.5, 84.5, 86.5, 88.5, 90.5];
+    const symmetric = distributionMoments(centers, [0.1, 0.2, 0.4, 0.2, 0.1]);
+    expect(symmetric.mean).toBeCloseTo(86.5, 10);
+    expect(symmetric.sd).toBeCloseTo(Math.sqrt(4.8), 10);
+    expect(symmetric.skew).toBeCloseTo(0, 10);
+    expect(distributionMoments(centers, [0.6, 0.2, 0.1, 0.05, 0.05]).skew).toBeGreaterThan(0);
+  });
+
+  test("prices that do not sum to 1 are normalised", () => {
+    const centers = [82.5, 84.5, 86.5, 88.5, 90.5];
+    expect(distributionMoments(centers, [0.2, 0.4, 0.8, 0.4, 0.2]))
+      .toEqual(distributionMoments(centers, [0.1, 0.2, 0.4, 0.2, 0.1]));
+  });
+});
+
+describe("klDivergence", () => {
+  test("0 for identical distributions, positive otherwise", () => {
+    expect(klDivergence([0.1, 0.2, 0.4, 0.2, 0.1], [0.1, 0.2, 0.4, 0.2, 0.1])).toBeCloseTo(0, 10);
+    expect(klDivergence([0.1, 0.2, 0.4, 0.2, 0.1], [0.02, 0.1, 0.76, 0.1, 0.02])).toBeGreaterThan(0.1);
+  });
+
+  test("finite when the market prices a bracket at 0", () => {
+    expect(Number.isFinite(klDivergence([0.5, 0.5, 0, 0, 0], [0, 0, 0.5, 0.5, 0]))).toBe(true);
+  });
+});
+
+describe("compareDistributions", () => {
+  const model = [0.1, 0.2, 0.4, 0.2, 0.1];
+
+  test("same shape → aligned", () => {
+    const c = compareDistributions(event([0.1, 0.2, 0.4, 0.2, 0.1]), model);
+    expect(c.structure).toBe("aligned");
+    expect(c.meanDiff).toBeCloseTo(0, 10);
+  });
+
+  test("market piled on the middle bracket → too-narrow", () => {
+    const c = compareDistributions(event([0.02, 0.1, 0.76, 0.1, 0.02]), model);
+    expect(c.structure).toBe("too-narrow");
+    expect(c.spreadDiff).toBeLessThan(0);
+  });
+
+  test("market spread flat → too-wide", () => {
+    expect(compareDistributions(event([0.2, 0.2, 0.2, 0.2, 0.2]), model).structure).toBe("too-wide");
+  });
+
+  test("same spread a bracket lower → shifted", () => {
+    const c = compareDistributions(event([0, 0.2, 0.6, 0.2, 0]), [0, 0, 0.2, 0.6, 0.2]);
+    expect(c.structure).toBe("shifted");
+    expect(c.meanDiff).toBeCloseTo(-2, 10);
+  });
+});
+
+describe("bracketStructure", () => {
+  test("too-narrow: YES on the shoulders, NO on the middle", () => {
+    const c = compareDistributions(event([0.02, 0.1, 0.76, 0.1, 0.02]), [0.1, 0.2, 0.4, 0.2, 0.1]);
+    expect(bracketStructure(c, "c-84", "YES")).toBe("with");
+    expect(bracketStructure(c, "c-86", "YES")).toBe("against");
+    expect(bracketStructure(c, "c-86", "NO")).toBe("with");
+  });
+
+  test("shifted: YES on the model's side of the market mean", () => {
+    const c = compareDistributions(event([0, 0.2, 0.6, 0.2, 0]), [0, 0, 0.2, 0.6, 0.2]);
+    expect(bracketStructure(c, "c-88", "YES")).toBe("with");
+    expect(bracketStructure(c, "c-84", "YES")).toBe("against");
+    expect(bracketStructure(c, "c-84", "NO")).toBe("with");
+  });
+
+  test("aligned events and unknown brackets have no view", () => {
+    const c = compareDistributions(event([0.1, 0.2, 0.4, 0.2, 0.1]), [0.1, 0.2, 0.4, 0.2, 0.1]);
+    expect(bracketStructure(c, "c-86", "YES")).toBeNull();
+    const narrow = compareDistributions(event([0.02, 0.1, 0.76, 0.1, 0.02]), [0.1, 0.2, 0.4, 0.2, 0.1]);
+    expect(bracketStructure(narrow, "other", "YES")).toBeNull();
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, test, expect } from "bun:test";
+import { computeMomentum, type RunHistories } from "../src/engine/momentum.js";
+import type { ForecastProvider } from "../src/types.js";
+
+function provider(name: string, weight = 1): ForecastProvider {
+  return {
+    name, label: name, model: name, members: 10, runIntervalMs: 0, runDelayMs: 0, metaModel: name, forecastDays: 16,
+    weight, probabilityMode: "count", bandwidthScale: 1.0,
+  };
+}
+
+// Successive runs where `inBracket` of 10 members land in 42-43F
+function runs(...inBracket: number[]) {
+  return inBracket.map((n, i) => {
+    const highs = [...Array(n).fill(42), ...Array(10 - n).fill(50)];
+    return { modelRun: i, daily: [{ date: "2026-02-17", highs, lows: highs }] };
+  });
+}
+
+function histories(byProvider: Record<string, ReturnType<typeof runs>>): RunHistories {
+  return new Map(Object.entries(byProvider).map(([name, r]) => [name, new Map([["nyc", r]])]));
+}
+
+const MARKET = {
+  city: "nyc",
+  date: "2026-02-17",
+  metric: "high" as const,
+  unit: "F" as const,
+  bracketType: "between" as const,
+  bracketMin: 42,
+  bracketMax: 44,
+  yesPrice: 0.3,
+};
+
+describe("computeMomentum", () => {
+  test("consistent rise the price has not followed is an unpriced trend", () => {
+    const m = computeMomentum([provider("gfs")], histories({ gfs: runs(3, 5, 7) }), MARKET)!;
+    expect(m.pattern).toBe("trending");
+    expect(m.probabilityShift).toBeCloseTo(0.2);
+    expect(m.meanShift).toBeCloseTo(-1.6);
+    expect(m.unpriced).toBe(true);
+    expect(m.runs).toBe(3);
+  });
+
+  test("a rise toward a price already above the model is priced", () => {
+    const m = computeMomentum([provider("gfs")], histories({ gfs: runs(3, 5, 7) }), { ...MARKET, yesPrice: 0.9 })!;
+    expect(m.unpriced).toBe(false);
+  });
+
+  test("reversals between runs are flip-flops", () => {
+    const m = computeMomentum([provider("gfs")], histories({ gfs: runs(3, 7, 3) }), MARKET)!;
+    expect(m.pattern).toBe("flip-flop");
+  });
+
+  test("models moving in opposite directions are flip-flops", () => {
+    const m = computeMomentum(
+      [provider("gfs"), provider("ecmwf")],
+      histories({ gfs: runs(3, 6), ecmwf: runs(6, 3) }),
+      MARKET,
+    )!;
+    expect(m.pattern).toBe("flip-flop");
+  });
+
+  test("small moves are steady", () => {
+    expect(computeMomentum([provider("gfs")], histories({ gfs: runs(5, 5) }), MARKET)!.pattern).toBe("steady");
+  });
+
+  test("needs two runs covering the date", () => {
+    expect(computeMomentum([provider("gfs")], histories({ gfs: runs(5) }), MARKET)).toBeNull();
+    expect(computeMomentum([provider("gfs")], histories({}), MARKET)).toBeNull();
+  });
+});
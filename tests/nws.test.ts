@@ -0,0 +1,81 @@
+import { describe, test, expect, afterEach, setSystemTime } from "bun:test";
+import { Database } from "bun:sqlite";
+import { clearNWSCache, fetchNWSForecast, getNWSHourlyExtreme, getNWSLow, getNWSTemp } from "../src/weather/nws.js";
+import { getCity } from "../src/config.js";
+import { setDb } from "../src/store/db.js";
+import type { NWSForecast, NWSPeriod } from "../src/types.js";
+
+const CHICAGO = getCity("chicago")!;
+
+// 30 hourly periods from 2026-07-14 00:00 CDT, temperature = hour index
+function hourly(hours = 30): NWSPeriod[] {
+  return Array.from({ length: hours }, (_, i) => {
+    const start = new Date(Date.UTC(2026, 6, 14, 5 + i)).toISOString().replace(".000Z", "+00:00");
+    return { name: "", startTime: start, endTime: start, temperature: i, isDaytime: true };
+  });
+}
+
+const periods: NWSPeriod[] = [
+  { name: "Monday Night", startTime: "2026-07-13T18:00:00-05:00", endTime: "2026-07-14T06:00:00-05:00", temperature: 68, isDaytime: false },
+  { name: "Tuesday", startTime: "2026-07-14T06:00:00-05:00", endTime: "2026-07-14T18:00:00-05:00", temperature: 88, isDaytime: true },
+];
+
+function forecast(hourlyPeriods: NWSPeriod[]): NWSForecast {
+  return { city: "chicago", updatedAt: 0, fetchedAt: 0, periods, hourly: hourlyPeriods };
+}
+
+describe("NWS hourly climate-day extremes", () => {
+  test("covers the standard-time day: 1am-1am CDT in summer", () => {
+    expect(getNWSHourlyExtreme(forecast(hourly()), CHICAGO, "2026-07-14", "high")).toBe(24);
+    expect(getNWSHourlyExtreme(forecast(hourly()), CHICAGO, "2026-07-14", "low")).toBe(1);
+  });
+
+  test("a partially covered day has no hourly extreme", () => {
+    expect(getNWSHourlyExtreme(forecast(hourly(20)), CHICAGO, "2026-07-14", "high")).toBeNull();
+  });
+
+  test("falls back to the 12-hour periods without full hourly coverage", () => {
+    expect(getNWSTemp(forecast(hourly()), CHICAGO, "2026-07-14", "high")).toEqual({ temp: 24, source: "hourly" });
+    expect(getNWSTemp(forecast([]), CHICAGO, "2026-07-14", "high")).toEqual({ temp: 88, source: "period" });
+    expect(getNWSTemp(forecast([]), CHICAGO, "2026-07-14", "low")).toEqual({ temp: 68, source: "period" });
+    expect(getNWSTemp(forecast([]), CHICAGO, "2026-07-20", "high")).toBeNull();
+  });
+
+  test("overnight low is the night ending that morning", () => {
+    expect(getNWSLow(forecast([]), "2026-07-14")).toBe(68);
+  });
+});
+
+describe("NWS forecast cache", () => {
+  const realFetch = globalThis.fetch;
+  afterEach(() => {
+    globalThis.fetch = realFetch;
+    setSystemTime();
+  });
+
+  test("another process reads the table within the hour, then refetches", async () => {
+    setDb(new Database(":memory:"));
+    clearNWSCache();
+    const urls: string[] = [];
+    globalThis.fetch = (async (input: string | URL | Request) => {
+      urls.push(String(input));
+      return Response.json({ properties: { updateTime: "2026-07-14T10:00:00+00:00", periods } });
+    }) as typeof fetch;
+
+    setSystemTime(new Date("2026-07-14T12:00:00Z"));
+    expect((await fetchNWSForecast(CHICAGO))!.periods).toHaveLength(2);
+    expect(urls).toHaveLength(2);
+    expect(urls[0]).toEndWith("/forecast");
+    expect(urls[1]).toEndWith("/forecast/hourly");
+
+    clearNWSCache();
+    setSystemTime(new Date("2026-07-14T12:59:00Z"));
+    expect((await fetchNWSForecast(CHICAGO))!.periods).toHaveLength(2);
+    expect(urls).toHaveLength(2);
+
+    clearNWSCache();
+    setSystemTime(new Date("2026-07-14T13:01:00Z"));
+    await fetchNWSForecast(CHICAGO);
+    expect(urls).toHaveLength(4);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, test, expect } from "bun:test";
+import { parseAsosObservations, summarizeObservations, conditionDay } from "../src/weather/observations.js";
+import { calcAboveProbability, calcBelowProbability, calcBucketProbability } from "../src/weather/probability.js";
+import type { DailyForecast } from "../src/types.js";
+
+const KDE = { mode: "kde" as const };
+
+describe("parseAsosObservations", () => {
+  const csv = [
+    "station,valid,tmpc",
+    "EGLC,2026-07-03 22:50,17.00",
+    "EGLC,2026-07-03 23:20,16.00",
+    "EGLC,2026-07-04 13:50,M",
+    "EGLC,2026-07-04 14:20,24.00",
+    "EGLC,2026-07-04 23:20,15.00",
+  ].join("\n");
+
+  test("keeps reports inside the window and skips missing values", () => {
+    const start = Date.UTC(2026, 6, 3, 23);
+    const end = Date.UTC(2026, 6, 4, 23);
+    expect(parseAsosObservations(csv, start, end).map((o) => o.temp)).toEqual([16, 24]);
+  });
+
+  test("running extremes and time of the latest report", () => {
+    const obs = parseAsosObservations(csv, 0, Infinity);
+    const extremes = summarizeObservations("EGLC", "2026-07-04", obs)!;
+    expect(extremes.high).toBe(24);
+    expect(extremes.low).toBe(15);
+    expect(extremes.asOf).toBe(Date.UTC(2026, 6, 4, 23, 20));
+    expect(summarizeObservations("EGLC", "2026-07-04", [])).toBeNull();
+  });
+});
+
+describe("conditionDay", () => {
+  const day: DailyForecast = { date: "2026-07-04", highs: [54, 56, 60, 62], lows: [40, 42, 44, 46] };
+  const observed = { station: "KNYC", date: "2026-07-04", high: 57.9, low: 43, observations: 14, asOf: 0 };
+
+  test("members below the running max are raised to it", () => {
+    const conditioned = conditionDay(day, observed);
+    expect(conditioned.highs).toEqual([57.9, 57.9, 60, 62]);
+    expect(conditioned.lows).toEqual([40, 42, 43, 43]);
+    expect(day.highs).toEqual([54, 56, 60, 62]); // input untouched
+  });
+
+  test("brackets below the observed high are dead, in every mode", () => {
+    const conditioned = conditionDay(day, observed);
+    // 57.9 reports as 58
+    expect(calcBelowProbability(conditioned, "high", 58)).toBe(0);
+    expect(calcBelowProbability(conditioned, "high", 58, KDE)).toBe(0);
+    expect(calcBucketProbability(conditioned, "high", 56, 58, KDE).probability).toBe(0);
+    expect(calcAboveProbability(conditioned, "high", 58, KDE)).toBeCloseTo(1);
+  });
+
+  test("kernel mass is renormalized over what is still possible", () => {
+    const conditioned = conditionDay(day, observed);
+    const total =
+      calcBucketProbability(conditioned, "high", 58, 60, KDE).probability +
+      calcBucketProbability(conditioned, "high", 60, 62, KDE).probability +
+      calcAboveProbability(conditioned, "high", 62, KDE);
+    expect(total).toBeCloseTo(1);
+  });
+
+  test("the low can still fall below the running min", () => {
+    const conditioned = conditionDay(day, observed);
+    expect(calcAboveProbability(conditioned, "low", 44)).toBe(0);
+    expect(calcBelowProbability(conditioned, "low", 43)).toBeCloseTo(0.5);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, test, expect } from "bun:test";
+import { walkAsks } from "../src/market/orderbook.js";
+
+// 50 shares at 40¢ ($20), 40 at 45¢ ($18), 100 at 50¢ ($50)
+const ASKS = [
+  { price: 0.4, size: 50 },
+  { price: 0.45, size: 40 },
+  { price: 0.5, size: 100 },
+];
+
+describe("walkAsks", () => {
+  test("within the best level fills at the best ask", () => {
+    const fill = walkAsks(ASKS, 10);
+    expect(fill.usdc).toBeCloseTo(10, 10);
+    expect(fill.shares).toBeCloseTo(25, 10);
+    expect(fill.vwap).toBeCloseTo(0.4, 10);
+    expect(fill.levels).toBe(1);
+  });
+
+  test("walks levels in order and prices at the VWAP", () => {
+    const fill = walkAsks(ASKS, 50);
+    expect(fill.usdc).toBeCloseTo(50, 10);
+    expect(fill.shares).toBeCloseTo(50 + 40 + 24, 10);
+    expect(fill.vwap).toBeCloseTo(50 / 114, 10);
+    expect(fill.bestAsk).toBe(0.4);
+    expect(fill.worstPrice).toBe(0.5);
+    expect(fill.levels).toBe(3);
+  });
+
+  test("stops at the price cap or the end of the book", () => {
+    const capped = walkAsks(ASKS, 50, 0.45);
+    expect(capped.usdc).toBeCloseTo(38, 10);
+    expect(capped.worstPrice).toBe(0.45);
+    expect(walkAsks(ASKS, 500).usdc).toBeCloseTo(88, 10);
+  });
+
+  test("empty book fills nothing", () => {
+    const fill = walkAsks([], 10);
+    expect(fill.shares).toBe(0);
+    expect(fill.vwap).toBe(0);
+    expect(fill.levels).toBe(0);
+  });
+});
@@ -8,6 +8,8 @@ function makeRaw(title: string, overrides: Partial<RawMarket> = {}): RawMarket {
     questionId: "q-123",
     title,
     slug: "test-slug",
+    eventId: "event-1",
+    negRisk: true,
     outcomes: ["Yes", "No"],
     outcomePrices: ["0.50", "0.50"],
     tokens: [
@@ -104,6 +106,87 @@ describe("parseMarketTitle — or higher brackets", () => {
   });
 });
 
+describe("parseMarketTitle — lowest temperature", () => {
+  test("between format", () => {
+    const raw = makeRaw("Will the lowest temperature in Chicago be between 18-19°F on February 16?");
+    const p = parseMarketTitle(raw);
+    expect(p).not.toBeNull();
+    expect(p!.city).toBe("chicago");
+    expect(p!.metric).toBe("low");
+    expect(p!.bracketType).toBe("between");
+    expect(p!.bracketMin).toBe(18);
+    expect(p!.bracketMax).toBe(20);
+    expect(p!.date).toBe("2026-02-16");
+  });
+
+  test("or below format", () => {
+    const raw = makeRaw("Will the lowest temperature in New York City be 25°F or below on February 16?");
+    const p = parseMarketTitle(raw);
+    expect(p).not.toBeNull();
+    expect(p!.city).toBe("nyc");
+    expect(p!.metric).toBe("low");
+    expect(p!.bracketType).toBe("below");
+    expect(p!.bracketMax).toBe(26);
+  });
+
+  test("or higher format", () => {
+    const raw = makeRaw("Will the lowest temperature in Miami be 70°F or higher on February 17?");
+    const p = parseMarketTitle(raw);
+    expect(p).not.toBeNull();
+    expect(p!.city).toBe("miami");
+    expect(p!.metric).toBe("low");
+    expect(p!.bracketType).toBe("above");
+    expect(p!.bracketMin).toBe(70);
+  });
+
+  test("highest titles still parse as highs", () => {
+    const raw = makeRaw("Will the highest temperature in Seattle be 40°F or below on February 18?");
+    expect(parseMarketTitle(raw)!.metric).toBe("high");
+  });
+});
+
+describe("parseMarketTitle — Celsius markets", () => {
+  test("single-degree bucket", () => {
+    const raw = makeRaw("Will the highest temperature in London be 14°C on October 5?");
+    const p = parseMarketTitle(raw);
+    expect(p).not.toBeNull();
+    expect(p!.city).toBe("london");
+    expect(p!.unit).toBe("C");
+    expect(p!.bracketType).toBe("between");
+    expect(p!.bracketMin).toBe(14);
+    expect(p!.bracketMax).toBe(15);
+    expect(p!.date).toBe("2026-10-05");
+  });
+
+  test("negative or below bracket", () => {
+    const raw = makeRaw("Will the lowest temperature in Seoul be -5°C or below on January 12?");
+    const p = parseMarketTitle(raw);
+    expect(p).not.toBeNull();
+    expect(p!.city).toBe("seoul");
+    expect(p!.metric).toBe("low");
+    expect(p!.bracketType).toBe("below");
+    expect(p!.bracketMax).toBe(-4);
+  });
+
+  test("or higher bracket", () => {
+    const raw = makeRaw("Will the highest temperature in Toronto be 20°C or higher on October 5?");
+    const p = parseMarketTitle(raw);
+    expect(p).not.toBeNull();
+    expect(p!.unit).toBe("C");
+    expect(p!.bracketMin).toBe(20);
+  });
+
+  test("US titles default to Fahrenheit", () => {
+    const raw = makeRaw("Will the highest temperature in Miami be between 78-79 F on February 17?");
+    expect(parseMarketTitle(raw)!.unit).toBe("F");
+  });
+
+  test("unit that contradicts the city is rejected", () => {
+    const raw = makeRaw("Will the highest temperature in London be 57°F or higher on October 5?");
+    expect(parseMarketTitle(raw)).toBeNull();
+  });
+});
+
 describe("parseMarketTitle — city matching", () => {
   test("matches NYC aliases", () => {
     const titles = [
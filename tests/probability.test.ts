@@ -4,6 +4,9 @@ import {
   calcAboveProbability,
   calcBelowProbability,
   getModelProbability,
+  kdeProbability,
+  kdeBandwidth,
+  roundReported,
 } from "../src/weather/probability.js";
 import type { DailyForecast, EnsembleForecast } from "../src/types.js";
 
@@ -125,6 +128,8 @@ describe("calcBelowProbability", () => {
 describe("getModelProbability", () => {
   const ensemble: EnsembleForecast = {
     city: "nyc",
+    model: "gfs",
+    modelRun: 0,
     fetchedAt: Date.now(),
     daily: [FORECAST],
   };
@@ -169,3 +174,75 @@ describe("probability math invariants", () => {
     expect(sum).toBeCloseTo(1.0, 10);
   });
 });
+
+describe("station rounding in count mode", () => {
+  test("unrounded members are counted by their reported (half-up) value", () => {
+    expect(roundReported(41.5)).toBe(42);
+    expect(roundReported(41.49)).toBe(41);
+    expect(roundReported(-3.5)).toBe(-3);
+    const forecast = makeForecast([41.4, 41.5, 42.4, 43.5]);
+    // 41.5 → 42 and 42.4 → 42 fall in [42, 43); 43.5 → 44 does not fall in [42, 44)
+    expect(calcBucketProbability(forecast, "high", 42, 43).memberCount).toBe(2);
+    expect(calcBucketProbability(forecast, "high", 42, 44).probability).toBeCloseTo(2 / 4, 10);
+  });
+});
+
+describe("kde mode", () => {
+  const KDE = { mode: "kde" as const };
+
+  test("empty brackets get a small but non-zero probability", () => {
+    const p = calcBucketProbability(FORECAST, "high", 45, 47, KDE);
+    expect(p.memberCount).toBe(0); // still the raw count
+    expect(p.probability).toBeGreaterThan(0);
+    expect(p.probability).toBeLessThan(0.1);
+  });
+
+  test("adjacent buckets and tails still sum to 1", () => {
+    let sum = calcBelowProbability(FORECAST, "high", 38, KDE) + calcAboveProbability(FORECAST, "high", 48, KDE);
+    for (let min = 38; min < 48; min += 2) {
+      sum += calcBucketProbability(FORECAST, "high", min, min + 2, KDE).probability;
+    }
+    expect(sum).toBeCloseTo(1.0, 10);
+  });
+
+  test("above + below at same threshold = 1.0", () => {
+    const above = calcAboveProbability(FORECAST, "high", 42, KDE);
+    const below = calcBelowProbability(FORECAST, "high", 42, KDE);
+    expect(above + below).toBeCloseTo(1.0, 10);
+  });
+
+  test("integrates over the reported-value interval [min - 0.5, max - 0.5)", () => {
+    // Members tightly around 42.0: nearly all mass reports as 42
+    const p = kdeProbability(Array(31).fill(42), 42, 43);
+    // Bandwidth floors at 0.5°F → P(|Z| < 1) ≈ 0.683
+    expect(p).toBeCloseTo(0.6827, 3);
+  });
+
+  test("bandwidth scales with spread and the tuning factor", () => {
+    const wide = MOCK_HIGHS.map((h) => h * 3);
+    expect(kdeBandwidth(wide)).toBeGreaterThan(kdeBandwidth(MOCK_HIGHS));
+    expect(kdeBandwidth(wide, 2)).toBeCloseTo(2 * kdeBandwidth(wide), 10);
+    expect(kdeBandwidth([42, 42, 42])).toBe(0.5); // floor
+  });
+
+  test("the bandwidth floor is in the members' unit", () => {
+    expect(kdeBandwidth([6, 6, 6], 1, "C")).toBe(0.3);
+    // 0.3 °C floor → P(|Z| < 0.5 / 0.3) ≈ 0.904 around a tight 6.0 °C cluster
+    expect(kdeProbability(Array(31).fill(6), 6, 7, 1, "C")).toBeCloseTo(0.9044, 3);
+    const options = { mode: "kde" as const, unit: "C" as const };
+    expect(calcBucketProbability(makeForecast(Array(31).fill(6)), "high", 6, 7, options).probability).toBeCloseTo(0.9044, 3);
+  });
+
+  test("falls back to counting with a single member", () => {
+    const single = makeForecast([42]);
+    expect(calcBucketProbability(single, "high", 42, 43, KDE).probability).toBe(1);
+  });
+
+  test("getModelProbability forwards the mode", () => {
+    const ensemble: EnsembleForecast = { city: "nyc", model: "gfs", modelRun: 0, fetchedAt: 0, daily: [FORECAST] };
+    const count = getModelProbability(ensemble, "2026-02-17", "high", "between", 45, 47);
+    const kde = getModelProbability(ensemble, "2026-02-17", "high", "between", 45, 47, KDE);
+    expect(count).toBe(0);
+    expect(kde).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, test, expect } from "bun:test";
+import { computeRunShifts, latestModelRun, parseRunMeta } from "../src/weather/runs.js";
+import { prioritizeSignals } from "../src/engine/signals.js";
+import { FORECAST_PROVIDERS } from "../src/config.js";
+import type { ParsedMarket, RunShift, Signal } from "../src/types.js";
+
+const GFS = FORECAST_PROVIDERS.find((p) => p.name === "gfs")!;
+
+describe("run metadata", () => {
+  test("meta.json times are unix seconds", () => {
+    const run = parseRunMeta(GFS, { last_run_initialisation_time: 1783900800, last_run_availability_time: 1783918000 });
+    expect(new Date(run!.initTime).toISOString()).toBe("2026-07-13T00:00:00.000Z");
+    expect(run!.availableAt).toBe(1783918000 * 1000);
+    expect(run!.source).toBe("meta");
+  });
+
+  test("missing init time is not a run", () => {
+    expect(parseRunMeta(GFS, {})).toBeNull();
+  });
+
+  test("schedule fallback: 12z GFS is not served until 17z", () => {
+    expect(new Date(latestModelRun(GFS, Date.UTC(2026, 6, 13, 16, 59))).toISOString()).toBe("2026-07-13T06:00:00.000Z");
+    expect(new Date(latestModelRun(GFS, Date.UTC(2026, 6, 13, 17, 0))).toISOString()).toBe("2026-07-13T12:00:00.000Z");
+  });
+});
+
+describe("computeRunShifts", () => {
+  const previous = {
+    modelRun: Date.UTC(2026, 6, 13, 0),
+    daily: [
+      { date: "2026-07-13", highs: [80, 82, 84], lows: [60, 62, 64] },
+      { date: "2026-07-14", highs: [80, 80, 80], lows: [60, 60, 60] },
+    ],
+  };
+  const next = {
+    modelRun: Date.UTC(2026, 6, 13, 6),
+    daily: [
+      { date: "2026-07-14", highs: [84, 86, 88], lows: [60, 60, 60] },
+      { date: "2026-07-15", highs: [90], lows: [70] },
+    ],
+  };
+
+  test("one shift per date and metric both runs cover", () => {
+    const shifts = computeRunShifts("gfs", "nyc", previous, next, 1);
+    expect(shifts.map((s) => `${s.date} ${s.metric}`)).toEqual(["2026-07-14 high", "2026-07-14 low"]);
+    expect(shifts[0].meanShift).toBe(6);
+    expect(shifts[0].spreadShift).toBeCloseTo(1.63, 2);
+    expect(shifts[1].meanShift).toBe(0);
+    expect(shifts[0].previousRun).toBe(previous.modelRun);
+  });
+});
+
+describe("prioritizeSignals", () => {
+  function signal(city: string, date: string): Signal {
+    return {
+      id: `${city}-${date}`,
+      market: { city, date, metric: "high" } as ParsedMarket,
+      rawProbability: 0.5,
+      consensusTier: "SAFE",
+      modelProbability: 0.5,
+      marketPrice: 0.4,
+      edge: 0.1,
+      side: "YES",
+      size: 1,
+      kelly: 0.1,
+      confidence: "SAFE",
+      leadTimeHours: 24,
+      createdAt: 0,
+    };
+  }
+  const shift = (city: string, meanShift: number) =>
+    ({ city, date: "2026-07-14", metric: "high", meanShift }) as RunShift;
+
+  test("markets the run moved most go first, the rest keep their order", () => {
+    const signals = [signal("chicago", "2026-07-14"), signal("nyc", "2026-07-14"), signal("miami", "2026-07-14")];
+    const ordered = prioritizeSignals(signals, [shift("miami", -1), shift("nyc", 3)]);
+    expect(ordered.map((s) => s.market.city)).toEqual(["nyc", "miami", "chicago"]);
+  });
+
+  test("no shifts → unchanged", () => {
+    const signals = [signal("chicago", "2026-07-14"), signal("nyc", "2026-07-14")];
+    expect(prioritizeSignals(signals, [])).toBe(signals);
+  });
+});
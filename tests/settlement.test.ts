@@ -0,0 +1,58 @@
+import { describe, test, expect, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import { fetchMetarReport, isInBracket } from "../src/settlement/tracker.js";
+import { getSettlement, setDb } from "../src/store/db.js";
+
+describe("isInBracket", () => {
+  test("between is [min, max)", () => {
+    const bracket = { bracketType: "between" as const, bracketMin: 42, bracketMax: 44 };
+    expect(isInBracket(bracket, 42)).toBe(true);
+    expect(isInBracket(bracket, 43)).toBe(true);
+    expect(isInBracket(bracket, 44)).toBe(false);
+  });
+
+  test("open-ended brackets", () => {
+    expect(isInBracket({ bracketType: "above", bracketMin: 20, bracketMax: Infinity }, 20)).toBe(true);
+    expect(isInBracket({ bracketType: "below", bracketMin: -Infinity, bracketMax: -4 }, -5)).toBe(true);
+    expect(isInBracket({ bracketType: "below", bracketMin: -Infinity, bracketMax: -4 }, -4)).toBe(false);
+  });
+});
+
+describe("fetchMetarReport", () => {
+  const realFetch = globalThis.fetch;
+  afterEach(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  // London's 2026-07-14 civil day is 2026-07-13 23:00Z to 2026-07-14 23:00Z
+  const DAY_END = Date.UTC(2026, 6, 14, 23);
+
+  function stubAsos(): string[] {
+    const urls: string[] = [];
+    const rows = Array.from({ length: 24 }, (_, h) => {
+      const time = new Date(DAY_END - (24 - h) * 3600_000).toISOString().slice(0, 16).replace("T", " ");
+      return `EGLL,${time},${15 + (h % 10)}`;
+    });
+    globalThis.fetch = (async (input: string | URL | Request) => {
+      urls.push(String(input));
+      return new Response(["station,valid,tmpc", ...rows].join("\n"));
+    }) as typeof fetch;
+    return urls;
+  }
+
+  test("a day that just ended is not settled or stored", async () => {
+    setDb(new Database(":memory:"));
+    const urls = stubAsos();
+    expect(await fetchMetarReport("EGLL", "2026-07-14", "Europe/London", DAY_END + 15 * 60_000)).toBeNull();
+    expect(getSettlement("EGLL", "2026-07-14")).toBeNull();
+    expect(urls).toEqual([]);
+  });
+
+  test("once late reports have had time to land, the day settles and is stored", async () => {
+    setDb(new Database(":memory:"));
+    stubAsos();
+    const report = await fetchMetarReport("EGLL", "2026-07-14", "Europe/London", DAY_END + 4 * 3600_000);
+    expect(report).toEqual({ station: "EGLL", date: "2026-07-14", high: 24, low: 15 });
+    expect(getSettlement("EGLL", "2026-07-14")).toEqual(report);
+  });
+});
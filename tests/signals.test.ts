@@ -0,0 +1,125 @@
+import { describe, test, expect, beforeEach, afterEach, setSystemTime } from "bun:test";
+import { generateSignals, mergeSignals } from "../src/engine/signals.js";
+import { summarizeBook, type BookLevel, type OrderBookSummary } from "../src/market/orderbook.js";
+import type { AppConfig, EnsembleForecast, ParsedMarket, Position, ProviderEnsembles, Signal } from "../src/types.js";
+
+const NOW = Date.UTC(2026, 6, 12, 12);
+
+const CONFIG: AppConfig = {
+  mode: "paper",
+  bankrollUsdc: 1000,
+  maxPositionPct: 0.05,
+  minEdgePct: 8,
+  kellyFraction: 0.25,
+  maxOpenPositions: 10,
+  maxLeadDays: 10,
+  minEdgePctByLead: [],
+  kellyFractionByLead: [],
+  maxPositionPctByLead: [],
+  forecastModels: ["gfs"],
+  forecastPoint: "station",
+  climatologyPrior: false,
+  marketStream: false,
+};
+
+// NYC high 84-85°F on Jul 14, Gamma YES at 40¢
+const MARKET: ParsedMarket = {
+  conditionId: "c-84",
+  title: "",
+  city: "nyc",
+  date: "2026-07-14",
+  metric: "high",
+  unit: "F",
+  bracketMin: 84,
+  bracketMax: 86,
+  bracketType: "between",
+  yesTokenId: "yes-84",
+  noTokenId: "no-84",
+  yesPrice: 0.4,
+  noPrice: 0.6,
+  eventId: "event-1",
+  negRisk: true,
+  volume: 5000,
+  endDateIso: "2026-07-15T04:00:00Z",
+};
+
+// Every GFS member at 85°F: one model, YES well above the Gamma price
+function ensembles(): ProviderEnsembles {
+  const highs = Array(31).fill(85);
+  const forecast: EnsembleForecast = {
+    city: "nyc",
+    model: "gfs",
+    modelRun: NOW - 6 * 60 * 60 * 1000,
+    fetchedAt: NOW,
+    daily: [{ date: "2026-07-14", highs, lows: highs.map((h) => h - 15) }],
+  };
+  return new Map([["gfs", new Map([["nyc", forecast]])]]);
+}
+
+function book(asks: BookLevel[]): OrderBookSummary {
+  return summarizeBook("yes-84", [], asks);
+}
+
+function signalsWith(fetchBook: (tokenId: string) => Promise<OrderBookSummary | null>) {
+  return generateSignals([MARKET], ensembles(), CONFIG, [], { fetchBook });
+}
+
+describe("generateSignals against the book", () => {
+  beforeEach(() => setSystemTime(new Date(NOW)));
+  afterEach(() => setSystemTime());
+
+  test("edge is taken at the VWAP of the fill, not the best ask", async () => {
+    const requested: string[] = [];
+    const [signal] = await signalsWith(async (tokenId) => {
+      requested.push(tokenId);
+      return book([{ price: 0.45, size: 10 }, { price: 0.55, size: 20 }, { price: 0.7, size: 100 }]);
+    });
+
+    expect(requested).toEqual(["yes-84"]);
+    expect(signal.side).toBe("YES");
+    const fill = signal.fill!;
+    expect(fill.bestAsk).toBe(0.45);
+    expect(fill.levels).toBe(3);
+    expect(fill.worstPrice).toBe(0.7);
+    expect(fill.vwap).toBeCloseTo(fill.usdc / fill.shares, 10);
+    expect(fill.vwap).toBeGreaterThan(0.45);
+    expect(signal.marketPrice).toBe(fill.vwap);
+    expect(signal.edge).toBeCloseTo(signal.modelProbability - fill.vwap, 10);
+    expect(signal.size).toBe(Math.floor(fill.usdc * 100) / 100);
+  });
+
+  test("a market without a book is skipped", async () => {
+    expect(await signalsWith(async () => null)).toEqual([]);
+  });
+
+  test("a book with no ask worth paying is skipped", async () => {
+    expect(await signalsWith(async () => book([{ price: 0.9, size: 500 }]))).toEqual([]);
+  });
+
+  test("a book too thin to fill the minimum size is skipped", async () => {
+    expect(await signalsWith(async () => book([{ price: 0.45, size: 1 }]))).toEqual([]);
+  });
+
+  test("without fetchBook the Gamma price is used", async () => {
+    const [signal] = await generateSignals([MARKET], ensembles(), CONFIG, []);
+    expect(signal.marketPrice).toBe(0.4);
+    expect(signal.fill).toBeUndefined();
+  });
+});
+
+describe("mergeSignals", () => {
+  const market = (id: string): ParsedMarket => ({ ...MARKET, conditionId: id });
+  const signal = (id: string, edge: number) => ({ id: `${id}-${edge}`, market: market(id), edge }) as Signal;
+
+  test("re-priced markets take the new signal or lose theirs; the rest are kept", () => {
+    const previous = [signal("a", 0.1), signal("b", 0.1), signal("c", 0.1)];
+    const merged = mergeSignals(previous, [signal("a", 0.2)], [market("a"), market("b")], []);
+    expect(merged.map((s) => s.id)).toEqual(["c-0.1", "a-0.2"]);
+  });
+
+  test("markets opened since are dropped", () => {
+    const opened = { conditionId: "c", status: "open" } as Position;
+    const merged = mergeSignals([signal("b", 0.1), signal("c", 0.1)], [], [], [opened]);
+    expect(merged.map((s) => s.id)).toEqual(["b-0.1"]);
+  });
+});
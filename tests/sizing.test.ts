@@ -1,5 +1,6 @@
 import { describe, test, expect } from "bun:test";
-import { kellySize } from "../src/engine/sizing.js";
+import { depthSize, kellySize, leadParams } from "../src/engine/sizing.js";
+import { parseLeadSchedule } from "../src/config.js";
 import type { AppConfig } from "../src/types.js";
 
 const DEFAULT_CONFIG: AppConfig = {
@@ -7,8 +8,14 @@ const DEFAULT_CONFIG: AppConfig = {
   bankrollUsdc: 100,
   maxPositionPct: 0.05,
   minEdgePct: 8,
+  minEdgePctByLead: [],
   kellyFraction: 0.25,
+  kellyFractionByLead: [],
+  maxPositionPctByLead: [],
+  maxLeadDays: 10,
   maxOpenPositions: 10,
+  forecastModels: ["gfs", "ecmwf"],
+  forecastPoint: "station",
 };
 
 describe("kellySize", () => {
@@ -70,3 +77,61 @@ describe("kellySize", () => {
     expect(result.rawKelly).toBeCloseTo(expectedRaw, 5);
   });
 });
+
+describe("lead-time schedules", () => {
+  test("parses and sorts hours:value entries", () => {
+    expect(parseLeadSchedule("X", "72:8, 24:5")).toEqual([
+      { maxHours: 24, value: 5 },
+      { maxHours: 72, value: 8 },
+    ]);
+    expect(parseLeadSchedule("X", "")).toEqual([]);
+    expect(() => parseLeadSchedule("X", "24")).toThrow();
+  });
+
+  test("the first bucket the lead falls under applies", () => {
+    const config: AppConfig = { ...DEFAULT_CONFIG, minEdgePctByLead: parseLeadSchedule("X", "24:5,72:8,168:12") };
+    expect(leadParams(config, 6).minEdgePct).toBe(5);
+    expect(leadParams(config, 24).minEdgePct).toBe(8);
+    expect(leadParams(config, 100).minEdgePct).toBe(12);
+  });
+
+  test("leads past the schedule use the flat settings", () => {
+    const config: AppConfig = { ...DEFAULT_CONFIG, kellyFractionByLead: [{ maxHours: 48, value: 0.4 }] };
+    expect(leadParams(config, 200)).toEqual({ minEdgePct: 8, kellyFraction: 0.25, maxPositionPct: 0.05 });
+    expect(leadParams(config, 12).kellyFraction).toBe(0.4);
+  });
+});
+
+describe("depthSize", () => {
+  // 8% min edge, quarter Kelly, 5% cap → at most $50 of $1000
+  const params = leadParams(DEFAULT_CONFIG, 24);
+
+  test("walks levels up to the Kelly size while they clear the edge bar", () => {
+    const asks = [{ price: 0.4, size: 50 }, { price: 0.45, size: 40 }, { price: 0.5, size: 100 }, { price: 0.55, size: 1000 }];
+    const fill = depthSize(asks, 0.6, 1000, params)!;
+    expect(fill.usdc).toBeCloseTo(50, 10);
+    expect(fill.levels).toBe(3);
+    expect(fill.vwap).toBeCloseTo(50 / 114, 10);
+  });
+
+  test("stops at the first level whose marginal edge is under the bar", () => {
+    // 55¢ leaves 5% edge at a 60% model probability
+    const fill = depthSize([{ price: 0.4, size: 50 }, { price: 0.55, size: 1000 }], 0.6, 1000, params)!;
+    expect(fill.usdc).toBeCloseTo(20, 10);
+    expect(fill.worstPrice).toBe(0.4);
+  });
+
+  test("Kelly at the fill's VWAP caps the size", () => {
+    const uncapped = { ...params, maxPositionPct: 1 };
+    const atBest = kellySize(0.6, 0.4, 100, uncapped).size;
+    const fill = depthSize([{ price: 0.4, size: 5 }, { price: 0.5, size: 100 }], 0.6, 100, uncapped)!;
+    expect(fill.usdc).toBeLessThan(atBest);
+    expect(fill.usdc).toBeGreaterThan(2); // past the 40¢ level
+    expect(fill.worstPrice).toBe(0.5);
+  });
+
+  test("best ask without enough edge → null", () => {
+    expect(depthSize([{ price: 0.55, size: 1000 }], 0.6, 1000, params)).toBeNull();
+    expect(depthSize([], 0.6, 1000, params)).toBeNull();
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, test, expect } from "bun:test";
+import { readFileSync } from "node:fs";
+import { applyStreamQuotes, createBookStore, replayRecording, type RecordedMessage } from "../src/market/stream.js";
+import type { ParsedMarket } from "../src/types.js";
+
+const RECORDING = new URL("./fixtures/clob-stream.jsonl", import.meta.url).pathname;
+const MESSAGES = readFileSync(RECORDING, "utf-8")
+  .trim()
+  .split("\n")
+  .map((l) => (JSON.parse(l) as RecordedMessage).message);
+
+describe("book store", () => {
+  test("replaying a recording rebuilds the books", () => {
+    const store = createBookStore(0);
+    expect(replayRecording(RECORDING, store)).toBe(6);
+
+    const yes = store.book("yes-1")!;
+    expect(yes.bids).toEqual([{ price: 0.3, size: 100 }]);
+    expect(yes.asks).toEqual([{ price: 0.32, size: 40 }, { price: 0.33, size: 50 }, { price: 0.35, size: 100 }]);
+    expect(yes.bestBid).toBe(0.3);
+    expect(yes.bestAsk).toBe(0.32);
+
+    expect(store.book("no-1")!.bestAsk).toBe(0.72);
+    expect(store.book("yes-2")).toBeNull(); // changes without a snapshot are dropped
+  });
+
+  test("reports only tokens whose best bid or ask moved", () => {
+    const store = createBookStore(0);
+    expect(store.handle(MESSAGES[0]).sort()).toEqual(["no-1", "yes-1"]);
+    expect(store.handle(MESSAGES[1])).toEqual(["yes-1"]); // new best ask
+    expect(store.handle(MESSAGES[2])).toEqual([]); // deeper bid removed
+    expect(store.handle(MESSAGES[3])).toEqual(["no-1"]); // best ask pulled (older message shape)
+    expect(store.handle(MESSAGES[4])).toEqual([]);
+  });
+
+  test("nextUpdate wakes on a move and times out without one", async () => {
+    const store = createBookStore(0);
+    expect(await store.nextUpdate(10)).toEqual([]);
+
+    const update = store.nextUpdate(1000);
+    store.handle(MESSAGES[0]);
+    store.handle(MESSAGES[1]);
+    expect((await update).sort()).toEqual(["no-1", "yes-1"]);
+
+    // moves while nobody waits are handed over on the next call
+    store.handle(MESSAGES[3]);
+    expect(await store.nextUpdate(1000)).toEqual(["no-1"]);
+  });
+
+  test("reset drops the books", () => {
+    const store = createBookStore(0);
+    replayRecording(RECORDING, store);
+    store.reset();
+    expect(store.book("yes-1")).toBeNull();
+  });
+});
+
+describe("applyStreamQuotes", () => {
+  const market = (yesTokenId: string) => ({ yesTokenId, noTokenId: "no", yesPrice: 0.4, noPrice: 0.6 }) as ParsedMarket;
+
+  test("streamed books replace Gamma prices with the mid and top of book", () => {
+    const store = createBookStore(0);
+    replayRecording(RECORDING, store);
+    const [streamed, untouched] = applyStreamQuotes([market("yes-1"), market("yes-3")], store);
+    expect(streamed.yesBid).toBe(0.3);
+    expect(streamed.yesAsk).toBe(0.32);
+    expect(streamed.yesPrice).toBeCloseTo(0.31, 10);
+    expect(streamed.noPrice).toBeCloseTo(0.69, 10);
+    expect(untouched.yesPrice).toBe(0.4);
+  });
+});
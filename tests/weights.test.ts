@@ -0,0 +1,130 @@
+import { describe, test, expect } from "bun:test";
+import { Database } from "bun:sqlite";
+import {
+  buildModelWeights,
+  collectWeightSamples,
+  ensembleCrps,
+  fitModelWeights,
+  meanAbsDifference,
+  POOLED_LEAD,
+  type WeightSample,
+} from "../src/engine/weights.js";
+import { FORECAST_PROVIDERS, getCity } from "../src/config.js";
+import { setDb, upsertForecastSnapshot, upsertSettlement } from "../src/store/db.js";
+import type { ModelWeight } from "../src/types.js";
+
+const GFS = FORECAST_PROVIDERS.find((p) => p.name === "gfs")!;
+const ECMWF = FORECAST_PROVIDERS.find((p) => p.name === "ecmwf")!;
+
+describe("ensembleCrps", () => {
+  test("a single member scores its absolute error", () => {
+    expect(ensembleCrps([72], 70)).toBe(2);
+  });
+
+  test("spread is credited: E|X - y| - 0.5 E|X - X'|", () => {
+    expect(ensembleCrps([0, 2], 1)).toBeCloseTo(0.5, 10);
+  });
+
+  test("pairwise mean matches brute force", () => {
+    const a = [3, -1, 7.5, 2, 2];
+    const b = [0, 4, 4, 10];
+    let sum = 0;
+    for (const x of a) for (const y of b) sum += Math.abs(x - y);
+    expect(meanAbsDifference(a, b)).toBeCloseTo(sum / (a.length * b.length), 10);
+  });
+});
+
+describe("fitModelWeights", () => {
+  // GFS centred on the outcome, ECMWF 4° warm, both with the same spread
+  function samples(n: number, leadDays = 1): WeightSample[] {
+    return Array.from({ length: n }, (_, i) => {
+      const observed = 60 + (i % 7);
+      return {
+        city: "nyc",
+        date: `2026-07-${String(1 + (i % 28)).padStart(2, "0")}`,
+        metric: "high" as const,
+        leadDays,
+        observed,
+        members: {
+          gfs: [observed - 2, observed - 1, observed, observed + 1, observed + 2],
+          ecmwf: [observed + 2, observed + 3, observed + 4, observed + 5, observed + 6],
+        },
+      };
+    });
+  }
+
+  test("the model that verifies gets the weight and beats the defaults", () => {
+    const weights = fitModelWeights(samples(40), [GFS, ECMWF], 1);
+    const lead = weights.filter((w) => w.leadDays === 1);
+    expect(lead.find((w) => w.model === "gfs")!.weight).toBe(1);
+    expect(lead.find((w) => w.model === "ecmwf")!.weight).toBe(0);
+    expect(lead[0].mixtureCrps).toBeLessThan(lead[0].defaultCrps);
+    expect(lead.find((w) => w.model === "gfs")!.crps).toBeLessThan(lead.find((w) => w.model === "ecmwf")!.crps);
+  });
+
+  test("also fits a pooled group per city", () => {
+    const weights = fitModelWeights([...samples(20, 1), ...samples(20, 2)], [GFS, ECMWF], 1);
+    // 20 per lead is below the minimum; the 40 pooled are enough
+    expect(weights.every((w) => w.leadDays === POOLED_LEAD)).toBe(true);
+    expect(weights).toHaveLength(2);
+    expect(weights[0].samples).toBe(40);
+  });
+
+  test("too little history → nothing fitted", () => {
+    expect(fitModelWeights(samples(29), [GFS, ECMWF], 1)).toEqual([]);
+  });
+});
+
+describe("buildModelWeights", () => {
+  const row = (leadDays: number, model: string, weight: number): ModelWeight => ({
+    city: "nyc", leadDays, model, weight, crps: 1, mixtureCrps: 1, defaultCrps: 1, samples: 30, fittedAt: 0,
+  });
+  const weights = buildModelWeights([
+    row(1, "gfs", 0.3), row(1, "ecmwf", 0.7),
+    row(POOLED_LEAD, "gfs", 0.6), row(POOLED_LEAD, "ecmwf", 0.4),
+  ]);
+
+  test("exact lead first, then the city's pooled fit", () => {
+    expect(weights.weightsFor("nyc", 1, ["gfs", "ecmwf"])!.get("ecmwf")).toBe(0.7);
+    expect(weights.weightsFor("nyc", 5, ["gfs", "ecmwf"])!.get("ecmwf")).toBe(0.4);
+  });
+
+  test("unfitted city or model → defaults (null)", () => {
+    expect(weights.weightsFor("chicago", 1, ["gfs", "ecmwf"])).toBeNull();
+    expect(weights.weightsFor("nyc", 1, ["gfs", "icon"])).toBeNull();
+  });
+
+  test("a fit that zeroes every available model is skipped", () => {
+    const zeroed = buildModelWeights([row(1, "gfs", 0), row(1, "ecmwf", 1)]);
+    expect(zeroed.weightsFor("nyc", 1, ["gfs"])).toBeNull();
+  });
+});
+
+describe("collectWeightSamples", () => {
+  test("the past_days analysis day is not a lead-0 sample", () => {
+    setDb(new Database(":memory:"));
+    const nyc = getCity("nyc")!;
+    upsertSettlement({ station: nyc.iowaStation, date: "2026-07-13", high: 85, low: 70 });
+    upsertSettlement({ station: nyc.iowaStation, date: "2026-07-14", high: 88, low: 72 });
+    // 12Z Jul 14 runs: New York's Jul 13 climate day ended at 05Z
+    for (const model of ["gfs", "ecmwf"]) {
+      upsertForecastSnapshot({
+        provider: model,
+        city: "nyc",
+        modelRun: Date.UTC(2026, 6, 14, 12),
+        fetchedAt: Date.UTC(2026, 6, 14, 17),
+        point: { kind: "station", lat: nyc.stationLat, lon: nyc.stationLon, gridElevationM: null, targetElevationM: null },
+        payload: [
+          { date: "2026-07-13", highs: [85, 85], lows: [70, 70] },
+          { date: "2026-07-14", highs: [87, 89], lows: [71, 73] },
+        ],
+      });
+    }
+
+    const samples = collectWeightSamples([nyc], ["gfs", "ecmwf"], "station");
+    expect(samples.map((s) => [s.date, s.metric, s.leadDays])).toEqual([
+      ["2026-07-14", "high", 0],
+      ["2026-07-14", "low", 0],
+    ]);
+  });
+});